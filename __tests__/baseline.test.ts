@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyBaseline, createBaseline, loadBaseline, writeBaseline } from '../src/baseline.js';
+import { DEAD_CODE_CATEGORIES, detectDeadCodeInFile } from '../src/deadCodeDetector.js';
+
+describe('Baseline', () => {
+  const testRoot = path.join(process.cwd(), '__tests__', 'temp');
+  let testDir: string;
+  let srcDir: string;
+  let baselinePath: string;
+
+  const ORIGINAL = `package com.example;
+
+public class Legacy {
+    private int oldField;
+
+    public void run(int oldParam) {
+    }
+}
+`;
+
+  function detectAll(files: string[]) {
+    return files.map(f => detectDeadCodeInFile(f, 'java'));
+  }
+
+  function options(analyzedFiles: string[]) {
+    return {
+      baselineDir: path.dirname(baselinePath),
+      analyzedFiles,
+      scopeRoots: [srcDir],
+      extension: '.java',
+      categories: DEAD_CODE_CATEGORIES,
+    };
+  }
+
+  beforeEach(() => {
+    testDir = path.join(testRoot, `baseline-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    srcDir = path.join(testDir, 'src');
+    fs.mkdirSync(srcDir, { recursive: true });
+    baselinePath = path.join(testDir, 'dead-code-baseline.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('writes sorted entries with paths relative to the baseline file', () => {
+    const file = path.join(srcDir, 'Legacy.java');
+    fs.writeFileSync(file, ORIGINAL);
+
+    const count = writeBaseline(baselinePath, detectAll([file]));
+    const baseline = loadBaseline(baselinePath);
+
+    expect(count).toBe(2);
+    expect(baseline.entries).toEqual([
+      { file: 'src/Legacy.java', category: 'unused_field', enclosingScope: 'Legacy', name: 'oldField' },
+      { file: 'src/Legacy.java', category: 'unused_parameter', enclosingScope: 'Legacy.run', name: 'oldParam' },
+    ]);
+  });
+
+  it('keeps the entries of other languages and tools when writing within a scope', () => {
+    const file = path.join(srcDir, 'Legacy.java');
+    fs.writeFileSync(file, ORIGINAL);
+    const kotlinEntry = { file: 'src/Legacy.kt', category: 'unused_field', enclosingScope: 'Legacy', name: 'count' };
+    const publicEntry = { file: 'src/Api.java', category: 'unused_public_method', enclosingScope: 'Api', name: 'call' };
+    const staleEntry = { file: 'src/Old.java', category: 'unused_field', enclosingScope: 'Old', name: 'gone' };
+    fs.writeFileSync(baselinePath, JSON.stringify({ version: 1, entries: [kotlinEntry, publicEntry, staleEntry] }));
+
+    const count = writeBaseline(baselinePath, detectAll([file]), options([file]));
+
+    expect(count).toBe(2);
+    expect(loadBaseline(baselinePath).entries.map(e => `${e.file} ${e.name}`)).toEqual([
+      'src/Api.java call',
+      'src/Legacy.java oldField',
+      'src/Legacy.java oldParam',
+      'src/Legacy.kt count',
+    ]);
+  });
+
+  it('keeps the entries of other modules when writing a baseline for one module after another', () => {
+    const moduleDirs = ['app', 'lib'].map(name => path.join(testDir, name));
+    const files = moduleDirs.map(dir => {
+      fs.mkdirSync(dir, { recursive: true });
+      const file = path.join(dir, 'Legacy.java');
+      fs.writeFileSync(file, ORIGINAL);
+      return file;
+    });
+    // Not analyzed because of an exclude pattern, but still present
+    const excluded = path.join(moduleDirs[1], 'Generated.java');
+    fs.writeFileSync(excluded, ORIGINAL);
+    fs.writeFileSync(baselinePath, JSON.stringify({ version: 1, entries: [
+      { file: 'lib/Generated.java', category: 'unused_field', enclosingScope: 'Legacy', name: 'oldField' },
+      { file: 'lib/Deleted.java', category: 'unused_field', enclosingScope: 'Deleted', name: 'gone' },
+    ] }));
+
+    for (const [index, file] of files.entries()) {
+      const scope = { ...options([file]), scopeRoots: [moduleDirs[index]] };
+      expect(writeBaseline(baselinePath, detectAll([file]), scope)).toBe(2);
+    }
+
+    expect(loadBaseline(baselinePath).entries.map(e => `${e.file} ${e.name}`)).toEqual([
+      'app/Legacy.java oldField',
+      'app/Legacy.java oldParam',
+      'lib/Generated.java oldField',
+      'lib/Legacy.java oldField',
+      'lib/Legacy.java oldParam',
+    ]);
+  });
+
+  it('keeps matching baseline entries after lines shift and reports only new findings', () => {
+    const file = path.join(srcDir, 'Legacy.java');
+    fs.writeFileSync(file, ORIGINAL);
+    writeBaseline(baselinePath, detectAll([file]));
+
+    fs.writeFileSync(file, `package com.example;
+
+import java.util.List;
+
+public class Legacy {
+    // moved down by a few lines
+    private int oldField;
+    private int newField;
+
+    public void run(int oldParam) {
+    }
+}
+`);
+    const result = applyBaseline(detectAll([file]), loadBaseline(baselinePath), options([file]));
+
+    expect(result.suppressedFindings).toBe(2);
+    expect(result.fixedEntries).toEqual([]);
+    expect(result.files[0].findings.map(f => f.name)).toEqual(['newField']);
+  });
+
+  it('reports entries that no longer match as fixed', () => {
+    const file = path.join(srcDir, 'Legacy.java');
+    fs.writeFileSync(file, ORIGINAL);
+    writeBaseline(baselinePath, detectAll([file]));
+
+    fs.writeFileSync(file, ORIGINAL.replace('    private int oldField;\n', ''));
+    const result = applyBaseline(detectAll([file]), loadBaseline(baselinePath), options([file]));
+
+    expect(result.files[0].findings).toEqual([]);
+    expect(result.fixedEntries).toEqual([
+      { file: 'src/Legacy.java', category: 'unused_field', enclosingScope: 'Legacy', name: 'oldField' },
+    ]);
+  });
+
+  it('each entry absorbs only one finding with the same key', () => {
+    const file = path.join(srcDir, 'Legacy.java');
+    fs.writeFileSync(file, ORIGINAL);
+    writeBaseline(baselinePath, detectAll([file]));
+
+    fs.writeFileSync(file, ORIGINAL.replace('    }\n}', '    }\n\n    public void run(String oldParam, int x) {\n        System.out.println(x);\n    }\n}'));
+    const result = applyBaseline(detectAll([file]), loadBaseline(baselinePath), options([file]));
+
+    expect(result.suppressedFindings).toBe(2);
+    expect(result.files[0].findings.map(f => f.name)).toEqual(['oldParam']);
+  });
+
+  it('does not report entries for files outside this run as fixed', () => {
+    const baseline = createBaseline([{
+      file: path.join(testDir, 'other', 'Other.java'),
+      findings: [{ category: 'unused_field', enclosingScope: 'Other', name: 'x' }],
+    }], testDir);
+
+    const result = applyBaseline([], baseline, options([]));
+    expect(result.fixedEntries).toEqual([]);
+  });
+
+  it('reports entries for deleted files under the scanned paths as fixed', () => {
+    const baseline = createBaseline([{
+      file: path.join(srcDir, 'Deleted.java'),
+      findings: [{ category: 'unused_field', enclosingScope: 'Deleted', name: 'x' }],
+    }], testDir);
+
+    const result = applyBaseline([], baseline, options([]));
+    expect(result.fixedEntries.map(e => e.file)).toEqual(['src/Deleted.java']);
+  });
+
+  it('ignores entries from other tools and files that failed to analyze', () => {
+    const file = path.join(srcDir, 'Broken.java');
+    fs.writeFileSync(file, 'public class Broken {{{');
+    const baseline = createBaseline([{
+      file,
+      findings: [
+        { category: 'unused_public_method', enclosingScope: 'Broken', name: 'api' },
+        { category: 'unused_field', enclosingScope: 'Broken', name: 'x' },
+      ],
+    }], testDir);
+
+    const result = applyBaseline(
+      [{ file, findings: [], error: 'Syntax error in file' }],
+      baseline,
+      options([file])
+    );
+    expect(result.fixedEntries).toEqual([]);
+  });
+
+  describe('loadBaseline', () => {
+    it('throws for a missing file', () => {
+      expect(() => loadBaseline(path.join(testDir, 'missing.json'))).toThrow(/Cannot read baseline file/);
+    });
+
+    it('throws for invalid JSON', () => {
+      fs.writeFileSync(baselinePath, '{ not json');
+      expect(() => loadBaseline(baselinePath)).toThrow(/Invalid JSON in baseline file/);
+    });
+
+    it('throws when entries are malformed', () => {
+      fs.writeFileSync(baselinePath, JSON.stringify({ version: 1, entries: [{ file: 'a.java' }] }));
+      expect(() => loadBaseline(baselinePath)).toThrow(/every entry needs/);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { filterChangedLines, isChangedFile, isChangedLine, parseUnifiedDiff, readChangeSet } from '../src/changedFiles.js';
+
+describe('parseUnifiedDiff', () => {
+  test('collects added line ranges per file', () => {
+    const diff = [
+      'diff --git a/src/A.java b/src/A.java',
+      'index 1111111..2222222 100644',
+      '--- a/src/A.java',
+      '+++ b/src/A.java',
+      '@@ -3 +3 @@ class A {',
+      '-  int x;',
+      '+  int y;',
+      '@@ -10,0 +11,2 @@ class A {',
+      '+  void a() {}',
+      '+  void b() {}',
+      '@@ -20,2 +21,0 @@ class A {',
+      '-  void c() {}',
+      '-  void d() {}',
+    ].join('\n');
+
+    const files = parseUnifiedDiff(diff);
+    expect([...files.keys()]).toEqual(['src/A.java']);
+    expect([...files.get('src/A.java')!].sort((a, b) => a - b)).toEqual([3, 11, 12]);
+  });
+
+  test('keeps pure renames with no changed lines and skips deleted files', () => {
+    const diff = [
+      'diff --git a/Old.kt b/New.kt',
+      'similarity index 100%',
+      'rename from Old.kt',
+      'rename to New.kt',
+      'diff --git a/Gone.kt b/Gone.kt',
+      'deleted file mode 100644',
+      '--- a/Gone.kt',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      '-class Gone',
+      '-',
+    ].join('\n');
+
+    const files = parseUnifiedDiff(diff);
+    expect([...files.keys()]).toEqual(['New.kt']);
+    expect(files.get('New.kt')!.size).toBe(0);
+  });
+
+  test('unquotes paths with special characters', () => {
+    const diff = [
+      'diff --git "a/my \\"dir\\"/A.java" "b/my \\"dir\\"/A.java"',
+      '--- "a/my \\"dir\\"/A.java"',
+      '+++ "b/my \\"dir\\"/A.java"',
+      '@@ -1 +1 @@',
+    ].join('\n');
+
+    expect([...parseUnifiedDiff(diff).keys()]).toEqual(['my "dir"/A.java']);
+  });
+});
+
+describe('readChangeSet', () => {
+  const repo = path.join(process.cwd(), '__tests__', 'temp', 'changed-files-repo');
+  const git = (...args: string[]) => execFileSync('git', ['-C', repo, ...args], { stdio: 'pipe' });
+  const write = (relPath: string, content: string) => {
+    const full = path.join(repo, relPath);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content, 'utf-8');
+    return full;
+  };
+
+  beforeAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.mkdirSync(repo, { recursive: true });
+    git('init', '-q');
+    write('src/Unchanged.java', 'class Unchanged {}\n');
+    write('src/Modified.java', 'class Modified {\n  int a;\n  int b;\n}\n');
+    write('src/Old.java', 'class Old {}\n');
+    write('src/Deleted.java', 'class Deleted {}\n');
+    write('.gitignore', 'out/\n');
+    git('add', '-A');
+    git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'base');
+    git('tag', 'base');
+
+    write('src/Modified.java', 'class Modified {\n  int a;\n  int changed;\n}\n');
+    write('src/Added.java', 'class Added {}\n');
+    git('add', 'src/Added.java');
+    git('mv', 'src/Old.java', 'src/Renamed.java');
+    git('rm', '-q', 'src/Deleted.java');
+    write('src/Untracked.java', 'class Untracked {}\n');
+    write('out/Ignored.java', 'class Ignored {}\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  test('lists modified, added, renamed and untracked files', () => {
+    const changes = readChangeSet('base', [path.join(repo, 'src')]);
+    const changed = (file: string) => isChangedFile(changes, path.join(repo, file));
+
+    expect(changes.ref).toBe('base');
+    expect(changed('src/Modified.java')).toBe(true);
+    expect(changed('src/Added.java')).toBe(true);
+    expect(changed('src/Renamed.java')).toBe(true);
+    expect(changed('src/Untracked.java')).toBe(true);
+    expect(changed('src/Unchanged.java')).toBe(false);
+    expect(changed('src/Deleted.java')).toBe(false);
+    expect(changed('out/Ignored.java')).toBe(false);
+  });
+
+  test('tracks changed lines', () => {
+    const changes = readChangeSet('base', [repo]);
+    const modified = path.join(repo, 'src', 'Modified.java');
+
+    expect(isChangedLine(changes, modified, 3)).toBe(true);
+    expect(isChangedLine(changes, modified, 2)).toBe(false);
+    expect(isChangedLine(changes, path.join(repo, 'src', 'Untracked.java'), 1)).toBe(true);
+    expect(isChangedLine(changes, path.join(repo, 'src', 'Renamed.java'), 1)).toBe(false);
+  });
+
+  test('filters findings to changed lines', () => {
+    const changes = readChangeSet('base', [repo]);
+    const modified = path.join(repo, 'src', 'Modified.java');
+    const files = filterChangedLines([{ file: modified, findings: [{ line: 2 }, { line: 3 }] }], changes);
+
+    expect(files[0].findings).toEqual([{ line: 3 }]);
+  });
+
+  test('rejects unknown refs', () => {
+    expect(() => readChangeSet('no-such-ref', [repo])).toThrow('Unknown git ref "no-such-ref"');
+    expect(() => readChangeSet('--output=x', [repo])).toThrow('Invalid git ref');
+  });
+});
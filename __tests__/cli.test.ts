@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EXIT_CLEAN, EXIT_ERROR, EXIT_FINDINGS, isCliInvocation, runCli, type ToolRunner } from '../src/cli.js';
+import { callTool } from '../src/server.js';
+import { createScanMonitor } from '../src/scanProgress.js';
+
+interface Call {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** Runs the CLI against canned tool results and captures calls and output */
+async function run(args: string[], results: Record<string, object> = {}) {
+  const calls: Call[] = [];
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const runTool: ToolRunner = async (name, toolArgs) => {
+    calls.push({ name, args: toolArgs });
+    return JSON.stringify(results[name] ?? { status: 'OK', totalFindings: 0, files: [] });
+  };
+  const status = await runCli(args, runTool, { stdout: t => stdout.push(t), stderr: t => stderr.push(t) });
+  return { status, calls, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+const UNUSED_IMPORT = {
+  status: 'OK',
+  filesChanged: 1,
+  files: [{
+    file: 'src/A.java',
+    modified: false,
+    resorted: false,
+    removedImports: [{ fqn: 'java.util.List', text: 'import java.util.List;', line: 3, symbols: ['List'] }],
+  }],
+};
+
+const FINDING = {
+  category: 'unused_field',
+  name: 'count',
+  line: 7,
+  column: 2,
+  enclosingScope: 'A',
+  message: "Private field 'count' is never used in class 'A'",
+};
+
+describe('runCli imports', () => {
+  it('checks without modifying files and fails on unused imports', async () => {
+    const result = await run(['imports', '--check', 'src'], { cleanup_unused_imports_java: UNUSED_IMPORT });
+    expect(result.calls).toEqual([
+      { name: 'cleanup_unused_imports_java', args: { paths: ['src'], dryRun: true } },
+      { name: 'cleanup_unused_imports_kotlin', args: { paths: ['src'], dryRun: true } },
+    ]);
+    expect(result.stdout).toContain('src/A.java:3: unused import java.util.List');
+    expect(result.stdout).toContain('1 unused imports in 1 files');
+    expect(result.status).toBe(EXIT_FINDINGS);
+  });
+
+  it('succeeds when nothing is unused', async () => {
+    const result = await run(['imports', '--check', '--language', 'kotlin']);
+    expect(result.calls).toEqual([{ name: 'cleanup_unused_imports_kotlin', args: { paths: ['.'], dryRun: true } }]);
+    expect(result.status).toBe(EXIT_CLEAN);
+  });
+
+  it('applies the cleanup without --check', async () => {
+    const result = await run(['imports', 'src', '--language=java'], { cleanup_unused_imports_java: UNUSED_IMPORT });
+    expect(result.calls[0].args).toEqual({ paths: ['src'] });
+    expect(result.stdout).toContain('Removed 1 unused imports, changed 1 files');
+    expect(result.status).toBe(EXIT_FINDINGS);
+  });
+
+  it('passes files only to the tool of their language', async () => {
+    const result = await run(['imports', '--check', 'src/A.java', 'src/B.kt', 'lib']);
+    expect(result.calls).toEqual([
+      { name: 'cleanup_unused_imports_java', args: { paths: ['src/A.java', 'lib'], dryRun: true } },
+      { name: 'cleanup_unused_imports_kotlin', args: { paths: ['src/B.kt', 'lib'], dryRun: true } },
+    ]);
+  });
+
+  it('passes file filters through', async () => {
+    const result = await run([
+      'imports', '--check', '--language', 'java', '--exclude', 'gen/**', '--exclude', '*.kt',
+      '--include', 'src/**', '--no-gitignore', '--changed-since', 'origin/main',
+    ]);
+    expect(result.calls[0].args).toEqual({
+      paths: ['.'],
+      include: ['src/**'],
+      exclude: ['gen/**', '*.kt'],
+      respectGitignore: false,
+      changedSince: 'origin/main',
+      dryRun: true,
+    });
+  });
+});
+
+describe('runCli dead-code', () => {
+  it('prints findings with 1-based columns and fails', async () => {
+    const result = await run(['dead-code', '--language', 'java', 'src'], {
+      detect_dead_code_java: { status: 'OK', totalFindings: 1, files: [{ file: 'src/A.java', findings: [FINDING] }] },
+    });
+    expect(result.stdout).toContain("src/A.java:7:3: unused_field: Private field 'count' is never used in class 'A'");
+    expect(result.status).toBe(EXIT_FINDINGS);
+  });
+
+  it('merges the SARIF runs of both languages into one log', async () => {
+    const sarif = (count: number) => ({
+      version: '2.1.0',
+      runs: [{
+        invocations: [{ executionSuccessful: true, toolExecutionNotifications: [] }],
+        results: Array.from({ length: count }, () => ({ ruleId: 'unused_field' })),
+      }],
+    });
+    const result = await run(['dead-code', '--format', 'sarif'], {
+      detect_dead_code_java: sarif(2),
+      detect_dead_code_kotlin: sarif(0),
+    });
+    expect(result.calls.map(c => c.args.outputFormat)).toEqual(['sarif', 'sarif']);
+    const log = JSON.parse(result.stdout);
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(2);
+    expect(result.status).toBe(EXIT_FINDINGS);
+  });
+
+  it('passes baseline options through', async () => {
+    const result = await run(['dead-code', '--language', 'kotlin', '--baseline', 'b.json', '--write-baseline']);
+    expect(result.calls[0].args).toEqual({ paths: ['.'], baselinePath: 'b.json', writeBaseline: true });
+  });
+
+  it('succeeds when writing a baseline', async () => {
+    const result = await run(['dead-code', '--language', 'java', '--baseline', 'b.json', '--write-baseline'], {
+      detect_dead_code_java: { status: 'OK', totalFindings: 1, files: [{ file: 'src/A.java', findings: [FINDING] }] },
+    });
+    expect(result.stdout).toContain('1 findings written to the baseline');
+    expect(result.status).toBe(EXIT_CLEAN);
+  });
+
+  it('reports files that could not be analyzed once and exits with an error', async () => {
+    const missing = { status: 'OK', totalFindings: 0, files: [{ file: 'nope', findings: [], error: 'Path not found: nope' }] };
+    const result = await run(['dead-code', 'nope'], { detect_dead_code_java: missing, detect_dead_code_kotlin: missing });
+    expect(result.stderr).toBe('Error: nope: Path not found: nope');
+    expect(result.status).toBe(EXIT_ERROR);
+  });
+});
+
+describe('runCli public-dead-code', () => {
+  it('runs the mixed tool with profiles', async () => {
+    const result = await run(['public-dead-code', '--profile', 'spring', '--profile', 'junit5,micronaut', 'app/src']);
+    expect(result.calls).toEqual([{
+      name: 'detect_public_dead_code',
+      args: { paths: ['app/src'], activeProfiles: ['spring', 'junit5', 'micronaut'] },
+    }]);
+    expect(result.stdout).toBe('0 findings');
+    expect(result.status).toBe(EXIT_CLEAN);
+  });
+
+  it('discovers sources from a project root without default paths', async () => {
+    const result = await run([
+      'public-dead-code', '--language', 'kotlin', '--project-root', '.', '--reachability',
+      '--reference-path', 'src/test', '--report-used-only-in-tests', '--meta-annotations', '--format', 'json',
+    ]);
+    expect(result.calls).toEqual([{
+      name: 'detect_public_dead_code_kotlin',
+      args: {
+        projectRoot: '.',
+        referencePaths: ['src/test'],
+        reachability: true,
+        reportUsedOnlyInTests: true,
+        metaAnnotations: true,
+      },
+    }]);
+    expect(JSON.parse(result.stdout)).toEqual({ status: 'OK', totalFindings: 0, files: [] });
+  });
+
+  it('exits with an error when the tool rejects the call', async () => {
+    const result = await run(['public-dead-code', '--write-baseline'], {
+      detect_public_dead_code: { status: 'NOK', error: 'writeBaseline requires baselinePath' },
+    });
+    expect(result.stderr).toBe('Error: writeBaseline requires baselinePath');
+    expect(result.status).toBe(EXIT_ERROR);
+  });
+});
+
+describe('runCli usage', () => {
+  it('prints help', async () => {
+    const result = await run(['help']);
+    expect(result.stdout).toContain('Usage: lang-tools-mcp <command>');
+    expect(result.status).toBe(EXIT_CLEAN);
+  });
+
+  it('treats any first argument but an option as a command', () => {
+    expect(isCliInvocation(['imprts', '--check', '.'])).toBe(true);
+    expect(isCliInvocation(['--http', '--port', '3000'])).toBe(false);
+    expect(isCliInvocation([])).toBe(false);
+  });
+
+  it('prints usage for an unknown command', async () => {
+    const result = await run(['imprts', '--check', '.']);
+    expect(result.status).toBe(EXIT_ERROR);
+    expect(result.calls).toEqual([]);
+    expect(result.stderr).toContain('Error: Unknown command: imprts');
+    expect(result.stderr).toContain('Usage: lang-tools-mcp <command>');
+  });
+
+  it('rejects unknown options and invalid values', async () => {
+    for (const args of [
+      ['imports', '--bogus'],
+      ['imports', '--format', 'sarif'],
+      ['dead-code', '--language', 'scala'],
+      ['dead-code', '--baseline'],
+      ['imports', '--check=yes'],
+    ]) {
+      const result = await run(args);
+      expect(result.status).toBe(EXIT_ERROR);
+      expect(result.calls).toEqual([]);
+      expect(result.stderr).toMatch(/^Error: /);
+    }
+  });
+
+  it('exits with an error when a tool throws', async () => {
+    const runTool: ToolRunner = async () => { throw new Error('Unknown profile: "nope"'); };
+    const stderr: string[] = [];
+    const status = await runCli(['public-dead-code'], runTool, { stdout: () => {}, stderr: t => stderr.push(t) });
+    expect(status).toBe(EXIT_ERROR);
+    expect(stderr).toEqual(['Error: Unknown profile: "nope"']);
+  });
+});
+
+describe('runCli with the tools', () => {
+  const testRoot = path.join(process.cwd(), '__tests__', 'temp');
+  let testDir: string;
+
+  /** Runs the CLI against the tools themselves */
+  async function runTools(args: string[]) {
+    const stdout: string[] = [];
+    const runTool: ToolRunner = async (name, toolArgs) => {
+      const result = await callTool({ method: 'tools/call', params: { name, arguments: toolArgs } }, createScanMonitor());
+      return result.content[0].text;
+    };
+    const status = await runCli(args, runTool, { stdout: t => stdout.push(t), stderr: t => stdout.push(t) });
+    return { status, stdout: stdout.join('\n') };
+  }
+
+  beforeEach(() => {
+    testDir = path.join(testRoot, `cli-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(path.join(testDir, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'src', 'Legacy.java'), 'public class Legacy {\n    private int count;\n}\n');
+    fs.writeFileSync(path.join(testDir, 'src', 'Legacy.kt'), 'class LegacyKt {\n    private val count = 0\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('checks a single Java file with the Java tool only', async () => {
+    const file = path.join(testDir, 'src', 'Legacy.java');
+    const imports = await runTools(['imports', '--check', file]);
+    expect(imports.stdout).toContain('0 unused imports in 0 files');
+    expect(imports.status).toBe(EXIT_CLEAN);
+
+    const deadCode = await runTools(['dead-code', file]);
+    expect(deadCode.stdout).toContain('1 findings');
+    expect(deadCode.status).toBe(EXIT_FINDINGS);
+  });
+
+  it('records the findings of both languages in one baseline', async () => {
+    const baselinePath = path.join(testDir, 'baseline.json');
+    const src = path.join(testDir, 'src');
+
+    const written = await runTools(['dead-code', '--baseline', baselinePath, '--write-baseline', src]);
+    expect(written.stdout).toContain('2 findings written to the baseline');
+    expect(written.status).toBe(EXIT_CLEAN);
+    const entries = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')).entries;
+    expect(entries.map((e: { file: string }) => e.file)).toEqual(['src/Legacy.java', 'src/Legacy.kt']);
+
+    const checked = await runTools(['dead-code', '--baseline', baselinePath, src]);
+    expect(checked.stdout).toContain('0 findings');
+    expect(checked.status).toBe(EXIT_CLEAN);
+  });
+});
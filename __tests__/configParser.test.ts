@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { configFormat, parseConfigText } from '../src/configParser.js';
+
+describe('configFormat', () => {
+  it('reads YAML from .yaml and .yml files and JSON from everything else', () => {
+    expect(configFormat('/repo/.lang-tools.yaml')).toBe('yaml');
+    expect(configFormat('config.YML')).toBe('yaml');
+    expect(configFormat('/repo/.lang-tools.json')).toBe('json');
+    expect(configFormat('/etc/lang-tools')).toBe('json');
+  });
+});
+
+describe('parseConfigText json', () => {
+  const text = [
+    '{',
+    '  // line comment',
+    '  "profiles": [',
+    '    { "name": "a", /* inline */ "entrypoints": [], },',
+    '  ],',
+    '  "exclude": ["// not a comment", "x\\"y"],',
+    '}',
+  ].join('\n');
+
+  it('parses comments, trailing commas and strings that look like comments', () => {
+    expect(parseConfigText(text, 'json').value).toEqual({
+      profiles: [{ name: 'a', entrypoints: [] }],
+      exclude: ['// not a comment', 'x"y'],
+    });
+    expect(parseConfigText('[1, -2.5e3, true, false, null]', 'json').value).toEqual([1, -2500, true, false, null]);
+  });
+
+  it('locates members by their key and elements by their start', () => {
+    const { locate } = parseConfigText(text, 'json');
+    expect(locate([])).toEqual({ line: 1, column: 1 });
+    expect(locate(['profiles'])).toEqual({ line: 3, column: 3 });
+    expect(locate(['profiles', 0])).toEqual({ line: 4, column: 5 });
+    expect(locate(['profiles', 0, 'entrypoints'])).toEqual({ line: 4, column: 33 });
+    expect(locate(['exclude', 1])).toEqual({ line: 6, column: 35 });
+    expect(locate(['missing'])).toBeUndefined();
+  });
+
+  it('keeps keys that are special in JavaScript as plain members', () => {
+    const value = parseConfigText('{"__proto__": {"polluted": true}}', 'json').value as Record<string, unknown>;
+    expect(Object.keys(value)).toEqual(['__proto__']);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('reports syntax errors with line and column', () => {
+    const error = (source: string) => () => parseConfigText(source, 'json');
+    expect(error('{\n  "a": tru\n}')).toThrow('malformed JSON at line 2, column 8 — expected a value, found character "t"');
+    expect(error('{ "a": 1 } x')).toThrow('line 1, column 12 — unexpected character "x" after the end of the config');
+    expect(error('{ "a": "b\n" }')).toThrow('line 1, column 8 — unterminated string');
+    expect(error('{ /* open')).toThrow('line 1, column 3 — unterminated comment');
+    expect(error('[1, 2')).toThrow('line 1, column 6 — expected "," or "]", found end of file');
+    expect(error('{ , }')).toThrow('line 1, column 3 — expected a string key or "}", found character ","');
+    expect(error('')).toThrow('line 1, column 1 — expected a value, found end of file');
+  });
+});
+
+describe('parseConfigText yaml', () => {
+  const text = [
+    '# comment',
+    'profiles:',
+    '  - name: a',
+    '    entrypoints:',
+    '      - name: ep',
+    '        rules: [{ annotatedBy: com.example.A }]',
+  ].join('\n');
+
+  it('parses YAML and treats a file of comments as an empty config', () => {
+    expect(parseConfigText(text, 'yaml').value).toEqual({
+      profiles: [{ name: 'a', entrypoints: [{ name: 'ep', rules: [{ annotatedBy: 'com.example.A' }] }] }],
+    });
+    expect(parseConfigText('# nothing yet\n', 'yaml').value).toEqual({});
+  });
+
+  it('locates members by their key and elements by their start', () => {
+    const { locate } = parseConfigText(text, 'yaml');
+    expect(locate(['profiles'])).toEqual({ line: 2, column: 1 });
+    expect(locate(['profiles', 0])).toEqual({ line: 3, column: 5 });
+    expect(locate(['profiles', 0, 'entrypoints', 0, 'rules', 0, 'annotatedBy'])).toEqual({ line: 6, column: 19 });
+    expect(locate(['profiles', 1])).toBeUndefined();
+  });
+
+  it('reports syntax errors with line and column', () => {
+    expect(() => parseConfigText('exclude: a: b\n', 'yaml'))
+      .toThrow('malformed YAML at line 1, column 10 — Nested mappings are not allowed in compact mappings');
+  });
+});
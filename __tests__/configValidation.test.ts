@@ -0,0 +1,169 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CONDITION_COMBINATORS,
+  CONDITION_TYPES,
+  CONFIG_KEYS,
+  ENTRYPOINT_KEYS,
+  IMPORT_LAYOUT_KEYS,
+  IMPORT_LAYOUT_PRESETS,
+  PROFILE_KEYS,
+  closestMatch,
+  validateConfig,
+} from '../src/configValidation.js';
+
+const schema = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'schema', 'lang-tools.schema.json'), 'utf-8'));
+
+const CONDITION_KEYS = [...CONDITION_TYPES, ...CONDITION_COMBINATORS];
+
+/** The messages of the config's issues */
+function messages(config: unknown): string[] {
+  return validateConfig(config).map(issue => issue.message);
+}
+
+/** A config with one custom profile holding the given rules */
+function withRules(rules: unknown[]) {
+  return { profiles: [{ name: 'mine', entrypoints: [{ name: 'ep', rules }] }] };
+}
+
+describe('validateConfig', () => {
+  it('accepts a complete config', () => {
+    expect(messages({
+      $schema: './schema/lang-tools.schema.json',
+      activeProfiles: ['spring', 'mine'],
+      profiles: [{
+        name: 'mine',
+        keepExternalOverrides: false,
+        entrypoints: [{
+          name: 'handlers',
+          rules: CONDITION_TYPES.map(type => ({ [type]: type === 'serviceDiscovery' ? true : 'com.example.*' })),
+        }],
+      }],
+      sortImports: true,
+      importLayout: { java: 'google', kotlin: { preset: 'ktlint', groups: ['*', ''], staticImports: 'first' } },
+      exclude: ['**/generated/**'],
+      respectGitignore: false,
+    })).toEqual([]);
+    expect(messages({})).toEqual([]);
+    expect(messages({ importLayout: 'intellij' })).toEqual([]);
+  });
+
+  it('suggests the closest condition type for a typo', () => {
+    expect(messages(withRules([{ annotedBy: 'com.example.A' }]))).toEqual([
+      '$.profiles[0].entrypoints[0].rules[0]: unknown condition type "annotedBy". Did you mean "annotatedBy"?',
+    ]);
+    expect(messages(withRules([{ namePatern: 'on*' }, { implementsInterfaceFromPkg: 'a.*' }]))).toEqual([
+      '$.profiles[0].entrypoints[0].rules[0]: unknown condition type "namePatern". Did you mean "namePattern"?',
+      '$.profiles[0].entrypoints[0].rules[1]: unknown condition type "implementsInterfaceFromPkg". ' +
+        'Did you mean "implementsInterfaceFromPackage"?',
+    ]);
+  });
+
+  it('lists the valid condition types when nothing is close', () => {
+    const [error] = messages(withRules([{ returns: 'void' }]));
+    expect(error).toBe(
+      `$.profiles[0].entrypoints[0].rules[0]: unknown condition type "returns". Expected one of: ${CONDITION_KEYS.join(', ')}`
+    );
+  });
+
+  it('rejects conditions with several keys or none', () => {
+    expect(messages(withRules([{ annotatedBy: 'a.B', namePattern: 'on*' }, {}]))).toEqual([
+      '$.profiles[0].entrypoints[0].rules[0]: a condition must have exactly one key, found "annotatedBy", "namePattern". ' +
+        'Split it into separate conditions, or combine them with allOf or anyOf',
+      `$.profiles[0].entrypoints[0].rules[1]: empty condition. Expected one of: ${CONDITION_KEYS.join(', ')}`,
+    ]);
+  });
+
+  it('accepts nested combinators', () => {
+    expect(messages(withRules([
+      { annotatedBy: 'org.springframework.stereotype.Controller' },
+      { not: { packagePattern: '*.legacy.*' } },
+      { anyOf: [{ implementsInterface: 'a.B' }, { allOf: [{ namePattern: 'on*' }, { not: { serviceDiscovery: true } }] }] },
+    ]))).toEqual([]);
+  });
+
+  it('checks conditions nested in combinators', () => {
+    expect(messages(withRules([
+      { not: { annotedBy: 'a.B' } },
+      { anyOf: [] },
+      { allOf: [{ namePattern: 'on*' }, { packagePatern: 'a.*' }] },
+      { not: [{ namePattern: 'on*' }] },
+    ]))).toEqual([
+      '$.profiles[0].entrypoints[0].rules[0].not: unknown condition type "annotedBy". Did you mean "annotatedBy"?',
+      '$.profiles[0].entrypoints[0].rules[1].anyOf: expected at least one condition',
+      '$.profiles[0].entrypoints[0].rules[2].allOf[1]: unknown condition type "packagePatern". Did you mean "packagePattern"?',
+      '$.profiles[0].entrypoints[0].rules[3].not: expected a condition object, found an array',
+    ]);
+  });
+
+  it('checks condition values', () => {
+    expect(messages(withRules([{ annotatedBy: '' }, { serviceDiscovery: false }, 'a.B']))).toEqual([
+      '$.profiles[0].entrypoints[0].rules[0].annotatedBy: expected a non-empty string, found an empty string',
+      '$.profiles[0].entrypoints[0].rules[1].serviceDiscovery: expected true, found false',
+      '$.profiles[0].entrypoints[0].rules[2]: expected a condition object, found a string',
+    ]);
+  });
+
+  it('rejects unknown keys at every level', () => {
+    expect(messages({
+      activeProfile: ['spring'],
+      profiles: [{ name: 'mine', keepExternalOverride: true, entrypoints: [{ name: 'ep', rule: [] }] }],
+      importLayout: { java: 'google', scala: 'google' },
+    })).toEqual([
+      '$: unknown key "activeProfile". Did you mean "activeProfiles"?',
+      '$.profiles[0]: unknown key "keepExternalOverride". Did you mean "keepExternalOverrides"?',
+      '$.profiles[0].entrypoints[0]: unknown key "rule". Did you mean "rules"?',
+      '$.profiles[0].entrypoints[0]: missing required key "rules"',
+      '$.importLayout: unknown key "scala". Expected one of: java, kotlin',
+    ]);
+  });
+
+  it('points issues at the offending value or unknown key', () => {
+    expect(validateConfig({ ...withRules([{ annotedBy: 'a.B' }]), sortImport: true })).toEqual([
+      { path: ['sortImport'], message: '$: unknown key "sortImport". Did you mean "sortImports"?' },
+      {
+        path: ['profiles', 0, 'entrypoints', 0, 'rules', 0, 'annotedBy'],
+        message: '$.profiles[0].entrypoints[0].rules[0]: unknown condition type "annotedBy". Did you mean "annotatedBy"?',
+      },
+    ]);
+  });
+
+  it('checks value types', () => {
+    expect(messages({
+      activeProfiles: 'spring',
+      profiles: [{ entrypoints: {} }],
+      sortImports: 'yes',
+      importLayout: { preset: 'gogle', staticImports: 'middle' },
+      exclude: [1],
+    })).toEqual([
+      '$.activeProfiles: expected an array of strings, found a string',
+      '$.profiles[0]: missing required key "name"',
+      '$.profiles[0].entrypoints: expected an array, found an object',
+      '$.sortImports: expected a boolean, found a string',
+      '$.importLayout.preset: invalid value "gogle". Did you mean "google"?',
+      '$.importLayout.staticImports: invalid value "middle". Expected one of: first, last',
+      '$.exclude[0]: expected a string, found a number',
+    ]);
+    expect(messages([])).toEqual(['$: expected an object, found an array']);
+  });
+});
+
+describe('closestMatch', () => {
+  it('ignores candidates too far from the key', () => {
+    expect(closestMatch('extendClass', CONDITION_TYPES)).toBe('extendsClass');
+    expect(closestMatch('packagepattern', CONDITION_TYPES)).toBe('packagePattern');
+    expect(closestMatch('foo', CONDITION_TYPES)).toBeUndefined();
+  });
+});
+
+describe('lang-tools.schema.json', () => {
+  it('declares the keys the validator accepts', () => {
+    expect(Object.keys(schema.properties)).toEqual([...CONFIG_KEYS]);
+    expect(Object.keys(schema.definitions.profile.properties)).toEqual([...PROFILE_KEYS]);
+    expect(Object.keys(schema.definitions.entrypoint.properties)).toEqual([...ENTRYPOINT_KEYS]);
+    expect(Object.keys(schema.definitions.condition.properties)).toEqual(CONDITION_KEYS);
+    expect(Object.keys(schema.definitions.importLayoutConfig.properties)).toEqual([...IMPORT_LAYOUT_KEYS]);
+    expect(schema.definitions.importLayoutPreset.enum).toEqual([...IMPORT_LAYOUT_PRESETS]);
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * Integration tests for detect_dead_code_java and detect_dead_code_kotlin
  * MCP tool handler behaviour. Mirrors the aggregation and filtering logic in
- * src/index.ts without spinning up the full MCP server.
+ * src/server.ts without spinning up the full MCP server.
  */
 
 import { describe, it, expect } from '@jest/globals';
@@ -19,7 +19,7 @@ const KOTLIN_FIXTURE_ROOT = path.join(
   'fixtures/kotlin'
 );
 
-/** Simulates what the detect_dead_code_java/kotlin handler in index.ts does. */
+/** Simulates what the detect_dead_code_java/kotlin handler in server.ts does. */
 function runDeadCodeTool(dir: string, language: 'java' | 'kotlin') {
   const extension = language === 'java' ? '.java' : '.kt';
   const { resolved } = resolveFilePaths([dir], extension);
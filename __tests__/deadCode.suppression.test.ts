@@ -0,0 +1,187 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import { parseJava, parseKotlin } from '../src/importCleaner.js';
+import {
+  detectDeadCodeInFile,
+  detectUnusedParameters,
+  detectUnusedLocalVariables,
+  detectUnusedFields,
+  detectUnusedPrivateMethods,
+  filterSuppressedFindings,
+  JAVA_CONFIG,
+  KOTLIN_CONFIG,
+  LanguageConfig,
+} from '../src/deadCodeDetector.js';
+
+const FIXTURES = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures');
+
+function detect(code: string, config: LanguageConfig) {
+  const tree = config.language === 'java' ? parseJava(code) : parseKotlin(code);
+  const findings = [
+    ...detectUnusedParameters(tree, code, config),
+    ...detectUnusedLocalVariables(tree, code, config),
+    ...detectUnusedFields(tree, code, config),
+    ...detectUnusedPrivateMethods(tree, code, config),
+  ];
+  return filterSuppressedFindings(findings, tree, code, config).map(f => `${f.category}:${f.name}`).sort();
+}
+
+describe('Suppression annotations', () => {
+  describe('Java @SuppressWarnings', () => {
+    it('suppresses on the declaration itself', () => {
+      const code = `
+public class Test {
+    @SuppressWarnings("unused")
+    private int kept;
+    private int reported;
+}
+`;
+      expect(detect(code, JAVA_CONFIG)).toEqual(['unused_field:reported']);
+    });
+
+    it('suppresses everything inside an annotated method', () => {
+      const code = `
+public class Test {
+    @SuppressWarnings("unused")
+    public void run(int a) {
+        int b = 1;
+    }
+    public void other(int c) {
+    }
+}
+`;
+      expect(detect(code, JAVA_CONFIG)).toEqual(['unused_parameter:c']);
+    });
+
+    it('suppresses everything inside an annotated class, including nested classes', () => {
+      const code = `
+@SuppressWarnings(value = {"unused"})
+public class Test {
+    private int field;
+    private void helper() {}
+    static class Inner {
+        private int innerField;
+    }
+}
+`;
+      expect(detect(code, JAVA_CONFIG)).toEqual([]);
+    });
+
+    it('maps PMD rule names onto single categories', () => {
+      const code = `
+@SuppressWarnings("PMD.UnusedPrivateField")
+public class Test {
+    private int field;
+    private void helper() {}
+}
+`;
+      expect(detect(code, JAVA_CONFIG)).toEqual(['unused_private_method:helper']);
+    });
+
+    it('accepts the fully qualified annotation name', () => {
+      const code = `
+public class Test {
+    @java.lang.SuppressWarnings("unused")
+    private int kept;
+}
+`;
+      expect(detect(code, JAVA_CONFIG)).toEqual([]);
+    });
+
+    it('ignores unrelated suppressions', () => {
+      const code = `
+public class Test {
+    @SuppressWarnings("unchecked")
+    private int reported;
+}
+`;
+      expect(detect(code, JAVA_CONFIG)).toEqual(['unused_field:reported']);
+    });
+  });
+
+  describe('Kotlin @Suppress', () => {
+    it('UNUSED_PARAMETER on a function only suppresses parameters', () => {
+      const code = `
+class Test {
+    @Suppress("UNUSED_PARAMETER")
+    fun run(a: Int) {
+        val b = 1
+    }
+}
+`;
+      expect(detect(code, KOTLIN_CONFIG)).toEqual(['unused_local_variable:b']);
+    });
+
+    it('suppresses a single parameter via parameter annotation', () => {
+      const code = `
+class Test {
+    fun run(@Suppress("UNUSED_PARAMETER") a: Int, b: Int) {
+    }
+}
+`;
+      expect(detect(code, KOTLIN_CONFIG)).toEqual(['unused_parameter:b']);
+    });
+
+    it('UNUSED_VARIABLE on a local declaration', () => {
+      const code = `
+class Test {
+    fun run() {
+        @Suppress("UNUSED_VARIABLE") val a = 1
+        val b = 2
+    }
+}
+`;
+      expect(detect(code, KOTLIN_CONFIG)).toEqual(['unused_local_variable:b']);
+    });
+
+    it('unused on a class suppresses all categories', () => {
+      const code = `
+@Suppress("unused")
+class Test {
+    private val field = 1
+    private fun helper() {}
+    fun run(a: Int) { val b = 1 }
+}
+`;
+      expect(detect(code, KOTLIN_CONFIG)).toEqual([]);
+    });
+
+    it('@file:Suppress applies to the whole file', () => {
+      const code = `@file:Suppress("UNUSED_PARAMETER")
+
+package com.example
+
+class Test {
+    private fun helper(a: Int) {}
+    private val field = 1
+}
+`;
+      expect(detect(code, KOTLIN_CONFIG)).toEqual(['unused_field:field', 'unused_private_method:helper']);
+    });
+
+    it('maps detekt rule names onto categories', () => {
+      const code = `
+class Test {
+    @Suppress("UnusedPrivateProperty")
+    private val field = 1
+    private fun helper() {}
+}
+`;
+      expect(detect(code, KOTLIN_CONFIG)).toEqual(['unused_private_method:helper']);
+    });
+  });
+
+  describe('detectDeadCodeInFile', () => {
+    it('applies suppressions to Java files', () => {
+      const result = detectDeadCodeInFile(path.join(FIXTURES, 'java', 'DeadCodeSuppressed.java'), 'java');
+      expect(result.findings.map(f => f.name).sort()).toEqual(
+        ['reportedField', 'reportedLocal', 'reportedMethod', 'reportedParam']
+      );
+    });
+
+    it('applies suppressions to Kotlin files', () => {
+      const result = detectDeadCodeInFile(path.join(FIXTURES, 'kotlin', 'DeadCodeSuppressed.kt'), 'kotlin');
+      expect(result.findings.map(f => f.name).sort()).toEqual(['reportedParam', 'reportedProperty']);
+    });
+  });
+});
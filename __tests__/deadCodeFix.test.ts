@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { planDeadCodeFix, fixDeadCodeInFile } from '../src/deadCodeFixer.js';
+
+describe('planDeadCodeFix', () => {
+  describe('Java', () => {
+    it('removes an unused private method with its Javadoc and annotations', () => {
+      const code = `public class Test {
+    public void run() {
+        System.out.println("run");
+    }
+
+    /**
+     * Old helper.
+     */
+    @Deprecated
+    private void helper() {
+        System.out.println("helper");
+    }
+
+    public void other() {
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.removed).toEqual([
+        { category: 'unused_private_method', name: 'helper', line: 9, enclosingScope: 'Test' },
+      ]);
+      expect(plan.modifiedCode).toBe(`public class Test {
+    public void run() {
+        System.out.println("run");
+    }
+
+    public void other() {
+    }
+}
+`);
+    });
+
+    it('removes the last member without leaving a blank line before the closing brace', () => {
+      const code = `public class Test {
+    public int used = 1;
+
+    private void helper() {
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.modifiedCode).toBe(`public class Test {
+    public int used = 1;
+}
+`);
+    });
+
+    it('removes the first member without leaving a blank line after the opening brace', () => {
+      const code = `public class Test {
+    @Deprecated
+    private int count = 1;
+
+    public void run() {
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.modifiedCode).toBe(`public class Test {
+    public void run() {
+    }
+}
+`);
+    });
+
+    it('removes consecutive first members without leaving a blank line after the opening brace', () => {
+      const code = `public class Test {
+    private int count = 1;
+    private int total = 2;
+
+    public void run() {
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.modifiedCode).toBe(`public class Test {
+    public void run() {
+    }
+}
+`);
+    });
+
+    it('removes blank-separated members that fill the whole body', () => {
+      const code = `public class Test {
+    private int count = 1;
+
+    private int total = 2;
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.modifiedCode).toBe(`public class Test {
+}
+`);
+    });
+
+    it('removes a trailing line comment with the declaration', () => {
+      const code = `public class Test {
+    public int used = 1;
+    private int count = 1; // trailing
+    public int other = 2;
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.modifiedCode).toBe(`public class Test {
+    public int used = 1;
+    public int other = 2;
+}
+`);
+    });
+
+    it('removes unused fields with side-effect-free initializers', () => {
+      const code = `public class Test {
+    /** Counter. */
+    private int count = 1 + 2;
+    private final Runnable task = () -> System.out.println("x");
+    private String name;
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.removed.map(r => r.name)).toEqual(['count', 'task', 'name']);
+      expect(plan.unsafe).toEqual([]);
+      expect(plan.modifiedCode).toBe(`public class Test {
+}
+`);
+    });
+
+    it('reports fields with side-effectful initializers as unsafe', () => {
+      const code = `public class Test {
+    private final Connection connection = Database.connect();
+    private final Object lock = new Object();
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.removed).toEqual([]);
+      expect(plan.unsafe.map(u => [u.name, u.reason])).toEqual([
+        ['connection', 'initializer may have side effects'],
+        ['lock', 'initializer may have side effects'],
+      ]);
+      expect(plan.modifiedCode).toBe(code);
+    });
+
+    it('reports multi-variable declarations as unsafe', () => {
+      const code = `public class Test {
+    public int run() {
+        int a = 1, b = 2;
+        return b;
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.unsafe.map(u => [u.name, u.reason])).toEqual([
+        ['a', 'declares several variables in one statement'],
+      ]);
+      expect(plan.modifiedCode).toBe(code);
+    });
+
+    it('removes unused local variables', () => {
+      const code = `public class Test {
+    public int run(int x) {
+        int unused = x * 2;
+        String call = compute();
+        return x;
+    }
+
+    private String compute() { return ""; }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.removed.map(r => r.name)).toEqual(['unused']);
+      expect(plan.unsafe.map(u => u.name)).toEqual(['call']);
+      expect(plan.modifiedCode).toBe(`public class Test {
+    public int run(int x) {
+        String call = compute();
+        return x;
+    }
+
+    private String compute() { return ""; }
+}
+`);
+    });
+
+    it('removes a method once even when it contains unused locals', () => {
+      const code = `public class Test {
+    private void helper() {
+        int a = 1;
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.removed.map(r => r.category).sort()).toEqual(['unused_local_variable', 'unused_private_method']);
+      expect(plan.modifiedCode).toBe(`public class Test {
+}
+`);
+    });
+
+    it('leaves suppressed declarations and unused parameters alone', () => {
+      const code = `public class Test {
+    @SuppressWarnings("unused")
+    private int kept;
+
+    public void run(int param) {
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'java')!;
+      expect(plan.removed).toEqual([]);
+      expect(plan.modifiedCode).toBe(code);
+    });
+
+    it('returns null on syntax errors', () => {
+      expect(planDeadCodeFix('public class {{{', 'java')).toBeNull();
+    });
+  });
+
+  describe('Kotlin', () => {
+    it('removes an unused private function with its KDoc and annotations', () => {
+      const code = `class Test {
+    fun run() {
+        println("run")
+    }
+
+    /**
+     * Old helper.
+     */
+    @Deprecated("old")
+    private fun helper() {
+        println("helper")
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'kotlin')!;
+      expect(plan.removed.map(r => r.name)).toEqual(['helper']);
+      expect(plan.modifiedCode).toBe(`class Test {
+    fun run() {
+        println("run")
+    }
+}
+`);
+    });
+
+    it('removes safe properties and reports side-effectful ones', () => {
+      const code = `class Test {
+    private val answer = 42
+    private val greeting = "hello \${answer}"
+    private val client = HttpClient()
+    private val counter = { count++ }
+}
+`;
+      const plan = planDeadCodeFix(code, 'kotlin')!;
+      expect(plan.removed.map(r => r.name)).toEqual(['greeting', 'counter']);
+      expect(plan.unsafe.map(u => u.name)).toEqual(['client']);
+      expect(plan.modifiedCode).toBe(`class Test {
+    private val answer = 42
+    private val client = HttpClient()
+}
+`);
+    });
+
+    it('removes an annotated first member and its trailing comment without leaving blank lines', () => {
+      const code = `class Test {
+    @Volatile
+    private var count = 0 // trailing
+
+    fun run() {
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'kotlin')!;
+      expect(plan.removed.map(r => r.name)).toEqual(['count']);
+      expect(plan.modifiedCode).toBe(`class Test {
+    fun run() {
+    }
+}
+`);
+    });
+
+    it('removes unused local variables and reports destructuring as unsafe', () => {
+      const code = `class Test {
+    fun run(pair: Pair<Int, Int>): Int {
+        val unused = 1
+        val (a, b) = pair
+        val forced = pair!!
+        return b
+    }
+}
+`;
+      const plan = planDeadCodeFix(code, 'kotlin')!;
+      expect(plan.removed.map(r => r.name)).toEqual(['unused']);
+      expect(plan.unsafe.map(u => [u.name, u.reason])).toEqual([
+        ['a', 'is a destructuring declaration'],
+        ['forced', 'initializer may have side effects'],
+      ]);
+      expect(plan.modifiedCode).toContain('val (a, b) = pair');
+      expect(plan.modifiedCode).not.toContain('val unused');
+    });
+  });
+});
+
+describe('fixDeadCodeInFile', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp');
+  let testFile: string;
+
+  const CODE = `public class Test {
+    private int unused;
+}
+`;
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+    testFile = path.join(testDir, `Fix-${Date.now()}-${Math.random().toString(36).slice(2)}.java`);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testFile)) fs.unlinkSync(testFile);
+  });
+
+  it('writes the fixed file', () => {
+    fs.writeFileSync(testFile, CODE);
+    const report = fixDeadCodeInFile(testFile, 'java')!;
+
+    expect(report.modified).toBe(true);
+    expect(report.diff).toBeUndefined();
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('public class Test {\n}\n');
+  });
+
+  it('returns a diff without modifying the file in dry-run mode', () => {
+    fs.writeFileSync(testFile, CODE);
+    const report = fixDeadCodeInFile(testFile, 'java', { dryRun: true, displayPath: 'Test.java' })!;
+
+    expect(report.modified).toBe(false);
+    expect(report.removed.map(r => r.name)).toEqual(['unused']);
+    expect(report.diff).toBe(`--- a/Test.java
++++ b/Test.java
+@@ -1,3 +1,2 @@
+ public class Test {
+-    private int unused;
+ }
+`);
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe(CODE);
+  });
+
+  it('returns null for files with syntax errors', () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    fs.writeFileSync(testFile, 'public class {{{');
+    expect(fixDeadCodeInFile(testFile, 'java')).toBeNull();
+    spy.mockRestore();
+  });
+});
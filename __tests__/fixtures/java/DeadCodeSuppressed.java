@@ -0,0 +1,20 @@
+package com.example;
+
+public class DeadCodeSuppressed {
+    @SuppressWarnings("unused")
+    private int keptField;
+
+    private int reportedField;
+
+    @SuppressWarnings({"rawtypes", "unused"})
+    private void keptMethod() {
+    }
+
+    private void reportedMethod() {
+    }
+
+    public void params(@SuppressWarnings("unused") int keptParam, int reportedParam) {
+        @SuppressWarnings("unused") int keptLocal = 1;
+        int reportedLocal = 2;
+    }
+}
@@ -0,0 +1,7 @@
+package com.example.events;
+
+import com.acme.events.Handler;
+
+public class AuditHandler implements Handler {
+    public void handleAudit() {}
+}
@@ -0,0 +1,8 @@
+package com.example.legacy;
+
+import org.springframework.stereotype.Controller;
+
+@Controller
+public class LegacyController {
+    public String legacyIndex() { return "legacy"; }
+}
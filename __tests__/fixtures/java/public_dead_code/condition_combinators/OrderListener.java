@@ -0,0 +1,7 @@
+package com.example.events;
+
+import com.acme.events.Listener;
+
+public class OrderListener implements Listener {
+    public void onOrder() {}
+}
@@ -0,0 +1,5 @@
+package com.example.events;
+
+public class PlainService {
+    public void unusedWork() {}
+}
@@ -0,0 +1,8 @@
+package com.example.web;
+
+import org.springframework.stereotype.Controller;
+
+@Controller
+public class WebController {
+    public String index() { return "index"; }
+}
@@ -0,0 +1,8 @@
+package com.example.api;
+
+import com.acme.stereotype.Audited;
+
+@Audited
+public class AuditLog {
+    public void unusedAudit() {}
+}
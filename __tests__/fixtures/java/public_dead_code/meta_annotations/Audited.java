@@ -0,0 +1,5 @@
+package com.acme.stereotype;
+
+@Audited
+public @interface Audited {
+}
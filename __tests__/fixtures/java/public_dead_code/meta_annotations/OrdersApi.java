@@ -0,0 +1,8 @@
+package com.example.api;
+
+import com.acme.stereotype.OurRestEndpoint;
+
+@OurRestEndpoint("/orders")
+public class OrdersApi {
+    public String listOrders() { return "orders"; }
+}
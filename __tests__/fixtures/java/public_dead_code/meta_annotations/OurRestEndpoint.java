@@ -0,0 +1,8 @@
+package com.acme.stereotype;
+
+import org.springframework.web.bind.annotation.RestController;
+
+@RestController
+public @interface OurRestEndpoint {
+    String value() default "";
+}
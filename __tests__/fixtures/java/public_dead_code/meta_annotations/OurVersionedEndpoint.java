@@ -0,0 +1,6 @@
+package com.acme.stereotype;
+
+@OurRestEndpoint
+public @interface OurVersionedEndpoint {
+    int version();
+}
@@ -0,0 +1,8 @@
+package com.example.api;
+
+import com.acme.stereotype.*;
+
+@OurVersionedEndpoint(version = 2)
+public class UsersApi {
+    public String listUsers() { return "users"; }
+}
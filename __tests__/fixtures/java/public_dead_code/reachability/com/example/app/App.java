@@ -0,0 +1,9 @@
+package com.example.app;
+
+public class App {
+    public static void main(String[] args) {
+        Handler handler = new LoggingHandler();
+        handler.handle("start");
+        new Service().run();
+    }
+}
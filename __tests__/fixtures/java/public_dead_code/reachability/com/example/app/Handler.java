@@ -0,0 +1,5 @@
+package com.example.app;
+
+public interface Handler {
+    void handle(String message);
+}
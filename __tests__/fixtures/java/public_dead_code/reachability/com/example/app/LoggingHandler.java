@@ -0,0 +1,8 @@
+package com.example.app;
+
+public class LoggingHandler implements Handler {
+    @Override
+    public void handle(String message) {
+        System.out.println(message);
+    }
+}
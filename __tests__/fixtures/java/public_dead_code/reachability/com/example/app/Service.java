@@ -0,0 +1,20 @@
+package com.example.app;
+
+import com.example.legacy.LegacyFormatter;
+
+public class Service {
+    public void run() {
+        helper();
+    }
+
+    public void helper() {
+    }
+
+    public boolean verify() {
+        return true;
+    }
+
+    public String exportLegacy() {
+        return new LegacyFormatter().format("data");
+    }
+}
@@ -0,0 +1,10 @@
+package com.example.app;
+
+import org.junit.jupiter.api.Test;
+
+public class ServiceTest {
+    @Test
+    public void verifies() {
+        new Service().verify();
+    }
+}
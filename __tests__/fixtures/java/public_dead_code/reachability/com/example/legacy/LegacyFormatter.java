@@ -0,0 +1,7 @@
+package com.example.legacy;
+
+public class LegacyFormatter {
+    public String format(String value) {
+        return LegacyPadding.pad(value);
+    }
+}
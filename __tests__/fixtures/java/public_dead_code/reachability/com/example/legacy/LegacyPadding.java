@@ -0,0 +1,7 @@
+package com.example.legacy;
+
+public class LegacyPadding {
+    public static String pad(String value) {
+        return " " + value;
+    }
+}
@@ -0,0 +1,6 @@
+package com.example.legacy;
+
+public class Orphan {
+    public void alone() {
+    }
+}
@@ -0,0 +1,7 @@
+package com.example;
+
+public class App {
+    public static void main(String[] args) {
+        new Calculator().add(1, 2);
+    }
+}
@@ -0,0 +1,7 @@
+package com.example;
+
+public class TestSupport {
+    public static String describe() {
+        return "support";
+    }
+}
@@ -0,0 +1,14 @@
+package com.example;
+
+import org.junit.jupiter.api.Test;
+
+public class CalculatorTest {
+    @Test
+    public void subtracts() {
+        new Calculator().subtract(2, 1);
+        TestSupport.describe();
+    }
+
+    public void unusedTestHelper() {
+    }
+}
@@ -0,0 +1,45 @@
+package com.example.app;
+
+import java.util.HashMap;
+import java.util.List;
+import java.util.Map;
+import com.example.shapes.Circle;
+import com.example.shapes.Shape;
+import com.example.store.Registry;
+import com.example.store.Session;
+import com.example.ui.Widget;
+import com.example.util.Strings;
+
+public class App {
+    public static void main(String[] args) {
+        Map<String, String> cache = new HashMap<>();
+        cache.get("key");
+
+        Registry registry = new Registry();
+        registry.register("key");
+
+        Shape shape = new Circle(2.0);
+        shape.area();
+        new Circle(1.0).describe();
+        Measures.perimeterOf(shape);
+        new Measures<>(shape).labelOf();
+        for (var each : List.of(shape)) {
+            each.volume();
+        }
+        try (var session = new Session()) {
+            session.user();
+        }
+
+        Widget widget = new Widget();
+        widget.render();
+
+        Strings.pad("x");
+
+        // Receiver type is not tracked through calls: falls back to name matching
+        registryFor("other").clear();
+    }
+
+    static Registry registryFor(String name) {
+        return new Registry();
+    }
+}
@@ -0,0 +1,19 @@
+package com.example.app;
+
+import com.example.shapes.Shape;
+
+public class Measures<S extends Shape> {
+    private final S subject;
+
+    public Measures(S subject) {
+        this.subject = subject;
+    }
+
+    public String labelOf() {
+        return subject.label();
+    }
+
+    public static <T extends Shape> double perimeterOf(T shape) {
+        return shape.perimeter();
+    }
+}
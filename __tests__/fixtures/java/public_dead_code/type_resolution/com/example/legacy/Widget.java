@@ -0,0 +1,6 @@
+package com.example.legacy;
+
+public class Widget {
+    public void render() {
+    }
+}
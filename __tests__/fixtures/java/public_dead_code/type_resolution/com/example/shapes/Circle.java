@@ -0,0 +1,17 @@
+package com.example.shapes;
+
+public class Circle extends Shape {
+    private final double radius;
+
+    public Circle(double radius) {
+        this.radius = radius;
+    }
+
+    public double area() {
+        return Math.PI * radius * radius;
+    }
+
+    public String outline() {
+        return "circle";
+    }
+}
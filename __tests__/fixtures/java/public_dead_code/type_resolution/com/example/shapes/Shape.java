@@ -0,0 +1,27 @@
+package com.example.shapes;
+
+public class Shape {
+    public double area() {
+        return 0.0;
+    }
+
+    public String describe() {
+        return "shape";
+    }
+
+    public String outline() {
+        return "";
+    }
+
+    public double perimeter() {
+        return 0.0;
+    }
+
+    public String label() {
+        return "shape";
+    }
+
+    public double volume() {
+        return 0.0;
+    }
+}
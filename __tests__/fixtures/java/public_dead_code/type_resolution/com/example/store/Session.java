@@ -0,0 +1,11 @@
+package com.example.store;
+
+public class Session implements AutoCloseable {
+    public String user() {
+        return "user";
+    }
+
+    @Override
+    public void close() {
+    }
+}
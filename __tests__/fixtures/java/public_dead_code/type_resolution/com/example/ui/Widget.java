@@ -0,0 +1,6 @@
+package com.example.ui;
+
+public class Widget {
+    public void render() {
+    }
+}
@@ -0,0 +1,7 @@
+package com.example.util;
+
+public class Padding {
+    public static String pad(String value) {
+        return value + " ";
+    }
+}
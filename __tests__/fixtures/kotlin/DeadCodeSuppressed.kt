@@ -0,0 +1,18 @@
+@file:Suppress("UNUSED_VARIABLE")
+
+package com.example
+
+class DeadCodeSuppressed {
+    @Suppress("unused")
+    private val keptProperty = 1
+
+    private val reportedProperty = 2
+
+    fun params(@Suppress("UNUSED_PARAMETER") keptParam: Int, reportedParam: Int) {
+        val keptLocal = 1
+    }
+
+    @Suppress("UNUSED_PARAMETER")
+    fun allParamsKept(a: Int, b: Int) {
+    }
+}
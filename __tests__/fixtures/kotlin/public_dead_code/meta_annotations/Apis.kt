@@ -0,0 +1,20 @@
+package com.example.api
+
+import com.acme.stereotype.Audited
+import com.acme.stereotype.OurRestEndpoint
+import com.acme.stereotype.OurVersionedEndpoint
+
+@OurRestEndpoint("/orders")
+class OrdersApi {
+    fun listOrders(): String = "orders"
+}
+
+@OurVersionedEndpoint(version = 2)
+class UsersApi {
+    fun listUsers(): String = "users"
+}
+
+@Audited
+class AuditLog {
+    fun unusedAudit() {}
+}
@@ -0,0 +1,11 @@
+package com.acme.stereotype
+
+import org.springframework.web.bind.annotation.RestController
+
+@RestController
+annotation class OurRestEndpoint(val value: String = "")
+
+@OurRestEndpoint
+annotation class OurVersionedEndpoint(val version: Int)
+
+annotation class Audited
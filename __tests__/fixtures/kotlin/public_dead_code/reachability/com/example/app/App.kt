@@ -0,0 +1,7 @@
+package com.example.app
+
+fun main() {
+    val handler: Handler = LoggingHandler()
+    handler.handle("start")
+    Service().run()
+}
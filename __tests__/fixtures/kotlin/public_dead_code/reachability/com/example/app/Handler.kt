@@ -0,0 +1,11 @@
+package com.example.app
+
+interface Handler {
+    fun handle(message: String)
+}
+
+class LoggingHandler : Handler {
+    override fun handle(message: String) {
+        println(message)
+    }
+}
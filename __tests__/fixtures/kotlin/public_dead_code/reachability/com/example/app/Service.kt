@@ -0,0 +1,16 @@
+package com.example.app
+
+import com.example.legacy.LegacyFormatter
+
+class Service {
+    fun run() {
+        helper()
+    }
+
+    fun helper() {
+    }
+
+    fun verify(): Boolean = true
+
+    fun exportLegacy(): String = LegacyFormatter().format("data")
+}
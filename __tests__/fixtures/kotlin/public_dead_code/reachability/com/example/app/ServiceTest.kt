@@ -0,0 +1,10 @@
+package com.example.app
+
+import org.junit.jupiter.api.Test
+
+class ServiceTest {
+    @Test
+    fun verifies() {
+        Service().verify()
+    }
+}
@@ -0,0 +1,7 @@
+package com.example.legacy
+
+class LegacyFormatter {
+    fun format(value: String): String = value.padLegacy()
+}
+
+fun String.padLegacy(): String = " $this"
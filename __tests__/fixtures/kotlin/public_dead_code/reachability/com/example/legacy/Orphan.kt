@@ -0,0 +1,6 @@
+package com.example.legacy
+
+class Orphan {
+    fun alone() {
+    }
+}
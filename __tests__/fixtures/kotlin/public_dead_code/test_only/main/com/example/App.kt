@@ -0,0 +1,5 @@
+package com.example
+
+fun main() {
+    Calculator().add(1, 2)
+}
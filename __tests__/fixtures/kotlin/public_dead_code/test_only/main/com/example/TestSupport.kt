@@ -0,0 +1,5 @@
+package com.example
+
+class TestSupport {
+    fun describe(): String = "support"
+}
@@ -0,0 +1,14 @@
+package com.example
+
+import org.junit.jupiter.api.Test
+
+class CalculatorTest {
+    @Test
+    fun subtracts() {
+        Calculator().subtract(2, 1)
+        TestSupport().describe()
+    }
+
+    fun unusedTestHelper() {
+    }
+}
@@ -0,0 +1,31 @@
+package com.example.app
+
+import com.example.shapes.Circle
+import com.example.shapes.Shape
+import com.example.store.Registry
+import com.example.ui.Widget
+import com.example.util.Strings
+
+fun main() {
+    val cache: Map<String, String> = mapOf("key" to "value")
+    cache.get("key")
+
+    val registry = Registry()
+    registry.register("key")
+
+    val shape: Shape = Circle(2.0)
+    shape.area()
+    Circle(1.0).describe()
+    Measures.perimeterOf(shape)
+    Measures.labelOf(shape)
+
+    val widget = Widget()
+    widget.render()
+
+    Strings.pad("x")
+
+    // Receiver type is not tracked through calls: falls back to name matching
+    registryFor("other").clear()
+}
+
+fun registryFor(name: String): Registry = Registry()
@@ -0,0 +1,9 @@
+package com.example.app
+
+import com.example.shapes.Shape
+
+object Measures {
+    fun <T : Shape> perimeterOf(shape: T): Double = shape.perimeter()
+
+    fun <T> labelOf(subject: T): String where T : Shape = subject.label()
+}
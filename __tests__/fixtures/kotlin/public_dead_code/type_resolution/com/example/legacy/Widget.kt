@@ -0,0 +1,6 @@
+package com.example.legacy
+
+class Widget {
+    fun render() {
+    }
+}
@@ -0,0 +1,7 @@
+package com.example.shapes
+
+class Circle(private val radius: Double) : Shape() {
+    override fun area(): Double = Math.PI * radius * radius
+
+    override fun outline(): String = "circle"
+}
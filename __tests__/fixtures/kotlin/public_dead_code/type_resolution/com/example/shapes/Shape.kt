@@ -0,0 +1,13 @@
+package com.example.shapes
+
+open class Shape {
+    open fun area(): Double = 0.0
+
+    fun describe(): String = "shape"
+
+    open fun outline(): String = ""
+
+    fun perimeter(): Double = 0.0
+
+    fun label(): String = "shape"
+}
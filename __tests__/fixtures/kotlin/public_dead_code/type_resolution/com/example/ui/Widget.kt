@@ -0,0 +1,6 @@
+package com.example.ui
+
+class Widget {
+    fun render() {
+    }
+}
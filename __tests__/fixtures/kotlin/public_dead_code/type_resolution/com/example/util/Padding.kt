@@ -0,0 +1,7 @@
+package com.example.util
+
+class Padding {
+    companion object {
+        fun pad(value: String): String = "$value "
+    }
+}
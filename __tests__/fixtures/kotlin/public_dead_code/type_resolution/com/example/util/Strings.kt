@@ -0,0 +1,7 @@
+package com.example.util
+
+class Strings {
+    companion object {
+        fun pad(value: String): String = " $value"
+    }
+}
@@ -0,0 +1,15 @@
+package com.example.app;
+
+public class JavaBean {
+    public String getTitle() {
+        return "title";
+    }
+
+    public boolean isEnabled() {
+        return true;
+    }
+
+    public String getUnused() {
+        return "";
+    }
+}
@@ -0,0 +1,22 @@
+package com.example.app;
+
+import com.example.model.BeanPrinter;
+import com.example.model.Formatter;
+import com.example.model.StringUtils;
+import com.example.model.User;
+
+public class Main {
+    public static void main(String[] args) {
+        User user = User.create();
+        User other = User.Companion.parse("guest");
+        user.getName();
+        user.isActive();
+        user.setNickname("nick");
+        other.getEmail();
+        user.displayName();
+
+        StringUtils.slugify(StringUtils.getDefaultTitle());
+        new Formatter().format(user);
+        new BeanPrinter().print(new JavaBean());
+    }
+}
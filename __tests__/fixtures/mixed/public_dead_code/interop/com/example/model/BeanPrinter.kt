@@ -0,0 +1,7 @@
+package com.example.model
+
+import com.example.app.JavaBean
+
+class BeanPrinter {
+    fun print(bean: JavaBean): String = if (bean.isEnabled) bean.title else ""
+}
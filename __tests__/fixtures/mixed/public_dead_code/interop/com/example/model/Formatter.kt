@@ -0,0 +1,5 @@
+package com.example.model
+
+class Formatter {
+    fun format(user: User): String = user.name
+}
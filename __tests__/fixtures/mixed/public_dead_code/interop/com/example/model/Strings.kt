@@ -0,0 +1,10 @@
+@file:JvmName("StringUtils")
+
+package com.example.model
+
+val defaultTitle: String = "untitled"
+
+fun slugify(value: String): String = value.lowercase()
+
+fun unusedTopLevel() {
+}
@@ -0,0 +1,22 @@
+package com.example.model
+
+class User(val name: String, var isActive: Boolean) {
+    val email: String = ""
+    var nickname: String? = null
+    val unusedProp: Int = 1
+
+    @JvmName("displayName")
+    fun display(): String = name
+
+    fun unusedFun() {
+    }
+
+    companion object {
+        @JvmStatic
+        fun create(): User = User("admin", true)
+
+        fun parse(value: String): User = User(value, false)
+
+        fun unusedFactory(): User = User("", false)
+    }
+}
@@ -0,0 +1,9 @@
+package com.example.app;
+
+public class Helper {
+    public static void help() {
+    }
+
+    public static void unusedGenerated() {
+    }
+}
@@ -0,0 +1,7 @@
+package com.example.app;
+
+public class AppIT {
+    public void startsApp() {
+        App.main(new String[0]);
+    }
+}
@@ -0,0 +1,10 @@
+package com.example.app;
+
+import com.example.lib.Greeter;
+
+public class App {
+    public static void main(String[] args) {
+        new Greeter().greet();
+        Helper.help();
+    }
+}
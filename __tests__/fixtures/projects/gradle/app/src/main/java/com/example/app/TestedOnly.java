@@ -0,0 +1,6 @@
+package com.example.app;
+
+public class TestedOnly {
+    public void run() {
+    }
+}
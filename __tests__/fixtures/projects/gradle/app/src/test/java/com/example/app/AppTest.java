@@ -0,0 +1,10 @@
+package com.example.app;
+
+public class AppTest {
+    public void usesTestedOnly() {
+        new TestedOnly().run();
+    }
+
+    public void unusedTestHelper() {
+    }
+}
@@ -0,0 +1,7 @@
+package com.example.lib;
+
+public class GreeterIT {
+    public void greets() {
+        new Greeter().greet();
+    }
+}
@@ -0,0 +1,9 @@
+package com.example.lib;
+
+public class Greeter {
+    public void greet() {
+    }
+
+    public void unusedGreeting() {
+    }
+}
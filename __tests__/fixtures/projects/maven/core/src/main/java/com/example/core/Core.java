@@ -0,0 +1,6 @@
+package com.example.core;
+
+public class Core {
+    public void used() {
+    }
+}
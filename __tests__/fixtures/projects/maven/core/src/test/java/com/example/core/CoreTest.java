@@ -0,0 +1,7 @@
+package com.example.core;
+
+public class CoreTest {
+    public void test() {
+        new Core().used();
+    }
+}
@@ -0,0 +1,73 @@
+import { describe, test, expect } from '@jest/globals';
+import * as path from 'path';
+import { gitIgnorePatternToRegex, isIgnored, parseIgnoreFile } from '../src/gitIgnore.js';
+
+const base = path.join(path.sep, 'repo');
+const at = (relative: string) => path.join(base, ...relative.split('/'));
+
+describe('gitIgnorePatternToRegex', () => {
+  test('pattern without slash matches a name at any depth', () => {
+    const regex = gitIgnorePatternToRegex('*.log');
+    expect(regex.test('debug.log')).toBe(true);
+    expect(regex.test('logs/debug.log')).toBe(true);
+    expect(regex.test('debug.log.txt')).toBe(false);
+  });
+
+  test('pattern with slash is anchored to the ignore file directory', () => {
+    const regex = gitIgnorePatternToRegex('build/Release');
+    expect(regex.test('build/Release')).toBe(true);
+    expect(regex.test('app/build/Release')).toBe(false);
+    expect(gitIgnorePatternToRegex('/tmp').test('tmp')).toBe(true);
+    expect(gitIgnorePatternToRegex('/tmp').test('a/tmp')).toBe(false);
+  });
+
+  test('** matches any number of directories', () => {
+    expect(gitIgnorePatternToRegex('**/cache').test('a/b/cache')).toBe(true);
+    expect(gitIgnorePatternToRegex('**/cache').test('cache')).toBe(true);
+    expect(gitIgnorePatternToRegex('a/**/b').test('a/b')).toBe(true);
+    expect(gitIgnorePatternToRegex('a/**/b').test('a/x/y/b')).toBe(true);
+    expect(gitIgnorePatternToRegex('out/**').test('out/x/y')).toBe(true);
+    expect(gitIgnorePatternToRegex('out/**').test('out')).toBe(false);
+  });
+
+  test('* ? and character classes stay within one segment', () => {
+    expect(gitIgnorePatternToRegex('src/*.java').test('src/a/B.java')).toBe(false);
+    expect(gitIgnorePatternToRegex('file?.txt').test('file1.txt')).toBe(true);
+    expect(gitIgnorePatternToRegex('report.[0-9]').test('report.7')).toBe(true);
+    expect(gitIgnorePatternToRegex('report.[!0-9]').test('report.7')).toBe(false);
+    expect(gitIgnorePatternToRegex('report.[!0-9]').test('report.x')).toBe(true);
+  });
+});
+
+describe('parseIgnoreFile', () => {
+  test('skips blank lines and comments and reads negation and directory markers', () => {
+    const rules = parseIgnoreFile('# comment\n\n!keep.txt\nout/\n\\#hash\n', base);
+    expect(rules.map(r => [r.negated, r.directoryOnly])).toEqual([[true, false], [false, true], [false, false]]);
+    expect(rules[2].regex.test('#hash')).toBe(true);
+  });
+
+  test('trims unescaped trailing whitespace', () => {
+    const [rule] = parseIgnoreFile('name.txt   \r\n', base);
+    expect(rule.regex.test('name.txt')).toBe(true);
+  });
+});
+
+describe('isIgnored', () => {
+  test('last matching rule wins', () => {
+    const rules = parseIgnoreFile('*.java\n!Keep.java\n', base);
+    expect(isIgnored(rules, at('src/Drop.java'), false)).toBe(true);
+    expect(isIgnored(rules, at('src/Keep.java'), false)).toBe(false);
+  });
+
+  test('directory-only rules skip files', () => {
+    const rules = parseIgnoreFile('out/\n', base);
+    expect(isIgnored(rules, at('out'), true)).toBe(true);
+    expect(isIgnored(rules, at('out'), false)).toBe(false);
+  });
+
+  test('rules do not apply outside their base directory', () => {
+    const rules = parseIgnoreFile('*.java\n', at('app'));
+    expect(isIgnored(rules, at('lib/A.java'), false)).toBe(false);
+    expect(isIgnored(rules, at('app/A.java'), false)).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_HTTP_PORT, parseTransportOptions, startHttpTransport } from '../src/httpTransport.js';
+
+describe('parseTransportOptions', () => {
+  it('defaults to stdio', () => {
+    expect(parseTransportOptions([], {})).toEqual({ transport: 'stdio' });
+  });
+
+  it('selects http by flag with port and token', () => {
+    expect(parseTransportOptions(['--http', '--port', '9000', '--auth-token', 'secret'], {}))
+      .toEqual({ transport: 'http', port: 9000, authToken: 'secret' });
+  });
+
+  it('selects http by environment variables', () => {
+    const env = { LANG_TOOLS_TRANSPORT: 'http', LANG_TOOLS_AUTH_TOKEN: 'secret' };
+    expect(parseTransportOptions([], env)).toEqual({ transport: 'http', port: DEFAULT_HTTP_PORT, authToken: 'secret' });
+  });
+
+  it('lets flags override environment variables', () => {
+    const env = { LANG_TOOLS_TRANSPORT: 'http', LANG_TOOLS_HTTP_PORT: '9000' };
+    expect(parseTransportOptions(['--port', '9001'], env)).toEqual({ transport: 'http', port: 9001 });
+    expect(parseTransportOptions(['--stdio'], env)).toEqual({ transport: 'stdio' });
+  });
+
+  it('ignores arguments it does not know', () => {
+    expect(parseTransportOptions(['--verbose', 'workspace'], {})).toEqual({ transport: 'stdio' });
+    expect(parseTransportOptions(['--log-level', 'debug', '--http', '--port', '9002'], {}))
+      .toEqual({ transport: 'http', port: 9002 });
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => parseTransportOptions(['--http', '--port'], {})).toThrow('Missing value for --port');
+    expect(() => parseTransportOptions(['--http', '--port', 'x'], {})).toThrow('Invalid port: x');
+    expect(() => parseTransportOptions([], { LANG_TOOLS_TRANSPORT: 'ws' })).toThrow('Invalid transport');
+  });
+});
+
+describe('startHttpTransport', () => {
+  let httpServer: http.Server;
+  let port: number;
+  const openRequests: http.ClientRequest[] = [];
+
+  function createServer(): Server {
+    const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+    return server;
+  }
+
+  function request(
+    method: string,
+    pathname: string,
+    headers: Record<string, string> = {},
+    body?: string
+  ): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path: pathname, headers }, res => {
+        let text = '';
+        res.setEncoding('utf-8');
+        res.on('data', chunk => { text += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  /** Opens an event stream and collects its events; resolves once the endpoint event arrives */
+  function openStream(headers: Record<string, string>): Promise<{ endpoint: string; events: string[] }> {
+    return new Promise((resolve, reject) => {
+      const events: string[] = [];
+      const req = http.request({ host: '127.0.0.1', port, method: 'GET', path: '/sse', headers }, res => {
+        res.setEncoding('utf-8');
+        let buffer = '';
+        res.on('data', chunk => {
+          buffer += chunk;
+          const parts = buffer.split('\n\n');
+          buffer = parts.pop()!;
+          for (const part of parts) {
+            events.push(part);
+            const endpoint = /^event: endpoint\ndata: (.*)$/.exec(part);
+            if (endpoint) resolve({ endpoint: endpoint[1], events });
+          }
+        });
+      });
+      openRequests.push(req);
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  async function start(authToken?: string) {
+    httpServer = await startHttpTransport(createServer, { port: 0, authToken });
+    port = (httpServer.address() as AddressInfo).port;
+  }
+
+  beforeEach(() => {
+    openRequests.length = 0;
+  });
+
+  afterEach(async () => {
+    for (const req of openRequests) req.destroy();
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('listens on localhost only', async () => {
+    await start();
+    expect((httpServer.address() as AddressInfo).address).toBe('127.0.0.1');
+  });
+
+  it('requires the auth token when configured', async () => {
+    await start('secret');
+    expect((await request('GET', '/sse')).status).toBe(401);
+    expect((await request('GET', '/sse', { Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await request('POST', '/messages?sessionId=x', { Authorization: 'Bearer secret' })).status).toBe(404);
+  });
+
+  it('rejects requests for other host names', async () => {
+    await start();
+    expect((await request('GET', '/sse', { Host: 'attacker.example' })).status).toBe(403);
+  });
+
+  it('answers MCP requests over the event stream of each session', async () => {
+    await start('secret');
+    const auth = { Authorization: 'Bearer secret' };
+    const first = await openStream(auth);
+    const second = await openStream(auth);
+    expect(first.endpoint).toMatch(/^\/messages\?sessionId=/);
+    expect(second.endpoint).not.toBe(first.endpoint);
+
+    const initialize = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+    };
+    const posted = await request('POST', first.endpoint, { ...auth, 'Content-Type': 'application/json' }, JSON.stringify(initialize));
+    expect(posted.status).toBe(202);
+
+    for (let i = 0; i < 50 && first.events.length < 2; i++) await new Promise(resolve => setTimeout(resolve, 20));
+    const message = first.events.find(event => event.startsWith('event: message'));
+    expect(message).toBeDefined();
+    expect(JSON.parse(message!.split('\ndata: ')[1])).toMatchObject({ id: 1, result: { serverInfo: { name: 'test' } } });
+    expect(second.events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { planImportCleanup, cleanupImportsInFile, parseJava, extractJavaImports } from '../src/importCleaner.js';
+
+describe('planImportCleanup', () => {
+  it('reports removed Java imports without touching the source', () => {
+    const code = `package com.example;
+
+import java.util.List;
+import java.util.Map;
+import static java.lang.Math.PI;
+
+public class Test {
+    private List<String> items;
+}
+`;
+    const plan = planImportCleanup(code, 'java');
+    expect(plan).not.toBeNull();
+    expect(plan!.originalCode).toBe(code);
+    expect(plan!.removedImports.map(i => i.text)).toEqual([
+      'import java.util.Map;',
+      'import static java.lang.Math.PI;',
+    ]);
+    expect(plan!.modifiedCode).not.toContain('java.util.Map');
+    expect(plan!.modifiedCode).toContain('import java.util.List;');
+  });
+
+  it('applies sorting when sortImports is set', () => {
+    const code = `package com.example
+
+import b.Beta
+import a.Alpha
+
+class Test(val a: Alpha, val b: Beta)
+`;
+    const plan = planImportCleanup(code, 'kotlin', { sortImports: true });
+    expect(plan!.removedImports).toEqual([]);
+    expect(plan!.modifiedCode.indexOf('a.Alpha')).toBeLessThan(plan!.modifiedCode.indexOf('b.Beta'));
+  });
+
+  it('returns null on syntax errors', () => {
+    expect(planImportCleanup('public class {{{', 'java')).toBeNull();
+  });
+});
+
+describe('cleanupImportsInFile', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp');
+  let testFile: string;
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+    testFile = path.join(testDir, `Report-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  });
+
+  afterEach(() => {
+    for (const ext of ['.kt', '.java']) {
+      if (fs.existsSync(testFile + ext)) fs.unlinkSync(testFile + ext);
+    }
+  });
+
+  describe('dry run', () => {
+    it('returns a unified diff and removed imports without modifying the file', () => {
+      const code = `package com.example
+
+import java.util.Date
+import java.util.UUID as Id
+import kotlinx.coroutines.*
+
+class Test {
+    fun now() = Date()
+}
+`;
+      fs.writeFileSync(testFile + '.kt', code, 'utf-8');
+
+      const report = cleanupImportsInFile(testFile + '.kt', 'kotlin', { dryRun: true, displayPath: 'src/Test.kt' });
+      expect(report).not.toBeNull();
+      expect(report!.file).toBe(testFile + '.kt');
+      expect(report!.modified).toBe(false);
+      expect(report!.removedImports.map(i => i.fqn)).toEqual(['java.util.UUID']);
+      expect(report!.diff).toContain('--- a/src/Test.kt');
+      expect(report!.diff).toContain('+++ b/src/Test.kt');
+      expect(report!.diff).toContain('-import java.util.UUID as Id');
+      expect(fs.readFileSync(testFile + '.kt', 'utf-8')).toBe(code);
+    });
+
+    it('returns an empty diff when nothing would change', () => {
+      const code = `package com.example
+
+import java.util.Date
+
+class Test {
+    fun now() = Date()
+}
+`;
+      fs.writeFileSync(testFile + '.kt', code, 'utf-8');
+
+      const report = cleanupImportsInFile(testFile + '.kt', 'kotlin', { dryRun: true });
+      expect(report!.removedImports).toEqual([]);
+      expect(report!.diff).toBe('');
+    });
+  });
+
+  describe('report', () => {
+    it('lists each removed import with fqn, text, original line and symbols', () => {
+      const code = `package com.example;
+
+import java.util.List;
+import java.util.Map;
+import static java.lang.Math.PI;
+
+public class Test {
+    private List<String> items;
+}
+`;
+      fs.writeFileSync(testFile + '.java', code, 'utf-8');
+
+      const report = cleanupImportsInFile(testFile + '.java', 'java');
+      expect(report!.modified).toBe(true);
+      expect(report!.resorted).toBe(false);
+      expect(report!.diff).toBeUndefined();
+      expect(report!.removedImports).toEqual([
+        { fqn: 'java.util.Map', text: 'import java.util.Map;', line: 4, symbols: ['Map'] },
+        { fqn: 'java.lang.Math.PI', text: 'import static java.lang.Math.PI;', line: 5, symbols: ['PI'] },
+      ]);
+      expect(fs.readFileSync(testFile + '.java', 'utf-8')).not.toContain('java.util.Map');
+    });
+
+    it('reports resorted when only the import order changed', () => {
+      const code = `package com.example;
+
+import java.util.Map;
+import java.util.List;
+
+public class Test {
+    private List<String> a;
+    private Map<String, String> b;
+}
+`;
+      fs.writeFileSync(testFile + '.java', code, 'utf-8');
+
+      const report = cleanupImportsInFile(testFile + '.java', 'java', { sortImports: true });
+      expect(report!.removedImports).toEqual([]);
+      expect(report!.resorted).toBe(true);
+      expect(report!.modified).toBe(true);
+    });
+
+    it('reports an unmodified file when nothing changes', () => {
+      const code = `package com.example;
+
+import java.util.List;
+
+public class Test {
+    private List<String> a;
+}
+`;
+      fs.writeFileSync(testFile + '.java', code, 'utf-8');
+
+      const report = cleanupImportsInFile(testFile + '.java', 'java', { sortImports: true });
+      expect(report).toEqual({ file: testFile + '.java', modified: false, resorted: false, removedImports: [] });
+    });
+
+    it('returns null for unreadable files', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      expect(cleanupImportsInFile(path.join(testDir, 'missing.kt'), 'kotlin')).toBeNull();
+      errorSpy.mockRestore();
+    });
+  });
+});
+
+describe('ImportInfo line numbers', () => {
+  it('records the 1-based line of each import', () => {
+    const code = `package com.example;
+
+import java.util.List;
+
+import java.util.Map;
+`;
+    const imports = extractJavaImports(parseJava(code), code);
+    expect(imports.map(i => i.line)).toEqual([3, 5]);
+  });
+});
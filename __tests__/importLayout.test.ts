@@ -0,0 +1,206 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseJava,
+  parseKotlin,
+  extractJavaImports,
+  extractKotlinImports,
+  sortImportsInSource,
+  planImportCleanup,
+} from '../src/importCleaner.js';
+import { resolveImportLayout, layoutImports } from '../src/importLayout.js';
+
+function sortJava(code: string, setting: Parameters<typeof resolveImportLayout>[0]): string {
+  const tree = parseJava(code);
+  return sortImportsInSource(code, extractJavaImports(tree, code), 'java', resolveImportLayout(setting, 'java'));
+}
+
+function sortKotlin(code: string, setting: Parameters<typeof resolveImportLayout>[0]): string {
+  const tree = parseKotlin(code);
+  return sortImportsInSource(code, extractKotlinImports(tree, code), 'kotlin', resolveImportLayout(setting, 'kotlin'));
+}
+
+const JAVA_MIXED = `package com.example;
+
+import static org.junit.Assert.assertEquals;
+import java.util.List;
+import com.google.common.collect.ImmutableList;
+import javax.inject.Inject;
+import static java.lang.Math.PI;
+import java.io.File;
+
+public class Test {
+}
+`;
+
+describe('resolveImportLayout', () => {
+  it('defaults to the lexicographic preset', () => {
+    expect(resolveImportLayout(undefined, 'java')).toEqual({
+      groups: ['*'],
+      blankLinesBetweenGroups: false,
+      staticImports: 'last',
+      aliasImports: 'sorted',
+    });
+  });
+
+  it('accepts a bare preset name', () => {
+    expect(resolveImportLayout('google', 'java').staticImports).toBe('first');
+  });
+
+  it('overrides individual preset fields', () => {
+    const layout = resolveImportLayout({ preset: 'intellij', staticImports: 'first' }, 'java');
+    expect(layout.groups).toEqual(['*', '', 'javax.*', 'java.*']);
+    expect(layout.staticImports).toBe('first');
+  });
+
+  it('selects per-language settings', () => {
+    const setting = { java: 'google' as const, kotlin: 'ktlint' as const };
+    expect(resolveImportLayout(setting, 'java').staticImports).toBe('first');
+    expect(resolveImportLayout(setting, 'kotlin').aliasImports).toBe('last');
+  });
+
+  it('falls back to lexicographic when the language has no per-language setting', () => {
+    expect(resolveImportLayout({ kotlin: 'ktlint' }, 'java').groups).toEqual(['*']);
+  });
+
+  it('throws on an unknown preset', () => {
+    expect(() => resolveImportLayout('eclipse' as never, 'java')).toThrow(/Unknown import layout preset: "eclipse"/);
+  });
+});
+
+describe('layoutImports', () => {
+  const entry = (fqn: string, opts: { isStatic?: boolean; isAlias?: boolean } = {}) => ({
+    text: `import ${fqn}`,
+    fqn,
+    isStatic: opts.isStatic ?? false,
+    isAlias: opts.isAlias ?? false,
+  });
+
+  it('assigns imports to the most specific matching group', () => {
+    const lines = layoutImports(
+      [entry('java.util.List'), entry('com.acme.Foo'), entry('java.io.File')],
+      { groups: ['java.*', '*'], blankLinesBetweenGroups: true, staticImports: 'last', aliasImports: 'sorted' }
+    );
+    expect(lines).toEqual(['import java.io.File', 'import java.util.List', '', 'import com.acme.Foo']);
+  });
+
+  it('puts imports matching no group into a trailing group', () => {
+    const lines = layoutImports(
+      [entry('com.acme.Foo'), entry('java.util.List')],
+      { groups: ['java.*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'sorted' }
+    );
+    expect(lines).toEqual(['import java.util.List', 'import com.acme.Foo']);
+  });
+
+  it('collapses separators around empty groups', () => {
+    const lines = layoutImports(
+      [entry('com.acme.Foo'), entry('java.util.List')],
+      { groups: ['*', '', 'javax.*', '', 'java.*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'sorted' }
+    );
+    expect(lines).toEqual(['import com.acme.Foo', '', 'import java.util.List']);
+  });
+});
+
+describe('sortImportsInSource with layouts', () => {
+  it('lexicographic preset matches the historical default', () => {
+    const tree = parseJava(JAVA_MIXED);
+    const imports = extractJavaImports(tree, JAVA_MIXED);
+    expect(sortJava(JAVA_MIXED, 'lexicographic')).toBe(sortImportsInSource(JAVA_MIXED, imports, 'java'));
+  });
+
+  it('intellij preset: others, blank, javax, java, blank, statics', () => {
+    expect(sortJava(JAVA_MIXED, 'intellij')).toBe(`package com.example;
+
+import com.google.common.collect.ImmutableList;
+
+import javax.inject.Inject;
+import java.io.File;
+import java.util.List;
+
+import static java.lang.Math.PI;
+import static org.junit.Assert.assertEquals;
+
+public class Test {
+}
+`);
+  });
+
+  it('google preset: statics first, blank line, then all others', () => {
+    expect(sortJava(JAVA_MIXED, 'google')).toBe(`package com.example;
+
+import static java.lang.Math.PI;
+import static org.junit.Assert.assertEquals;
+
+import com.google.common.collect.ImmutableList;
+import java.io.File;
+import java.util.List;
+import javax.inject.Inject;
+
+public class Test {
+}
+`);
+  });
+
+  it('custom layout: java, javax, others with blank lines and statics first', () => {
+    const layout = {
+      groups: ['java.*', 'javax.*', '*'],
+      blankLinesBetweenGroups: true,
+      staticImports: 'first' as const,
+    };
+    expect(sortJava(JAVA_MIXED, layout)).toBe(`package com.example;
+
+import static java.lang.Math.PI;
+import static org.junit.Assert.assertEquals;
+
+import java.io.File;
+import java.util.List;
+
+import javax.inject.Inject;
+
+import com.google.common.collect.ImmutableList;
+
+public class Test {
+}
+`);
+  });
+
+  it('ktlint preset puts java, javax, kotlin after others and aliases last', () => {
+    const code = `package com.example
+
+import kotlin.math.max
+import java.util.UUID as Id
+import com.acme.Foo
+import java.io.File
+import javax.inject.Inject
+
+class Test
+`;
+    expect(sortKotlin(code, 'ktlint')).toBe(`package com.example
+
+import com.acme.Foo
+import java.io.File
+import javax.inject.Inject
+import kotlin.math.max
+import java.util.UUID as Id
+
+class Test
+`);
+  });
+
+  it('planImportCleanup applies the configured layout when sorting', () => {
+    const code = `package com.example;
+
+import java.util.List;
+import com.acme.Foo;
+
+public class Test {
+    private List<Foo> items;
+}
+`;
+    const plan = planImportCleanup(code, 'java', {
+      sortImports: true,
+      importLayout: resolveImportLayout('intellij', 'java'),
+    });
+    expect(plan!.modifiedCode).toContain('import com.acme.Foo;\n\nimport java.util.List;');
+    expect(plan!.resorted).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { clearParseCache, parseCacheSize, parseSourceFile } from '../src/parseCache.js';
+import { detectDeadCodeInFile } from '../src/deadCodeDetector.js';
+import { detectPublicDeadCodeInFiles } from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles } from '../src/profileConfig.js';
+
+describe('parse cache', () => {
+  const testRoot = path.join(process.cwd(), '__tests__', 'temp');
+  let testDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    clearParseCache();
+    testDir = path.join(testRoot, `parse-cache-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    fs.mkdirSync(testDir, { recursive: true });
+    file = path.join(testDir, 'Service.java');
+    fs.writeFileSync(file, 'public class Service {\n    private int count;\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    clearParseCache();
+  });
+
+  it('reuses the tree of an unchanged file, whatever the path spelling', () => {
+    const first = parseSourceFile(file, 'java');
+    const relative = path.relative(process.cwd(), file);
+    expect(parseSourceFile(relative, 'java').tree).toBe(first.tree);
+    expect(parseCacheSize()).toBe(1);
+  });
+
+  it('parses a file again after it changes', () => {
+    const first = parseSourceFile(file, 'java');
+    fs.writeFileSync(file, 'public class Service {\n    private int count, total;\n}\n');
+
+    const second = parseSourceFile(file, 'java');
+    expect(second.tree).not.toBe(first.tree);
+    expect(second.sourceCode).toContain('total');
+  });
+
+  it('notices a rewrite that keeps the size and modification time', () => {
+    const { mtime } = fs.statSync(file);
+    parseSourceFile(file, 'java');
+    fs.writeFileSync(file, 'public class Service {\n    private int other;\n}\n');
+    fs.utimesSync(file, mtime, mtime);
+
+    expect(parseSourceFile(file, 'java').sourceCode).toContain('other');
+  });
+
+  it('throws when the file cannot be read', () => {
+    expect(() => parseSourceFile(path.join(testDir, 'Missing.java'), 'java')).toThrow();
+  });
+
+  it('is shared by the detection tools', () => {
+    const caller = path.join(testDir, 'Caller.java');
+    fs.writeFileSync(caller, 'public class Caller {\n    void run() { new Service(); }\n}\n');
+
+    detectDeadCodeInFile(file, 'java');
+    expect(parseCacheSize()).toBe(1);
+    detectPublicDeadCodeInFiles([file, caller], 'java', resolveProfiles([], {}), [testDir], []);
+    expect(parseCacheSize()).toBe(2);
+  });
+
+  it('reports findings of the current content after a file is fixed', () => {
+    expect(detectDeadCodeInFile(file, 'java').findings).toHaveLength(1);
+    // Same size, written within the same timestamp tick
+    fs.writeFileSync(file, 'public class Service {\n    public  int count;\n}\n');
+    expect(detectDeadCodeInFile(file, 'java').findings).toHaveLength(0);
+  });
+});
@@ -2,12 +2,20 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import {
+  configFiles,
+  createFileConfigLookup,
+  findProjectConfigFiles,
   loadConfig,
+  mergeConfigs,
   mergeActiveProfiles,
+  mergeExcludePatterns,
+  DEFAULT_EXCLUDE_PATTERNS,
   resolveProfiles,
   globToRegex,
   type LangToolsConfig,
 } from '../src/profileConfig.js';
+import { callTool } from '../src/server.js';
+import { createScanMonitor } from '../src/scanProgress.js';
 
 // Helper to write a config file in a temp dir
 function writeTempConfig(dir: string, content: object | string): string {
@@ -69,6 +77,84 @@ describe('loadConfig', () => {
     expect(() => loadConfig()).toThrow(/malformed|JSON|parse/i);
   });
 
+  test('accepts comments and trailing commas', () => {
+    const configPath = writeTempConfig(tmpDir, [
+      '{',
+      '  // Spring beans and their tests',
+      '  "activeProfiles": ["spring", "junit5",],',
+      '  /* imports */ "sortImports": true,',
+      '}',
+    ].join('\n'));
+    process.env.LANG_TOOLS_CONFIG = configPath;
+
+    expect(loadConfig()).toEqual({ activeProfiles: ['spring', 'junit5'], sortImports: true });
+  });
+
+  test('names the line of a syntax error', () => {
+    const configPath = writeTempConfig(tmpDir, '{\n  "sortImports": true\n  "exclude": []\n}');
+    process.env.LANG_TOOLS_CONFIG = configPath;
+
+    expect(() => loadConfig()).toThrow(
+      `Failed to parse lang-tools config at "${configPath}": malformed JSON at line 3, column 3 — expected "," or "}", found character "\\""`
+    );
+  });
+
+  test('throws with the line, JSON path and a suggestion for a mistyped condition', () => {
+    const configPath = writeTempConfig(tmpDir, JSON.stringify({
+      profiles: [{ name: 'mine', entrypoints: [{ name: 'ep', rules: [{ annotedBy: 'com.example.A' }] }] }],
+    }, null, 2));
+    process.env.LANG_TOOLS_CONFIG = configPath;
+
+    expect(() => loadConfig()).toThrow(
+      `Invalid lang-tools config at "${configPath}":\n` +
+      '  - line 10, column 15: $.profiles[0].entrypoints[0].rules[0]: unknown condition type "annotedBy". Did you mean "annotatedBy"?'
+    );
+  });
+
+  test('loads YAML config files', () => {
+    const configDir = path.join(tmpDir, 'lang-tools');
+    fs.mkdirSync(configDir, { recursive: true });
+    fs.writeFileSync(path.join(configDir, 'config.yaml'), [
+      '# Profiles for the services',
+      'activeProfiles: [spring, mine]',
+      'profiles:',
+      '  - name: mine',
+      '    entrypoints:',
+      '      - name: handlers  # called by reflection',
+      '        rules:',
+      '          - namePattern: "*Handler"',
+      '          - serviceDiscovery: true',
+    ].join('\n'), 'utf-8');
+    process.env.XDG_CONFIG_HOME = tmpDir;
+
+    expect(loadConfig()).toEqual({
+      activeProfiles: ['spring', 'mine'],
+      profiles: [{
+        name: 'mine',
+        entrypoints: [{ name: 'handlers', rules: [{ namePattern: '*Handler' }, { serviceDiscovery: true }] }],
+      }],
+    });
+  });
+
+  test('names the line of YAML syntax and validation errors', () => {
+    const configDir = path.join(tmpDir, 'lang-tools');
+    fs.mkdirSync(configDir, { recursive: true });
+    const configPath = path.join(configDir, 'config.yml');
+    process.env.LANG_TOOLS_CONFIG = configPath;
+
+    fs.writeFileSync(configPath, 'sortImports: true\nsortImports: false\n', 'utf-8');
+    expect(() => loadConfig()).toThrow(
+      `Failed to parse lang-tools config at "${configPath}": malformed YAML at line 2, column 1 — Map keys must be unique`
+    );
+
+    fs.writeFileSync(configPath, 'sortImports: true\nprofiles:\n  - name: mine\n    entrypoint: []\n', 'utf-8');
+    expect(() => loadConfig()).toThrow(
+      `Invalid lang-tools config at "${configPath}":\n` +
+      '  - line 4, column 5: $.profiles[0]: unknown key "entrypoint". Did you mean "entrypoints"?\n' +
+      '  - line 3, column 5: $.profiles[0]: missing required key "entrypoints"'
+    );
+  });
+
   test('loads from XDG_CONFIG_HOME env var when set', () => {
     process.env.XDG_CONFIG_HOME = tmpDir;
     writeTempConfig(tmpDir, { activeProfiles: ['android'] });
@@ -109,6 +195,160 @@ describe('loadConfig', () => {
   });
 });
 
+describe('project config discovery', () => {
+  let tmpDir: string;
+  let userConfigPath: string;
+  let savedConfigEnv: string | undefined;
+
+  function writeProjectConfig(relativeDir: string, content: object | string): string {
+    const dir = path.join(tmpDir, 'repo', relativeDir);
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, '.lang-tools.json');
+    fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content), 'utf-8');
+    return file;
+  }
+
+  function repoPath(relativePath: string): string {
+    return path.join(tmpDir, 'repo', relativePath);
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lang-tools-project-'));
+    fs.mkdirSync(path.join(tmpDir, 'repo', '.git'), { recursive: true });
+    fs.mkdirSync(repoPath('app/src/main'), { recursive: true });
+    fs.mkdirSync(repoPath('lib/src'), { recursive: true });
+    savedConfigEnv = process.env.LANG_TOOLS_CONFIG;
+    userConfigPath = path.join(tmpDir, 'user-config.json');
+    process.env.LANG_TOOLS_CONFIG = userConfigPath;
+  });
+
+  afterEach(() => {
+    if (savedConfigEnv === undefined) {
+      delete process.env.LANG_TOOLS_CONFIG;
+    } else {
+      process.env.LANG_TOOLS_CONFIG = savedConfigEnv;
+    }
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('finds config files from the repository root down to the analyzed path', () => {
+    const root = writeProjectConfig('', { activeProfiles: ['spring'] });
+    const module = writeProjectConfig('app', { sortImports: true });
+    writeProjectConfig('lib', { sortImports: false });
+    fs.writeFileSync(path.join(tmpDir, '.lang-tools.json'), '{}', 'utf-8');
+
+    expect(findProjectConfigFiles([repoPath('app/src/main')])).toEqual([root, module]);
+  });
+
+  test('uses the common directory of several paths', () => {
+    const root = writeProjectConfig('', {});
+    writeProjectConfig('app', {});
+    expect(findProjectConfigFiles([repoPath('app/src/main'), repoPath('lib/src')])).toEqual([root]);
+  });
+
+  test('treats files as their directory', () => {
+    const module = writeProjectConfig('app', {});
+    const file = repoPath('app/src/main/A.java');
+    fs.writeFileSync(file, '', 'utf-8');
+    expect(findProjectConfigFiles([file])).toEqual([module]);
+  });
+
+  test('looks up the config of each file\'s module', () => {
+    fs.writeFileSync(userConfigPath, JSON.stringify({ respectGitignore: false }), 'utf-8');
+    writeProjectConfig('', { sortImports: false });
+    writeProjectConfig('app', { sortImports: true });
+    const configForFile = createFileConfigLookup([repoPath('app'), repoPath('lib')]);
+
+    const appConfig = configForFile(repoPath('app/src/main/A.java'));
+    expect(appConfig).toEqual({ respectGitignore: false, sortImports: true });
+    expect(configForFile(repoPath('app/src/B.java'))).toBe(appConfig);
+    expect(configForFile(repoPath('lib/src/C.java'))).toEqual({ respectGitignore: false, sortImports: false });
+    expect(configForFile(repoPath('lib/D.java'))).toBe(configForFile(repoPath('lib/src/C.java')));
+  });
+
+  test('looks up module configs up to the common directory outside a repository', () => {
+    fs.rmSync(repoPath('.git'), { recursive: true });
+    writeProjectConfig('', { sortImports: true });
+    writeProjectConfig('app', { activeProfiles: ['spring'] });
+    fs.writeFileSync(path.join(tmpDir, '.lang-tools.json'), '{ broken', 'utf-8');
+    const configForFile = createFileConfigLookup([repoPath('app'), repoPath('lib')]);
+
+    expect(configForFile(repoPath('app/src/main/A.java'))).toEqual({ sortImports: true, activeProfiles: ['spring'] });
+    expect(configForFile(repoPath('lib/src/C.java'))).toEqual({ sortImports: true });
+  });
+
+  test('applies the entrypoint rules of each module to its files', async () => {
+    const handlers = { name: 'handlers', entrypoints: [{ name: 'Handler', rules: [{ namePattern: 'handle*' }] }] };
+    const hooks = { name: 'hooks', entrypoints: [{ name: 'Hook', rules: [{ namePattern: 'on*' }] }] };
+    writeProjectConfig('app', { activeProfiles: ['handlers'], profiles: [handlers] });
+    writeProjectConfig('lib', { activeProfiles: ['hooks'], profiles: [hooks] });
+    fs.writeFileSync(repoPath('app/src/main/AppService.java'),
+      'public class AppService {\n    private final LibHooks hooks = new LibHooks();\n    public void handleRequest() {}\n    public void onEvent() {}\n}\n');
+    fs.writeFileSync(repoPath('lib/src/LibHooks.java'),
+      'public class LibHooks {\n    private final AppService app = new AppService();\n    public void handleRequest() {}\n    public void onEvent() {}\n}\n');
+
+    const result = await callTool({
+      method: 'tools/call',
+      params: { name: 'detect_public_dead_code_java', arguments: { paths: [repoPath('app/src/main'), repoPath('lib/src')] } },
+    }, createScanMonitor());
+    const response = JSON.parse(result.content[0].text);
+    const findings = response.files.flatMap((f: { file: string; findings: { name: string }[] }) =>
+      f.findings.map(finding => `${path.basename(f.file)}#${finding.name}`));
+    expect(findings.sort()).toEqual(['AppService.java#onEvent', 'LibHooks.java#handleRequest']);
+  });
+
+  test('layers project configs over the user config', () => {
+    fs.writeFileSync(userConfigPath, JSON.stringify({
+      activeProfiles: ['junit5'],
+      respectGitignore: false,
+      profiles: [{ name: 'shared', entrypoints: [] }, { name: 'custom', entrypoints: [] }],
+    }), 'utf-8');
+    writeProjectConfig('', {
+      activeProfiles: ['spring'],
+      profiles: [{ name: 'custom', keepExternalOverrides: false, entrypoints: [] }],
+    });
+    writeProjectConfig('app', { activeProfiles: ['spring', 'junit5'], exclude: [] });
+
+    const config = loadConfig([repoPath('app/src/main')]);
+    expect(config.activeProfiles).toEqual(['spring', 'junit5']);
+    expect(config.respectGitignore).toBe(false);
+    expect(config.exclude).toEqual([]);
+    expect(config.profiles).toEqual([
+      { name: 'shared', entrypoints: [] },
+      { name: 'custom', keepExternalOverrides: false, entrypoints: [] },
+    ]);
+    expect(configFiles([repoPath('app')])).toEqual([
+      userConfigPath,
+      repoPath('.lang-tools.json'),
+      repoPath('app/.lang-tools.json'),
+    ]);
+  });
+
+  test('ignores project configs without paths', () => {
+    writeProjectConfig('', { activeProfiles: ['spring'] });
+    expect(loadConfig()).toEqual({});
+  });
+
+  test('finds YAML project config files', () => {
+    const root = writeProjectConfig('', {});
+    const file = repoPath('app/.lang-tools.yaml');
+    fs.writeFileSync(file, 'sortImports: true\n', 'utf-8');
+
+    expect(findProjectConfigFiles([repoPath('app')])).toEqual([root, file]);
+    expect(loadConfig([repoPath('app')])).toEqual({ sortImports: true });
+  });
+
+  test('names the project config file in errors', () => {
+    const file = writeProjectConfig('app', '{ broken');
+    expect(() => loadConfig([repoPath('app')])).toThrow(file);
+  });
+
+  test('mergeConfigs keeps base settings the override does not set', () => {
+    expect(mergeConfigs({ sortImports: true, activeProfiles: ['a'] }, { activeProfiles: [] }))
+      .toEqual({ sortImports: true, activeProfiles: [] });
+  });
+});
+
 describe('mergeActiveProfiles', () => {
   test('no config + no tool params returns []', () => {
     const config: LangToolsConfig = {};
@@ -136,6 +376,22 @@ describe('mergeActiveProfiles', () => {
   });
 });
 
+describe('mergeExcludePatterns', () => {
+  test('no config exclude uses the default generated-source excludes', () => {
+    expect(mergeExcludePatterns({}, undefined)).toEqual(DEFAULT_EXCLUDE_PATTERNS);
+    expect(DEFAULT_EXCLUDE_PATTERNS).toContain('**/build/generated/**');
+  });
+
+  test('config exclude replaces the defaults', () => {
+    expect(mergeExcludePatterns({ exclude: ['**/gen/**'] }, undefined)).toEqual(['**/gen/**']);
+    expect(mergeExcludePatterns({ exclude: [] }, undefined)).toEqual([]);
+  });
+
+  test('tool exclude is added to the config exclude', () => {
+    expect(mergeExcludePatterns({ exclude: ['**/gen/**'] }, ['legacy/**'])).toEqual(['**/gen/**', 'legacy/**']);
+  });
+});
+
 describe('resolveProfiles', () => {
   const emptyConfig: LangToolsConfig = {};
 
@@ -271,6 +527,39 @@ describe('resolveProfiles', () => {
     expect(result.entrypoints[0].conditions[0]).toEqual({ type: 'serviceDiscovery' });
   });
 
+  test('combinators compile into a condition tree', () => {
+    const config: LangToolsConfig = {
+      profiles: [{
+        name: 'myProfile',
+        entrypoints: [{
+          name: 'controllers',
+          rules: [
+            { anyOf: [{ annotatedBy: 'a.Controller' }, { allOf: [{ namePattern: 'on*' }, { serviceDiscovery: true }] }] },
+            { not: { packagePattern: '*.legacy.*' } },
+          ],
+        }],
+      }],
+    };
+    const [anyOf, not] = resolveProfiles(['myProfile'], config).entrypoints[0].conditions;
+    expect(anyOf).toEqual({
+      type: 'anyOf',
+      conditions: [
+        { type: 'annotatedBy', fqn: 'a.Controller' },
+        { type: 'allOf', conditions: [{ type: 'namePattern', regex: /^on.*$/ }, { type: 'serviceDiscovery' }] },
+      ],
+    });
+    expect(not).toEqual({ type: 'not', condition: { type: 'packagePattern', regex: /^.*\.legacy\..*$/ } });
+  });
+
+  test('empty anyOf and unknown nested conditions throw', () => {
+    const withRule = (rule: object) => ({
+      profiles: [{ name: 'myProfile', entrypoints: [{ name: 'ep', rules: [rule] }] }],
+    } as unknown as LangToolsConfig);
+    expect(() => resolveProfiles(['myProfile'], withRule({ anyOf: [] }))).toThrow('"anyOf" needs at least one condition.');
+    expect(() => resolveProfiles(['myProfile'], withRule({ not: { alOf: [] } })))
+      .toThrow('Unknown condition type "alOf". Did you mean "allOf"?');
+  });
+
   test('android profile has entrypoints matching lifecycle methods via namePattern', () => {
     const result = resolveProfiles(['android'], emptyConfig);
     const matchName = (name: string) => result.entrypoints.some(ep =>
@@ -313,6 +602,14 @@ describe('resolveProfiles', () => {
     expect(result.entrypoints[0].conditions[0]).toMatchObject({ type: 'annotatedBy', fqn: 'com.example.MyAnnotation' });
   });
 
+  test('unknown condition type throws instead of falling back to serviceDiscovery', () => {
+    const config = {
+      profiles: [{ name: 'myProfile', entrypoints: [{ name: 'ep', rules: [{ annotedBy: 'com.example.A' }] }] }],
+    } as unknown as LangToolsConfig;
+    expect(() => resolveProfiles(['myProfile'], config))
+      .toThrow('Unknown condition type "annotedBy". Did you mean "annotatedBy"?');
+  });
+
   test('unknown profile name throws with message including the unknown name', () => {
     expect(() => resolveProfiles(['unknownProfile'], emptyConfig)).toThrow(/unknownProfile/);
   });
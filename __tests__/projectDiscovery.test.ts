@@ -0,0 +1,162 @@
+import { describe, it, expect, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { discoverProject, projectRoots } from '../src/projectDiscovery.js';
+import { detectPublicDeadCodeInFiles } from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles } from '../src/profileConfig.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+
+const PROJECTS_ROOT = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  'fixtures/projects'
+);
+const GRADLE_ROOT = path.join(PROJECTS_ROOT, 'gradle');
+const MAVEN_ROOT = path.join(PROJECTS_ROOT, 'maven');
+
+const relative = (root: string, dirs: string[]) => dirs.map(dir => path.relative(root, dir).split(path.sep).join('/')).sort();
+
+describe('discoverProject: Gradle', () => {
+  const layout = discoverProject(GRADLE_ROOT);
+
+  it('reads modules from settings.gradle, including relocated project directories', () => {
+    expect(layout.buildTool).toBe('gradle');
+    expect(layout.modules.map(m => m.name)).toEqual(['', ':app', ':lib', ':tools:codegen']);
+    expect(layout.modules.find(m => m.name === ':tools:codegen')!.directory).toBe(path.join(GRADLE_ROOT, 'codegen'));
+  });
+
+  it('splits main and test source sets, honoring sourceSets blocks', () => {
+    const roots = projectRoots(layout);
+    expect(relative(GRADLE_ROOT, roots.sourceRoots)).toEqual([
+      'app/gen/java',
+      'app/src/main/java',
+      'codegen/src/main/kotlin',
+      'lib/src/main/java',
+    ]);
+    expect(relative(GRADLE_ROOT, roots.testRoots)).toEqual(['app/src/it/java', 'app/src/test/java', 'lib/src/it/java']);
+    expect(relative(GRADLE_ROOT, roots.resourceRoots)).toEqual(['lib/src/main/resources']);
+  });
+
+  it('names source sets by their Gradle name', () => {
+    const app = layout.modules.find(m => m.name === ':app')!;
+    expect(app.sourceSets.map(set => [set.name, set.kind]).sort()).toEqual([
+      ['integrationTest', 'test'],
+      ['main', 'main'],
+      ['test', 'test'],
+    ]);
+  });
+
+  it('treats conventional test source-set names as tests', () => {
+    const lib = layout.modules.find(m => m.name === ':lib')!;
+    expect(lib.sourceSets.map(set => [set.name, set.kind]).sort()).toEqual([
+      ['it', 'test'],
+      ['main', 'main'],
+    ]);
+  });
+});
+
+describe('discoverProject: Gradle Kotlin DSL', () => {
+  const root = path.join(process.cwd(), '__tests__', 'temp', 'gradle-kts-project');
+  const createDir = (relPath: string) => fs.mkdirSync(path.join(root, relPath), { recursive: true });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads one-line source set declarations and delegated source sets', () => {
+    fs.rmSync(root, { recursive: true, force: true });
+    createDir('src/main/kotlin');
+    createDir('generated/kotlin');
+    createDir('src/functional/kotlin');
+    fs.writeFileSync(path.join(root, 'settings.gradle.kts'), 'rootProject.name = "single"\n');
+    fs.writeFileSync(path.join(root, 'build.gradle.kts'), [
+      'sourceSets["main"].kotlin.srcDir("generated/kotlin")',
+      'sourceSets {',
+      '    val functionalTest by creating {',
+      '        kotlin.srcDirs("src/functional/kotlin")',
+      '    }',
+      '}',
+    ].join('\n'));
+
+    const roots = projectRoots(discoverProject(root));
+    expect(relative(root, roots.sourceRoots)).toEqual(['generated/kotlin', 'src/main/kotlin']);
+    expect(relative(root, roots.testRoots)).toEqual(['src/functional/kotlin']);
+  });
+
+  it('reads test suites and test tasks, and matches test names exactly', () => {
+    fs.rmSync(root, { recursive: true, force: true });
+    for (const name of ['main', 'latest', 'acceptance', 'smoke']) createDir(`src/${name}/kotlin`);
+    fs.writeFileSync(path.join(root, 'settings.gradle.kts'), 'rootProject.name = "single"\n');
+    fs.writeFileSync(path.join(root, 'build.gradle.kts'), [
+      'testing {',
+      '    suites {',
+      '        register<JvmTestSuite>("acceptance")',
+      '    }',
+      '}',
+      'tasks.register<Test>("smokeTest") {',
+      '    testClassesDirs = sourceSets["smoke"].output.classesDirs',
+      '}',
+    ].join('\n'));
+
+    const roots = projectRoots(discoverProject(root));
+    expect(relative(root, roots.sourceRoots)).toEqual(['src/latest/kotlin', 'src/main/kotlin']);
+    expect(relative(root, roots.testRoots)).toEqual(['src/acceptance/kotlin', 'src/smoke/kotlin']);
+  });
+});
+
+describe('discoverProject: Maven', () => {
+  const layout = discoverProject(MAVEN_ROOT);
+
+  it('reads modules recursively and skips commented-out modules', () => {
+    expect(layout.buildTool).toBe('maven');
+    expect(layout.modules.map(m => m.name)).toEqual(['', 'core', 'web']);
+  });
+
+  it('uses declared source directories and the standard defaults', () => {
+    const roots = projectRoots(layout);
+    expect(relative(MAVEN_ROOT, roots.sourceRoots)).toEqual(['core/src/main/java', 'web/source']);
+    expect(relative(MAVEN_ROOT, roots.testRoots)).toEqual(['core/src/test/java', 'web/tests']);
+  });
+});
+
+describe('discoverProject: errors', () => {
+  it('throws when no build file is found', () => {
+    expect(() => discoverProject(path.join(GRADLE_ROOT, 'app', 'src'))).toThrow('No settings.gradle, build.gradle or pom.xml found');
+  });
+
+  it('throws when the directory does not exist', () => {
+    expect(() => discoverProject(path.join(PROJECTS_ROOT, 'missing'))).toThrow('Project root not found');
+  });
+});
+
+describe('detectPublicDeadCodeInFiles with discovered source sets', () => {
+  const roots = projectRoots(discoverProject(GRADLE_ROOT));
+  const { resolved } = resolveFilePaths(roots.sourceRoots, '.java');
+  const referenceFiles = resolveFilePaths(roots.testRoots, '.java').resolved;
+  const config = {
+    profiles: [{ name: 'services', entrypoints: [{ name: 'service discovery', rules: [{ serviceDiscovery: true as const }] }] }],
+  };
+  const run = () => detectPublicDeadCodeInFiles(
+    resolved, 'java', resolveProfiles(['services'], config), roots.sourceRoots, ['services'],
+    { referenceFiles, resourceRoots: roots.resourceRoots },
+  );
+  const findingNames = (result: ReturnType<typeof run>) =>
+    result.files.flatMap(f => f.findings.map(finding => `${finding.enclosingScope}.${finding.name}`)).sort();
+
+  it('counts references from test source sets without reporting test code', () => {
+    const names = findingNames(run());
+    expect(names).not.toContain('TestedOnly.run');
+    expect(names).not.toContain('<top-level>.TestedOnly');
+    expect(names.some(name => name.startsWith('AppTest') || name.startsWith('AppIT'))).toBe(false);
+  });
+
+  it('reports unused main code across modules', () => {
+    const names = findingNames(run());
+    expect(names).toContain('Greeter.unusedGreeting');
+    expect(names).toContain('Helper.unusedGenerated');
+  });
+
+  it('reads META-INF/services from discovered resource directories', () => {
+    const names = findingNames(run());
+    expect(names.some(name => name.endsWith('.DefaultPlugin'))).toBe(false);
+  });
+});
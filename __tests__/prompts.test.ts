@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPrompt, PROMPTS } from '../src/prompts.js';
+
+function text(name: string, args: Record<string, string>): string {
+  const result = getPrompt(name, args);
+  expect(result.messages).toHaveLength(1);
+  expect(result.messages[0].role).toBe('user');
+  return result.messages[0].content.text;
+}
+
+describe('prompts', () => {
+  it('advertises every workflow with a required path argument', () => {
+    expect(PROMPTS.map(p => p.name)).toEqual(['cleanup-dead-code', 'triage-public-api', 'tidy-imports-in-module']);
+    for (const prompt of PROMPTS) {
+      expect(prompt.arguments.find(a => a.name === 'path')?.required).toBe(true);
+    }
+  });
+
+  describe('cleanup-dead-code', () => {
+    it('references the mixed tools and both languages by default', () => {
+      const body = text('cleanup-dead-code', { path: 'app/src/main' });
+      expect(body).toContain('`detect_public_dead_code` with `{"paths":["app/src/main"],"reachability":true}`');
+      expect(body).toContain('`detect_dead_code_java`');
+      expect(body).toContain('`fix_dead_code_kotlin` with `{"paths":["app/src/main"],"dryRun":true}`');
+      expect(body).toContain('`cleanup_unused_imports_java`');
+    });
+
+    it('passes profiles, language and build command through', () => {
+      const body = text('cleanup-dead-code', {
+        path: 'core',
+        language: 'Kotlin',
+        profiles: 'spring, junit5',
+        buildCommand: './gradlew :core:check',
+      });
+      expect(body).toContain('`detect_public_dead_code_kotlin` with `{"paths":["core"],"activeProfiles":["spring","junit5"],"reachability":true}`');
+      expect(body).not.toContain('_java');
+      expect(body).toContain('run `./gradlew :core:check`');
+    });
+  });
+
+  describe('triage-public-api', () => {
+    it('reports test-only usage when test sources are given', () => {
+      const body = text('triage-public-api', { path: 'lib/src/main', testPath: 'lib/src/test', language: 'java' });
+      expect(body).toContain('"referencePaths":["lib/src/test"],"reportUsedOnlyInTests":true');
+      expect(body).toContain('**test-only**');
+      expect(body).toContain('Do not change any code');
+    });
+
+    it('omits the test-only class without test sources', () => {
+      expect(text('triage-public-api', { path: 'lib' })).not.toContain('test-only');
+    });
+  });
+
+  describe('tidy-imports-in-module', () => {
+    it('previews with dryRun before applying', () => {
+      const body = text('tidy-imports-in-module', { path: 'web', language: 'java' });
+      expect(body).toContain('`cleanup_unused_imports_java` with `{"paths":["web"],"dryRun":true}`');
+      expect(body).not.toContain('cleanup_unused_imports_kotlin');
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects unknown prompts', () => {
+      expect(() => getPrompt('nope')).toThrow('Unknown prompt: nope');
+    });
+
+    it('requires the path argument', () => {
+      expect(() => getPrompt('cleanup-dead-code', {})).toThrow('Missing required argument "path"');
+      expect(() => getPrompt('cleanup-dead-code', { path: ' ' })).toThrow('Missing required argument "path"');
+    });
+
+    it('rejects unknown languages', () => {
+      expect(() => getPrompt('tidy-imports-in-module', { path: 'x', language: 'scala' })).toThrow('Invalid language');
+    });
+  });
+});
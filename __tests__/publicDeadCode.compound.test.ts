@@ -11,6 +11,7 @@ import {
   annotationMatchesImport,
   interfaceIsFromPackage,
   globToRegex,
+  type LangToolsConfig,
 } from '../src/profileConfig.js';
 import { resolveFilePaths } from '../src/resolveFilePaths.js';
 
@@ -388,3 +389,62 @@ describe('implementsInterface rule', () => {
     expect(allNames).toContain('unusedMethod');
   });
 });
+
+// ─── anyOf / allOf / not combinators ─────────────────────────────────────────
+
+describe('condition combinators', () => {
+  const { dir, files } = getJavaFiles('condition_combinators');
+
+  function findingNames(rules: LangToolsConfig['profiles']) {
+    const resolved = resolveProfiles(['myProfile'], { profiles: rules });
+    const result = detectPublicDeadCodeInFiles(files, 'java', resolved, [dir], ['myProfile']);
+    return result.files.flatMap(f => f.findings.map(x => x.name));
+  }
+
+  it('java: not excludes controllers in legacy packages', () => {
+    const names = findingNames([{
+      name: 'myProfile',
+      entrypoints: [{
+        name: 'current controllers',
+        rules: [
+          { annotatedBy: 'org.springframework.stereotype.Controller' },
+          { not: { packagePattern: '*.legacy' } },
+        ],
+      }],
+    }]);
+    expect(names).not.toContain('WebController');
+    expect(names).not.toContain('index');
+    expect(names).toContain('LegacyController');
+    expect(names).toContain('legacyIndex');
+  });
+
+  it('java: anyOf matches any of several interfaces', () => {
+    const names = findingNames([{
+      name: 'myProfile',
+      entrypoints: [{
+        name: 'event callbacks',
+        rules: [{ anyOf: [{ implementsInterface: 'com.acme.events.Listener' }, { implementsInterface: 'com.acme.events.Handler' }] }],
+      }],
+    }]);
+    expect(names).not.toContain('onOrder');
+    expect(names).not.toContain('handleAudit');
+    expect(names).toContain('unusedWork');
+  });
+
+  it('java: allOf nested in anyOf requires every nested condition', () => {
+    const names = findingNames([{
+      name: 'myProfile',
+      entrypoints: [{
+        name: 'listener callbacks',
+        rules: [{
+          anyOf: [
+            { allOf: [{ implementsInterface: 'com.acme.events.Listener' }, { namePattern: 'on*' }] },
+            { allOf: [{ implementsInterface: 'com.acme.events.Handler' }, { namePattern: 'on*' }] },
+          ],
+        }],
+      }],
+    }]);
+    expect(names).not.toContain('onOrder');
+    expect(names).toContain('handleAudit');
+  });
+});
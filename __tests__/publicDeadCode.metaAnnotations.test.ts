@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import { detectPublicDeadCodeInFiles, PublicDeadCodeResult } from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles, type LangToolsConfig } from '../src/profileConfig.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+
+const FIXTURE_ROOT = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures');
+
+function detect(
+  language: 'java' | 'kotlin',
+  metaAnnotations: boolean,
+  profiles: string[] = ['spring'],
+  config: LangToolsConfig = {},
+): PublicDeadCodeResult {
+  const dir = path.join(FIXTURE_ROOT, language, 'public_dead_code', 'meta_annotations');
+  const files = resolveFilePaths([dir], language === 'java' ? '.java' : '.kt').resolved;
+  return detectPublicDeadCodeInFiles(files, language, resolveProfiles(profiles, config), [dir], profiles, { metaAnnotations });
+}
+
+function names(result: PublicDeadCodeResult): string[] {
+  return result.files.flatMap(f => f.findings.map(x => `${x.enclosingScope}.${x.name}`));
+}
+
+const LANGUAGES: Array<'java' | 'kotlin'> = ['java', 'kotlin'];
+
+describe.each(LANGUAGES)('meta-annotations (%s)', (language) => {
+  it('matches only the declaration\'s own annotations by default', () => {
+    expect(names(detect(language, false))).toEqual(expect.arrayContaining([
+      'OrdersApi.listOrders',
+      'UsersApi.listUsers',
+    ]));
+  });
+
+  it('matches annotations meta-annotated with the rule annotation, transitively', () => {
+    const dead = names(detect(language, true));
+    for (const alive of ['OrdersApi.OrdersApi', 'OrdersApi.listOrders', 'UsersApi.UsersApi', 'UsersApi.listUsers']) {
+      expect(dead).not.toContain(alive);
+    }
+    expect(dead).toContain('AuditLog.unusedAudit');
+  });
+
+  it('matches annotations declared in the sources through nested combinators', () => {
+    const config: LangToolsConfig = {
+      profiles: [{
+        name: 'endpoints',
+        entrypoints: [{
+          name: 'endpoints other than versioned ones',
+          rules: [
+            { annotatedBy: 'com.acme.stereotype.OurRestEndpoint' },
+            { not: { annotatedBy: 'com.acme.stereotype.OurVersionedEndpoint' } },
+          ],
+        }],
+      }],
+    };
+    const dead = names(detect(language, true, ['endpoints'], config));
+    expect(dead).not.toContain('OrdersApi.listOrders');
+    expect(dead).toContain('UsersApi.listUsers');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import { detectPublicDeadCodeInFiles } from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles } from '../src/profileConfig.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+
+const INTEROP_DIR = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  'fixtures/mixed/public_dead_code/interop'
+);
+
+function findingNames(language: 'mixed' | 'kotlin'): string[] {
+  const extension = language === 'mixed' ? ['.java', '.kt'] : '.kt';
+  const files = resolveFilePaths([INTEROP_DIR], extension).resolved;
+  const result = detectPublicDeadCodeInFiles(files, language, resolveProfiles([], {}), [INTEROP_DIR], []);
+  return result.files.flatMap(f => f.findings.map(x => `${x.enclosingScope}.${x.name}`));
+}
+
+describe('mixed Java + Kotlin analysis', () => {
+  const mixed = findingNames('mixed');
+
+  it('analyzes both .java and .kt files', () => {
+    const files = resolveFilePaths([INTEROP_DIR], ['.java', '.kt']).resolved;
+    const result = detectPublicDeadCodeInFiles(files, 'mixed', resolveProfiles([], {}), [INTEROP_DIR], []);
+    expect(result.filesAnalyzed).toBe(6);
+  });
+
+  it('Kotlin classes used only from Java are not reported', () => {
+    expect(mixed).not.toContain('Formatter.Formatter');
+    expect(mixed).not.toContain('Formatter.format');
+    expect(mixed).not.toContain('BeanPrinter.print');
+  });
+
+  it('Kotlin-only analysis reports them', () => {
+    const kotlinOnly = findingNames('kotlin');
+    expect(kotlinOnly).toContain('Formatter.Formatter');
+    expect(kotlinOnly).toContain('BeanPrinter.print');
+  });
+
+  it('Kotlin properties are matched through Java getters and setters', () => {
+    expect(mixed).not.toContain('User.email');
+    expect(mixed).not.toContain('User.nickname');
+  });
+
+  it('is-prefixed Kotlin properties are matched through the isFoo getter', () => {
+    expect(mixed).not.toContain('User.isActive');
+  });
+
+  it('@JvmName functions are matched through their JVM name', () => {
+    expect(mixed).not.toContain('User.display');
+  });
+
+  it('companion members are matched through @JvmStatic and Companion access', () => {
+    expect(mixed).not.toContain('User.create');
+    expect(mixed).not.toContain('User.parse');
+    expect(mixed).toContain('User.unusedFactory');
+  });
+
+  it('top-level declarations are matched through the file facade class', () => {
+    expect(mixed).not.toContain('<top-level>.slugify');
+    expect(mixed).not.toContain('<top-level>.defaultTitle');
+    expect(mixed).toContain('<top-level>.unusedTopLevel');
+  });
+
+  it('Java accessors are matched through Kotlin property syntax', () => {
+    expect(mixed).not.toContain('JavaBean.getTitle');
+    expect(mixed).not.toContain('JavaBean.isEnabled');
+    expect(mixed).toContain('JavaBean.getUnused');
+  });
+
+  it('unused Kotlin members are still reported', () => {
+    expect(mixed).toContain('User.unusedProp');
+    expect(mixed).toContain('User.unusedFun');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import { detectPublicDeadCodeInFiles, PublicDeadCodeResult } from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles } from '../src/profileConfig.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+
+const FIXTURE_ROOT = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures');
+
+function detect(language: 'java' | 'kotlin', reachability: boolean): PublicDeadCodeResult {
+  const dir = path.join(FIXTURE_ROOT, language, 'public_dead_code', 'reachability');
+  const files = resolveFilePaths([dir], language === 'java' ? '.java' : '.kt').resolved;
+  return detectPublicDeadCodeInFiles(files, language, resolveProfiles([], {}), [dir], [], { reachability });
+}
+
+function names(result: PublicDeadCodeResult): string[] {
+  return result.files.flatMap(f => f.findings.map(x => `${x.enclosingScope}.${x.name}`));
+}
+
+const LANGUAGES: Array<'java' | 'kotlin'> = ['java', 'kotlin'];
+
+describe.each(LANGUAGES)('reachability mode (%s)', (language) => {
+  const referenced = detect(language, false);
+  const reachable = detect(language, true);
+  const topLevel = language === 'java' ? 'LegacyPadding.pad' : '<top-level>.padLegacy';
+
+  it('default mode keeps code referenced only from dead code alive', () => {
+    expect(names(referenced)).toContain('Service.exportLegacy');
+    expect(names(referenced)).not.toContain('LegacyFormatter.format');
+    expect(names(referenced)).not.toContain(topLevel);
+    expect(referenced.clusters).toBeUndefined();
+  });
+
+  it('reports declarations referenced only from unreachable code', () => {
+    expect(names(reachable)).toEqual(expect.arrayContaining([
+      'Service.exportLegacy',
+      'LegacyFormatter.LegacyFormatter',
+      'LegacyFormatter.format',
+      topLevel,
+    ]));
+    const format = reachable.files.flatMap(f => f.findings).find(f => f.name === 'format')!;
+    expect(format.message).toContain('only referenced from unreachable code');
+  });
+
+  it('keeps code reachable from main, through interface dispatch and from tests', () => {
+    const dead = names(reachable);
+    for (const alive of ['Service.run', 'Service.helper', 'Handler.handle', 'LoggingHandler.handle', 'Service.verify']) {
+      expect(dead).not.toContain(alive);
+    }
+    expect(dead).not.toContain('ServiceTest.verifies');
+    expect(dead).not.toContain('ServiceTest.ServiceTest');
+  });
+
+  it('groups dead declarations into clusters, largest first', () => {
+    const expected = language === 'java'
+      ? ['Service.exportLegacy', 'LegacyFormatter', 'LegacyFormatter.format', 'LegacyPadding', 'LegacyPadding.pad']
+      : ['Service.exportLegacy', 'LegacyFormatter', 'LegacyFormatter.format', 'padLegacy'];
+    expect(reachable.clusters).toEqual([
+      { id: 1, size: expected.length, declarations: expected },
+      { id: 2, size: 2, declarations: ['Orphan', 'Orphan.alone'] },
+    ]);
+
+    const clusterOf = (name: string) => reachable.files.flatMap(f => f.findings).find(f => f.name === name)?.clusterId;
+    expect(clusterOf('exportLegacy')).toBe(1);
+    expect(clusterOf('alone')).toBe(2);
+  });
+});
+
+describe('reachability mode roots', () => {
+  it('treats entrypoint matches as roots', () => {
+    const dir = path.join(FIXTURE_ROOT, 'java', 'public_dead_code', 'reachability');
+    const files = resolveFilePaths([dir], '.java').resolved;
+    const rules = resolveProfiles(['exports'], {
+      profiles: [{ name: 'exports', entrypoints: [{ name: 'export* pattern', rules: [{ namePattern: 'export*' }] }] }]
+    });
+    const result = detectPublicDeadCodeInFiles(files, 'java', rules, [dir], ['exports'], { reachability: true });
+    const dead = names(result);
+
+    expect(dead).not.toContain('Service.exportLegacy');
+    expect(dead).not.toContain('LegacyFormatter.format');
+    expect(dead).not.toContain('LegacyPadding.pad');
+    expect(dead).toContain('Orphan.alone');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import {
+  detectPublicDeadCodeInFiles,
+  PublicDeadCodeOptions,
+  PublicDeadCodeResult,
+} from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles } from '../src/profileConfig.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+
+const FIXTURE_ROOT = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures');
+
+function detect(language: 'java' | 'kotlin', options: PublicDeadCodeOptions = {}, withTests = true): PublicDeadCodeResult {
+  const dir = path.join(FIXTURE_ROOT, language, 'public_dead_code', 'test_only');
+  const extension = language === 'java' ? '.java' : '.kt';
+  const mainDir = path.join(dir, 'main');
+  const files = resolveFilePaths([mainDir], extension).resolved;
+  const referenceFiles = withTests ? resolveFilePaths([path.join(dir, 'test')], extension).resolved : [];
+  return detectPublicDeadCodeInFiles(files, language, resolveProfiles([], {}), [mainDir], [], { ...options, referenceFiles });
+}
+
+function findings(result: PublicDeadCodeResult): string[] {
+  return result.files.flatMap(f => f.findings.map(x => `${x.category}:${x.enclosingScope}.${x.name}`)).sort();
+}
+
+const LANGUAGES: Array<'java' | 'kotlin'> = ['java', 'kotlin'];
+
+describe.each(LANGUAGES)('reference-only files (%s)', (language) => {
+  // The Java main class is not referenced by name; Kotlin's main is a top-level function
+  const mainClass = language === 'java' ? ['unused_public_class:App.App'] : [];
+
+  it('without reference files, code used only from tests is reported as unused', () => {
+    const names = findings(detect(language, {}, false));
+    expect(names).toContain('unused_public_method:Calculator.subtract');
+    expect(names).toContain('unused_public_class:TestSupport.TestSupport');
+  });
+
+  it('references from reference files keep production code alive', () => {
+    const names = findings(detect(language));
+    expect(names).toEqual([...mainClass, 'unused_public_method:Calculator.multiply']);
+  });
+
+  it('never reports declarations of reference files', () => {
+    const result = detect(language);
+    expect(result.files.every(f => !f.file.includes(`${path.sep}test${path.sep}`))).toBe(true);
+    expect(result.filesAnalyzed).toBe(4);
+  });
+
+  it('reports production code used only from reference files as used_only_in_tests', () => {
+    const result = detect(language, { reportUsedOnlyInTests: true });
+    expect(findings(result)).toEqual([
+      ...mainClass,
+      'unused_public_method:Calculator.multiply',
+      'used_only_in_tests:Calculator.subtract',
+      'used_only_in_tests:TestSupport.TestSupport',
+      'used_only_in_tests:TestSupport.describe',
+    ]);
+    const subtract = result.files.flatMap(f => f.findings).find(f => f.name === 'subtract')!;
+    expect(subtract.message).toContain('is only used from tests');
+  });
+
+  it('reports test-only usage in reachability mode', () => {
+    const result = detect(language, { reachability: true, reportUsedOnlyInTests: true });
+    expect(findings(result)).toEqual([
+      'unused_public_method:Calculator.multiply',
+      'used_only_in_tests:Calculator.subtract',
+      'used_only_in_tests:TestSupport.TestSupport',
+      'used_only_in_tests:TestSupport.describe',
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import { detectPublicDeadCodeInFiles } from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles } from '../src/profileConfig.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+
+const FIXTURE_ROOT = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures');
+
+function findingsFor(language: 'java' | 'kotlin'): string[] {
+  const dir = path.join(FIXTURE_ROOT, language, 'public_dead_code', 'type_resolution');
+  const files = resolveFilePaths([dir], language === 'java' ? '.java' : '.kt').resolved;
+  const result = detectPublicDeadCodeInFiles(files, language, resolveProfiles([], {}), [dir], []);
+  return result.files.flatMap(f =>
+    f.findings.map(x => `${path.relative(dir, f.file).split(path.sep).join('/')}:${x.enclosingScope}.${x.name}`)
+  );
+}
+
+const LANGUAGES: Array<['java' | 'kotlin', string]> = [
+  ['java', '.java'],
+  ['kotlin', '.kt'],
+];
+
+describe.each(LANGUAGES)('type-aware references (%s)', (language, ext) => {
+  const findings = findingsFor(language);
+  const file = (relative: string) => `com/example/${relative}${ext}`;
+
+  it('call on an external type does not keep a same-named project method alive', () => {
+    expect(findings).toContain(`${file('store/Registry')}:Registry.get`);
+  });
+
+  it('call on a typed local variable keeps the method alive', () => {
+    expect(findings).not.toContain(`${file('store/Registry')}:Registry.register`);
+  });
+
+  it('call through a supertype keeps overriding implementations alive', () => {
+    expect(findings).not.toContain(`${file('shapes/Shape')}:Shape.area`);
+    expect(findings).not.toContain(`${file('shapes/Circle')}:Circle.area`);
+  });
+
+  it('call on a subtype keeps inherited members alive', () => {
+    expect(findings).not.toContain(`${file('shapes/Shape')}:Shape.describe`);
+  });
+
+  it('call on a receiver typed by a type parameter keeps members of its bound alive', () => {
+    expect(findings).not.toContain(`${file('shapes/Shape')}:Shape.perimeter`);
+    expect(findings).not.toContain(`${file('shapes/Shape')}:Shape.label`);
+  });
+
+  it('members never called through the hierarchy are reported', () => {
+    expect(findings).toContain(`${file('shapes/Shape')}:Shape.outline`);
+  });
+
+  it('resolves same-named classes through imports', () => {
+    expect(findings).not.toContain(`${file('ui/Widget')}:Widget.Widget`);
+    expect(findings).not.toContain(`${file('ui/Widget')}:Widget.render`);
+    expect(findings).toContain(`${file('legacy/Widget')}:Widget.Widget`);
+    expect(findings).toContain(`${file('legacy/Widget')}:Widget.render`);
+  });
+
+  it('static call is attributed to the named class only', () => {
+    expect(findings).not.toContain(`${file('util/Strings')}:Strings.pad`);
+    expect(findings).toContain(`${file('util/Padding')}:Padding.pad`);
+    expect(findings).toContain(`${file('util/Padding')}:Padding.Padding`);
+  });
+
+  it('falls back to name matching when the receiver type is unknown', () => {
+    expect(findings).not.toContain(`${file('store/Registry')}:Registry.clear`);
+  });
+});
+
+describe('type-aware references (Java-specific)', () => {
+  it('reports a subclass method that is never called through its hierarchy', () => {
+    // Circle.outline has no @Override, so only the type hierarchy can connect it to Shape.outline
+    expect(findingsFor('java')).toContain('com/example/shapes/Circle.java:Circle.outline');
+  });
+
+  it('falls back to name matching for a var loop variable', () => {
+    expect(findingsFor('java')).not.toContain('com/example/shapes/Shape.java:Shape.volume');
+  });
+
+  it('types a var resource by its constructor call', () => {
+    expect(findingsFor('java')).not.toContain('com/example/store/Session.java:Session.user');
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import * as fs from 'fs';
 import * as path from 'path';
-import { resolveFilePaths } from '../src/resolveFilePaths.js';
+import { resolveFilePaths, pathGlobToRegex } from '../src/resolveFilePaths.js';
 
 const tmpBase = path.join(process.cwd(), '__tests__', 'temp', 'resolve-test');
 
@@ -39,6 +39,15 @@ describe('resolveFilePaths', () => {
     expect(result.errors).toEqual([]);
   });
 
+  it('should match any of several extensions', () => {
+    const f1 = createFile('src/A.java');
+    const f2 = createFile('src/sub/B.kt');
+    createFile('src/readme.txt');
+
+    const result = resolveFilePaths([path.join(tmpBase, 'src')], ['.java', '.kt']);
+    expect(result.resolved.sort()).toEqual([f1, f2].sort());
+  });
+
   it('should combine files and directories', () => {
     const f1 = createFile('single/One.kt');
     const f2 = createFile('dir/Two.kt');
@@ -85,3 +94,157 @@ describe('resolveFilePaths', () => {
     expect(result.resolved).toEqual([kt]);
   });
 });
+
+describe('resolveFilePaths filters', () => {
+  beforeEach(() => {
+    fs.mkdirSync(tmpBase, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpBase, { recursive: true, force: true });
+  });
+
+  it('skips files under excluded directories', () => {
+    const kept = createFile('app/src/main/java/A.java');
+    createFile('app/build/generated/source/kapt/main/A_Factory.java');
+    createFile('app/src/main/java/gen/B.java');
+
+    const result = resolveFilePaths([tmpBase], '.java', { exclude: ['**/build/generated/**', 'gen'] });
+    expect(result.resolved).toEqual([kept]);
+  });
+
+  it('excludes files by name pattern', () => {
+    const kept = createFile('src/A.java');
+    createFile('src/AGenerated.java');
+
+    const result = resolveFilePaths([tmpBase], '.java', { exclude: ['*Generated.java'] });
+    expect(result.resolved).toEqual([kept]);
+  });
+
+  it('keeps only files matching an include pattern', () => {
+    const main = createFile('src/main/java/A.java');
+    createFile('src/test/java/ATest.java');
+
+    const result = resolveFilePaths([tmpBase], '.java', { include: ['src/main/**'] });
+    expect(result.resolved).toEqual([main]);
+  });
+
+  it('matches patterns relative to each scanned directory', () => {
+    const kept = createFile('module/src/A.java');
+    createFile('module/legacy/B.java');
+
+    const result = resolveFilePaths([path.join(tmpBase, 'module')], '.java', { exclude: ['/legacy'] });
+    expect(result.resolved).toEqual([kept]);
+  });
+
+  it('does not filter explicitly listed files', () => {
+    const file = createFile('build/generated/A.java');
+    const result = resolveFilePaths([file], '.java', { exclude: ['**/build/generated/**'] });
+    expect(result.resolved).toEqual([file]);
+  });
+});
+
+describe('pathGlobToRegex', () => {
+  it('matches ** across segments and the directory itself', () => {
+    const regex = pathGlobToRegex('**/build/**');
+    expect(regex.test('build')).toBe(true);
+    expect(regex.test('app/build')).toBe(true);
+    expect(regex.test('app/build/generated/A.java')).toBe(true);
+    expect(regex.test('app/rebuild/A.java')).toBe(false);
+  });
+
+  it('keeps * and ? within one segment', () => {
+    expect(pathGlobToRegex('src/*.java').test('src/A.java')).toBe(true);
+    expect(pathGlobToRegex('src/*.java').test('src/sub/A.java')).toBe(false);
+    expect(pathGlobToRegex('src/?.kt').test('src/A.kt')).toBe(true);
+  });
+
+  it('matches names at any depth when the pattern has no slash', () => {
+    expect(pathGlobToRegex('node_modules').test('web/node_modules')).toBe(true);
+    expect(pathGlobToRegex('*.kt').test('a/b/C.kt')).toBe(true);
+  });
+
+  it('supports brace alternatives', () => {
+    const regex = pathGlobToRegex('**/{kapt,ksp}/**');
+    expect(regex.test('build/generated/ksp/main/A.kt')).toBe(true);
+    expect(regex.test('build/generated/source/A.kt')).toBe(false);
+  });
+});
+
+describe('resolveFilePaths gitignore', () => {
+  beforeEach(() => {
+    fs.mkdirSync(path.join(tmpBase, '.git', 'info'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpBase, { recursive: true, force: true });
+  });
+
+  it('skips ignored files and directories', () => {
+    const kept = createFile('src/A.java');
+    createFile('out/B.java');
+    createFile('src/Scratch.java');
+    createFile('.gitignore', 'out/\nScratch.java\n');
+
+    const result = resolveFilePaths([tmpBase], '.java', { gitignore: true });
+    expect(result.resolved).toEqual([kept]);
+  });
+
+  it('re-includes negated files', () => {
+    const kept = createFile('gen/Keep.java');
+    createFile('gen/Drop.java');
+    createFile('.gitignore', 'gen/*\n!gen/Keep.java\n');
+
+    const result = resolveFilePaths([tmpBase], '.java', { gitignore: true });
+    expect(result.resolved).toEqual([kept]);
+  });
+
+  it('applies directory-only patterns to directories only', () => {
+    const file = createFile('src/vendor.java');
+    createFile('src/vendor/Lib.java');
+    createFile('.gitignore', 'vendor/\n');
+
+    const result = resolveFilePaths([tmpBase], '.java', { gitignore: true });
+    expect(result.resolved).toEqual([file]);
+  });
+
+  it('applies nested ignore files relative to their directory', () => {
+    const kept = createFile('app/src/A.java');
+    createFile('app/tmp/B.java');
+    const other = createFile('lib/tmp/C.java');
+    createFile('app/.gitignore', '/tmp\n');
+
+    const result = resolveFilePaths([tmpBase], '.java', { gitignore: true });
+    expect(result.resolved.sort()).toEqual([kept, other].sort());
+  });
+
+  it('lets nested ignore files override outer ones', () => {
+    const kept = createFile('app/Generated.java');
+    createFile('lib/Generated.java');
+    createFile('.gitignore', 'Generated.java\n');
+    createFile('app/.gitignore', '!Generated.java\n');
+
+    const result = resolveFilePaths([tmpBase], '.java', { gitignore: true });
+    expect(result.resolved).toEqual([kept]);
+  });
+
+  it('reads .git/info/exclude and ignore files above a scanned subdirectory', () => {
+    const kept = createFile('app/src/A.java');
+    createFile('app/src/local/B.java');
+    createFile('app/src/C.java');
+    createFile('.git/info/exclude', 'local/\n');
+    createFile('.gitignore', 'app/src/C.java\n');
+
+    const result = resolveFilePaths([path.join(tmpBase, 'app', 'src')], '.java', { gitignore: true });
+    expect(result.resolved).toEqual([kept]);
+  });
+
+  it('ignores nothing when disabled', () => {
+    const a = createFile('src/A.java');
+    const b = createFile('out/B.java');
+    createFile('.gitignore', 'out/\n');
+
+    const result = resolveFilePaths([tmpBase], '.java', { gitignore: false });
+    expect(result.resolved.sort()).toEqual([a, b].sort());
+  });
+});
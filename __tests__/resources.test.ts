@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  CONFIG_URI,
+  clearReports,
+  listResources,
+  profileUri,
+  readResource,
+  recordReport,
+  reportUri,
+} from '../src/resources.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from '../src/profileConfig.js';
+
+describe('resources', () => {
+  let tmpDir: string;
+  let configPath: string;
+  let savedConfigEnv: string | undefined;
+
+  function writeConfig(content: object | string) {
+    fs.writeFileSync(configPath, typeof content === 'string' ? content : JSON.stringify(content), 'utf-8');
+  }
+
+  function readJson(uri: string) {
+    return JSON.parse(readResource(uri).text);
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lang-tools-resources-'));
+    configPath = path.join(tmpDir, 'config.json');
+    savedConfigEnv = process.env.LANG_TOOLS_CONFIG;
+    process.env.LANG_TOOLS_CONFIG = configPath;
+    clearReports();
+  });
+
+  afterEach(() => {
+    if (savedConfigEnv === undefined) {
+      delete process.env.LANG_TOOLS_CONFIG;
+    } else {
+      process.env.LANG_TOOLS_CONFIG = savedConfigEnv;
+    }
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('config', () => {
+    it('fills in defaults when no config file exists', () => {
+      const content = readJson(CONFIG_URI);
+      expect(content.path).toBe(configPath);
+      expect(content.exists).toBe(false);
+      expect(content.config.activeProfiles).toEqual([]);
+      expect(content.config.exclude).toEqual(DEFAULT_EXCLUDE_PATTERNS);
+      expect(content.config.respectGitignore).toBe(true);
+      expect(content.config.importLayout.java.groups).toBeDefined();
+    });
+
+    it('reports configured values', () => {
+      writeConfig({ activeProfiles: ['spring'], exclude: ['gen/**'], respectGitignore: false, importLayout: 'google' });
+      const content = readJson(CONFIG_URI);
+      expect(content.exists).toBe(true);
+      expect(content.files).toEqual([configPath]);
+      expect(content.config.activeProfiles).toEqual(['spring']);
+      expect(content.config.exclude).toEqual(['gen/**']);
+      expect(content.config.respectGitignore).toBe(false);
+      expect(content.config.importLayout.kotlin.staticImports).toBeDefined();
+    });
+
+    it('fails to read a malformed config', () => {
+      writeConfig('{ not json');
+      expect(() => readResource(CONFIG_URI)).toThrow('malformed JSON');
+    });
+  });
+
+  describe('profiles', () => {
+    it('lists built-in and config profiles', () => {
+      writeConfig({ profiles: [{ name: 'custom', entrypoints: [] }] });
+      const uris = listResources().map(r => r.uri);
+      expect(uris).toContain(CONFIG_URI);
+      expect(uris).toContain(profileUri('spring'));
+      expect(uris).toContain(profileUri('custom'));
+    });
+
+    it('still lists built-in profiles when the config is malformed', () => {
+      writeConfig('{ not json');
+      expect(listResources().map(r => r.uri)).toContain(profileUri('junit5'));
+    });
+
+    it('reads a built-in profile with its entrypoints', () => {
+      writeConfig({ activeProfiles: ['spring'] });
+      const content = readJson(profileUri('spring'));
+      expect(content.source).toBe('built-in');
+      expect(content.active).toBe(true);
+      expect(content.entrypoints.length).toBeGreaterThan(0);
+    });
+
+    it('reads a config profile and reports rules that fail to resolve', () => {
+      writeConfig({
+        profiles: [{ name: 'broken', entrypoints: [{ name: 'ep', rules: [] }] }],
+      });
+      const content = readJson(profileUri('broken'));
+      expect(content.source).toBe('config');
+      expect(content.active).toBe(false);
+      expect(content.keepExternalOverrides).toBe(true);
+      expect(content.error).toContain('empty rules array');
+    });
+
+    it('rejects unknown profiles', () => {
+      expect(() => readResource(profileUri('nope'))).toThrow('Unknown profile: "nope"');
+    });
+  });
+
+  describe('reports', () => {
+    const root = '/work/project/src main';
+
+    it('keeps the last report per tool and source root', () => {
+      expect(recordReport('detect_dead_code_java', [root], '{"run":1}')).toBe(true);
+      expect(recordReport('detect_dead_code_java', [root], '{"run":2}')).toBe(false);
+
+      const uri = reportUri('detect_dead_code_java', root);
+      expect(listResources().map(r => r.uri)).toContain(uri);
+      expect(readResource(uri).text).toBe('{"run":2}');
+    });
+
+    it('records a report under every analyzed root', () => {
+      recordReport('detect_public_dead_code', ['/a', '/b'], '{}', 'application/sarif+json');
+      expect(readResource(reportUri('detect_public_dead_code', '/a')).mimeType).toBe('application/sarif+json');
+      expect(readResource(reportUri('detect_public_dead_code', '/b')).text).toBe('{}');
+    });
+
+    it('finds reports regardless of how the root is encoded', () => {
+      recordReport('detect_dead_code_java', [root], '{}');
+      expect(readResource('lang-tools://reports/detect_dead_code_java//work/project/src%20main').text).toBe('{}');
+    });
+
+    it('rejects roots without a report', () => {
+      expect(() => readResource(reportUri('detect_dead_code_java', root))).toThrow('No report recorded');
+      expect(() => readResource('lang-tools://other')).toThrow('Unknown resource');
+    });
+  });
+});
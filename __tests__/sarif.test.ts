@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { toSarifLog, SarifFileResult } from '../src/sarif.js';
+import { DEAD_CODE_CATEGORIES } from '../src/deadCodeDetector.js';
+import { PUBLIC_DEAD_CODE_CATEGORIES } from '../src/publicDeadCodeDetector.js';
+import { callTool } from '../src/server.js';
+import { createScanMonitor } from '../src/scanProgress.js';
+
+const BASE = path.resolve('/work/project');
+
+function finding(overrides: Partial<SarifFileResult['findings'][number]> = {}): SarifFileResult['findings'][number] {
+  return {
+    category: 'unused_field',
+    name: 'oldField',
+    line: 4,
+    column: 4,
+    enclosingScope: 'Legacy',
+    message: "Private field 'oldField' is never used in class 'Legacy'",
+    ...overrides,
+  };
+}
+
+function options() {
+  return { categories: DEAD_CODE_CATEGORIES, baseDir: BASE, toolVersion: '1.2.3' };
+}
+
+describe('toSarifLog', () => {
+  it('produces a SARIF 2.1.0 log with one rule per category', () => {
+    const log = toSarifLog([], options());
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    const driver = log.runs[0].tool.driver;
+    expect(driver.name).toBe('lang-tools-mcp');
+    expect(driver.version).toBe('1.2.3');
+    expect(driver.rules.map(r => r.id)).toEqual(DEAD_CODE_CATEGORIES);
+    expect(log.runs[0].results).toEqual([]);
+    expect(log.runs[0].invocations[0].executionSuccessful).toBe(true);
+  });
+
+  it('declares rules for public categories', () => {
+    const log = toSarifLog([], { ...options(), categories: PUBLIC_DEAD_CODE_CATEGORIES });
+    expect(log.runs[0].tool.driver.rules.map(r => r.name)).toEqual([
+      'UnusedPublicMethod', 'UnusedPublicField', 'UnusedPublicClass', 'UnusedProtectedMethod', 'UnusedProtectedField',
+      'UsedOnlyInTests',
+    ]);
+  });
+
+  it('maps findings to results with relative physical locations and 1-based columns', () => {
+    const file = path.join(BASE, 'src', 'Legacy.java');
+    const log = toSarifLog([{ file, findings: [finding()] }], options());
+
+    const result = log.runs[0].results[0];
+    expect(result.ruleId).toBe('unused_field');
+    expect(result.ruleIndex).toBe(DEAD_CODE_CATEGORIES.indexOf('unused_field'));
+    expect(result.message.text).toContain('oldField');
+    expect(result.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/Legacy.java', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 4, startColumn: 5 },
+    });
+    expect(log.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toMatch(/^file:\/\/.*\/work\/project\/$/);
+  });
+
+  it('keeps fingerprints stable when the finding moves to another line', () => {
+    const file = path.join(BASE, 'src', 'Legacy.java');
+    const before = toSarifLog([{ file, findings: [finding()] }], options());
+    const after = toSarifLog([{ file, findings: [finding({ line: 40, column: 8 })] }], options());
+
+    expect(after.runs[0].results[0].partialFingerprints)
+      .toEqual(before.runs[0].results[0].partialFingerprints);
+  });
+
+  it('distinguishes identical findings by occurrence and different findings by identity', () => {
+    const file = path.join(BASE, 'src', 'Legacy.java');
+    const log = toSarifLog([{
+      file,
+      findings: [finding(), finding({ line: 9 }), finding({ name: 'otherField' })],
+    }], options());
+
+    const fingerprints = log.runs[0].results.map(r => Object.values(r.partialFingerprints)[0]);
+    expect(new Set(fingerprints).size).toBe(3);
+    expect(fingerprints[0].split(':')[0]).toBe(fingerprints[1].split(':')[0]);
+    expect(fingerprints[0].endsWith(':1')).toBe(true);
+    expect(fingerprints[1].endsWith(':2')).toBe(true);
+  });
+
+  it('reports file errors as tool execution notifications', () => {
+    const log = toSarifLog([{ file: path.join(BASE, 'Broken.java'), findings: [], error: 'Syntax error in file' }], options());
+
+    const invocation = log.runs[0].invocations[0];
+    expect(invocation.executionSuccessful).toBe(false);
+    expect(invocation.toolExecutionNotifications[0].message.text).toBe('Syntax error in file');
+    expect(invocation.toolExecutionNotifications[0].locations[0].physicalLocation.artifactLocation.uri).toBe('Broken.java');
+  });
+
+  it('uses absolute file URIs for files outside the base directory', () => {
+    const file = path.resolve('/elsewhere/Legacy.java');
+    const log = toSarifLog([{ file, findings: [finding()] }], options());
+    expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation).toEqual({
+      uri: pathToFileURL(file).href,
+    });
+  });
+
+  it('attaches run properties when provided', () => {
+    const log = toSarifLog([], { ...options(), properties: { activeProfiles: ['spring'] } });
+    expect(log.runs[0].properties).toEqual({ activeProfiles: ['spring'] });
+  });
+});
+
+describe('SARIF output of the tools', () => {
+  let tmpDir: string;
+
+  function repoPath(relativePath: string): string {
+    return path.join(tmpDir, 'repo', relativePath);
+  }
+
+  async function sarifOf(name: string, args: Record<string, unknown>) {
+    const result = await callTool({
+      method: 'tools/call',
+      params: { name, arguments: { ...args, outputFormat: 'sarif' } },
+    }, createScanMonitor());
+    return JSON.parse(result.content[0].text);
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lang-tools-sarif-'));
+    fs.mkdirSync(repoPath('.git'), { recursive: true });
+    fs.mkdirSync(repoPath('app/src'), { recursive: true });
+    fs.writeFileSync(repoPath('app/src/Legacy.java'), 'public class Legacy {\n    private int count;\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('makes artifact URIs relative to the repository root', async () => {
+    const log = await sarifOf('detect_dead_code_java', { paths: [repoPath('app/src')] });
+
+    expect(log.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toBe(pathToFileURL(repoPath('') + path.sep).href);
+    expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation)
+      .toEqual({ uri: 'app/src/Legacy.java', uriBaseId: '%SRCROOT%' });
+  });
+
+  it('uses the common directory of the scanned roots outside a repository', async () => {
+    fs.rmSync(repoPath('.git'), { recursive: true });
+    const log = await sarifOf('detect_public_dead_code_java', { paths: [repoPath('app/src')] });
+
+    expect(log.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toBe(pathToFileURL(repoPath('app/src') + path.sep).href);
+    expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation)
+      .toEqual({ uri: 'Legacy.java', uriBaseId: '%SRCROOT%' });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import {
+  detectPublicDeadCodeInFiles,
+  scanPublicDeadCode,
+} from '../src/publicDeadCodeDetector.js';
+import { resolveProfiles } from '../src/profileConfig.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+import { createScanMonitor, runScan, type ScanMonitor, type ScanProgress } from '../src/scanProgress.js';
+
+const FIXTURE_ROOT = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures');
+const MAIN_DIR = path.join(FIXTURE_ROOT, 'java', 'public_dead_code', 'test_only', 'main');
+const FILES = resolveFilePaths([MAIN_DIR], '.java').resolved;
+
+function scan() {
+  return scanPublicDeadCode(FILES, 'java', resolveProfiles([], {}), [MAIN_DIR], []);
+}
+
+/** Records every checkpoint and stops at the given one */
+function recordingMonitor(stopAt = Infinity): { monitor: ScanMonitor; seen: ScanProgress[] } {
+  const seen: ScanProgress[] = [];
+  return {
+    seen,
+    monitor: { checkpoint: async progress => seen.push(progress) > stopAt },
+  };
+}
+
+describe('scanPublicDeadCode', () => {
+  it('checkpoints per file and phase with growing progress', async () => {
+    const { monitor, seen } = recordingMonitor();
+    await runScan(scan(), monitor);
+
+    const total = FILES.length * 2 + 1;
+    expect(seen.map(p => p.phase)).toEqual([
+      ...FILES.map(() => 'parse'),
+      ...FILES.map(() => 'references'),
+      'findings',
+    ]);
+    expect(seen.map(p => p.done)).toEqual([...Array(total).keys()]);
+    expect(seen.every(p => p.total === total)).toBe(true);
+  });
+
+  it('returns the same result as the synchronous detection', async () => {
+    const { monitor } = recordingMonitor();
+    const result = await runScan(scan(), monitor);
+    expect(result).toEqual(detectPublicDeadCodeInFiles(FILES, 'java', resolveProfiles([], {}), [MAIN_DIR], []));
+    expect(result.incomplete).toBeUndefined();
+  });
+
+  it('returns an incomplete result without findings when stopped', async () => {
+    const { monitor, seen } = recordingMonitor(FILES.length + 1);
+    const result = await runScan(scan(), monitor);
+
+    expect(seen[seen.length - 1].phase).toBe('references');
+    expect(result.incomplete).toBe(true);
+    expect(result.totalFindings).toBe(0);
+    expect(result.files).toEqual([]);
+    expect(result.filesAnalyzed).toBe(FILES.length);
+  });
+});
+
+describe('createScanMonitor', () => {
+  const progress: ScanProgress = { phase: 'files', done: 0, total: 1 };
+
+  it('reports progress and continues while the signal is not aborted', async () => {
+    const reported: ScanProgress[] = [];
+    const monitor = createScanMonitor(new AbortController().signal, async p => { reported.push(p); });
+    expect(await monitor.checkpoint(progress)).toBe(false);
+    expect(reported).toEqual([progress]);
+  });
+
+  it('stops once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const monitor = createScanMonitor(controller.signal);
+    expect(await monitor.checkpoint(progress)).toBe(false);
+    controller.abort();
+    expect(await monitor.checkpoint(progress)).toBe(true);
+  });
+
+  it('notices cancellation arriving while a scan runs', async () => {
+    const controller = new AbortController();
+    setImmediate(() => controller.abort());
+    expect(await createScanMonitor(controller.signal).checkpoint(progress)).toBe(true);
+  });
+
+  it('ignores failures to report progress', async () => {
+    const monitor = createScanMonitor(undefined, async () => { throw new Error('closed'); });
+    expect(await monitor.checkpoint(progress)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Cancellation of tool calls through the MCP server: a notifications/cancelled for a running
+ * call stops the scan and no result is sent, but the partial output is recorded as the
+ * report resource of the scanned roots, marked as incomplete.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as path from 'path';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../src/server.js';
+import { clearReports, listResources, readResource, reportUri } from '../src/resources.js';
+import { resolveFilePaths } from '../src/resolveFilePaths.js';
+
+const FIXTURE_ROOT = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures');
+const MAIN_DIR = path.join(FIXTURE_ROOT, 'java', 'public_dead_code', 'test_only', 'main');
+const JAVA_DIR = path.join(FIXTURE_ROOT, 'java');
+const PUBLIC_TOOL = 'detect_public_dead_code_java';
+const DEAD_CODE_TOOL = 'detect_dead_code_java';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('tool call cancellation', () => {
+  let clientTransport: InMemoryTransport;
+  let received: JSONRPCMessage[];
+
+  function send(message: object): Promise<void> {
+    return clientTransport.send({ jsonrpc: '2.0', ...message } as JSONRPCMessage);
+  }
+
+  function callTool(id: number, name: string, args: Record<string, unknown>) {
+    return send({
+      id,
+      method: 'tools/call',
+      params: { name, arguments: args, _meta: { progressToken: id } },
+    });
+  }
+
+  function progressOf(id: number) {
+    return received.filter(m => 'method' in m && m.method === 'notifications/progress' && m.params?.progressToken === id);
+  }
+
+  function responseTo(id: number) {
+    return received.find(m => !('method' in m) && 'id' in m && m.id === id);
+  }
+
+  /** Cancels call `id` once it reports `done` progress */
+  function cancelAt(id: number, done: number) {
+    clientTransport.onmessage = message => {
+      received.push(message);
+      if ('method' in message && message.method === 'notifications/progress'
+        && message.params?.progressToken === id && message.params?.progress === done) {
+        void send({ method: 'notifications/cancelled', params: { requestId: id, reason: 'test' } });
+      }
+    };
+  }
+
+  beforeEach(async () => {
+    clearReports();
+    received = [];
+    const [client, server] = InMemoryTransport.createLinkedPair();
+    clientTransport = client;
+    clientTransport.onmessage = message => {
+      received.push(message);
+    };
+    await createServer().connect(server);
+  });
+
+  afterEach(async () => {
+    await clientTransport.close();
+    clearReports();
+  });
+
+  it('stops the scan without a result and records the report as incomplete', async () => {
+    await callTool(1, PUBLIC_TOOL, { paths: [MAIN_DIR] });
+    while (!responseTo(1)) await delay(10);
+    expect(JSON.parse(readResource(reportUri(PUBLIC_TOOL, MAIN_DIR)).text).incomplete).toBeUndefined();
+
+    cancelAt(2, 0);
+    await callTool(2, PUBLIC_TOOL, { paths: [MAIN_DIR] });
+    await delay(500);
+
+    const files = resolveFilePaths([MAIN_DIR], '.java').resolved;
+    expect(progressOf(2).length).toBeGreaterThan(0);
+    expect(progressOf(2).length).toBeLessThan(files.length * 2 + 1);
+    expect(responseTo(2)).toBeUndefined();
+
+    const uri = reportUri(PUBLIC_TOOL, MAIN_DIR);
+    expect(JSON.parse(readResource(uri).text).incomplete).toBe(true);
+    expect(listResources().find(r => r.uri === uri)?.description).toContain('incomplete');
+  });
+
+  it('records the findings of the files analyzed before the cancellation', async () => {
+    cancelAt(1, 2);
+    await callTool(1, DEAD_CODE_TOOL, { paths: [JAVA_DIR], include: ['DeadCode*.java'] });
+    await delay(500);
+
+    expect(responseTo(1)).toBeUndefined();
+    const report = JSON.parse(readResource(reportUri(DEAD_CODE_TOOL, JAVA_DIR)).text);
+    expect(report.incomplete).toBe(true);
+    expect(report.filesProcessed).toBe(2);
+    expect(report.totalFindings).toBeGreaterThan(0);
+  });
+});
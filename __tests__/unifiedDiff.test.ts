@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { createUnifiedDiff } from '../src/unifiedDiff.js';
+
+describe('createUnifiedDiff', () => {
+  it('returns empty string for identical texts', () => {
+    expect(createUnifiedDiff('A.java', 'a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('produces a single hunk for a removed line', () => {
+    const oldText = 'package p;\n\nimport a.A;\nimport b.B;\n\nclass C {}\n';
+    const newText = 'package p;\n\nimport b.B;\n\nclass C {}\n';
+    expect(createUnifiedDiff('C.java', oldText, newText)).toBe(
+      '--- a/C.java\n' +
+      '+++ b/C.java\n' +
+      '@@ -1,6 +1,5 @@\n' +
+      ' package p;\n' +
+      ' \n' +
+      '-import a.A;\n' +
+      ' import b.B;\n' +
+      ' \n' +
+      ' class C {}\n'
+    );
+  });
+
+  it('limits context lines and splits distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line${i + 1}`);
+    const newLines = oldLines.filter(l => l !== 'line2' && l !== 'line18');
+    const diff = createUnifiedDiff('F.kt', oldLines.join('\n') + '\n', newLines.join('\n') + '\n', 1);
+    const hunkHeaders = diff.split('\n').filter(l => l.startsWith('@@'));
+    expect(hunkHeaders).toEqual(['@@ -1,3 +1,2 @@', '@@ -17,3 +16,2 @@']);
+    expect(diff).toContain('-line2\n');
+    expect(diff).toContain('-line18\n');
+    expect(diff).not.toContain(' line10\n');
+  });
+
+  it('shows reordered lines as deletions and insertions', () => {
+    const diff = createUnifiedDiff('S.java', 'import b.B;\nimport a.A;\n', 'import a.A;\nimport b.B;\n');
+    expect(diff).toContain('-import b.B;');
+    expect(diff).toContain('+import b.B;');
+    expect(diff).toContain(' import a.A;');
+  });
+
+  it('uses the line-before convention for empty ranges', () => {
+    const diff = createUnifiedDiff('E.kt', 'only\n', '');
+    expect(diff).toContain('@@ -1 +0,0 @@');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Baseline files for the detection tools.
+ * A baseline records known findings so that only new ones are reported. Entries are
+ * keyed on file, category, enclosing scope and name — never on line numbers — so they
+ * keep matching when unrelated edits shift code around.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// --- Types ---
+
+export interface BaselineEntry {
+  file: string;            // relative to the baseline file's directory, '/'-separated
+  category: string;
+  enclosingScope: string;
+  name: string;
+}
+
+export interface Baseline {
+  version: 1;
+  entries: BaselineEntry[];
+}
+
+/** The part of a finding that identifies it in a baseline */
+export interface BaselineFinding {
+  category: string;
+  name: string;
+  enclosingScope: string;
+}
+
+export interface BaselineFileResult<F extends BaselineFinding> {
+  file: string;
+  findings: F[];
+  error?: string;
+}
+
+/** The findings a tool run can produce, which its baseline entries are limited to */
+export interface BaselineScope {
+  /** File extension(s) handled by the tool, e.g. ".java" */
+  extension: string | string[];
+  /** Finding categories produced by the tool */
+  categories: readonly string[];
+  /** Absolute paths of all files analyzed in this run */
+  analyzedFiles: string[];
+  /** Absolute input paths; baseline entries for deleted files under them belong to the run */
+  scopeRoots: string[];
+}
+
+export interface ApplyBaselineOptions extends BaselineScope {
+  /** Directory of the baseline file; entry paths are relative to it */
+  baselineDir: string;
+}
+
+export interface ApplyBaselineResult<F extends BaselineFinding> {
+  files: BaselineFileResult<F>[];
+  suppressedFindings: number;
+  fixedEntries: BaselineEntry[];
+}
+
+// --- Keys ---
+
+function toBaselinePath(absolutePath: string, baselineDir: string): string {
+  return path.relative(baselineDir, absolutePath).split(path.sep).join('/');
+}
+
+function entryKey(entry: BaselineEntry): string {
+  return [entry.file, entry.category, entry.enclosingScope, entry.name].join('\u0000');
+}
+
+function toEntry(file: string, finding: BaselineFinding): BaselineEntry {
+  return { file, category: finding.category, enclosingScope: finding.enclosingScope, name: finding.name };
+}
+
+function compareEntries(a: BaselineEntry, b: BaselineEntry): number {
+  return a.file.localeCompare(b.file)
+    || a.category.localeCompare(b.category)
+    || a.enclosingScope.localeCompare(b.enclosingScope)
+    || a.name.localeCompare(b.name);
+}
+
+// --- Scope ---
+
+function isUnderRoot(absolutePath: string, root: string): boolean {
+  return absolutePath === root || absolutePath.startsWith(root + path.sep);
+}
+
+/**
+ * Whether a run could have produced an entry: its category belongs to the tool and its file
+ * was analyzed without errors, or was deleted from one of the scanned paths.
+ */
+function coveredByRun<F extends BaselineFinding>(
+  scope: BaselineScope,
+  baselineDir: string,
+  files: BaselineFileResult<F>[]
+): (entry: BaselineEntry) => boolean {
+  const failedFiles = new Set(files.filter(f => f.error !== undefined).map(f => f.file));
+  const analyzed = new Set(scope.analyzedFiles.filter(f => !failedFiles.has(f)));
+  const categories = new Set(scope.categories);
+  const extensions = ([] as string[]).concat(scope.extension);
+  return entry => {
+    if (!categories.has(entry.category)) return false;
+    const absolutePath = path.resolve(baselineDir, entry.file);
+    if (analyzed.has(absolutePath)) return true;
+    return extensions.includes(path.extname(absolutePath))
+      && scope.scopeRoots.some(root => isUnderRoot(absolutePath, root))
+      && !fs.existsSync(absolutePath);
+  };
+}
+
+// --- Reading and writing ---
+
+/**
+ * Loads a baseline file. Throws if the file cannot be read or is not a valid baseline.
+ */
+export function loadBaseline(baselinePath: string): Baseline {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(baselinePath, 'utf-8');
+  } catch (err) {
+    throw new Error(`Cannot read baseline file ${baselinePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`Invalid JSON in baseline file ${baselinePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const entries = (parsed as Partial<Baseline> | null)?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid baseline file ${baselinePath}: missing "entries" array`);
+  }
+  for (const entry of entries) {
+    const valid = entry !== null && typeof entry === 'object'
+      && typeof entry.file === 'string'
+      && typeof entry.category === 'string'
+      && typeof entry.enclosingScope === 'string'
+      && typeof entry.name === 'string';
+    if (!valid) {
+      throw new Error(`Invalid baseline file ${baselinePath}: every entry needs string file, category, enclosingScope and name`);
+    }
+  }
+  return { version: 1, entries };
+}
+
+/**
+ * Builds a baseline from detection results. Entries are sorted so that the file
+ * diffs cleanly when regenerated.
+ */
+export function createBaseline<F extends BaselineFinding>(
+  files: BaselineFileResult<F>[],
+  baselineDir: string
+): Baseline {
+  const entries: BaselineEntry[] = [];
+  for (const fileResult of files) {
+    const file = toBaselinePath(fileResult.file, baselineDir);
+    for (const finding of fileResult.findings) entries.push(toEntry(file, finding));
+  }
+  return { version: 1, entries: entries.sort(compareEntries) };
+}
+
+/**
+ * Entries of an existing baseline file that a run did not cover, so that the tools for
+ * different languages, and runs on different modules, can record their findings in the
+ * same file. A missing or invalid file has none.
+ */
+function entriesOutsideRun(baselinePath: string, covered: (entry: BaselineEntry) => boolean): BaselineEntry[] {
+  if (!fs.existsSync(baselinePath)) return [];
+  try {
+    return loadBaseline(baselinePath).entries.filter(entry => !covered(entry));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Writes the findings of a run as a baseline file. With a scope, the file's existing entries
+ * that the run did not cover (other languages, tools or paths) are kept; otherwise the file
+ * is replaced. Returns the number of entries written for the findings of the run.
+ */
+export function writeBaseline<F extends BaselineFinding>(
+  baselinePath: string,
+  files: BaselineFileResult<F>[],
+  scope?: BaselineScope
+): number {
+  const baselineDir = path.dirname(baselinePath);
+  const baseline = createBaseline(files, baselineDir);
+  const kept = scope ? entriesOutsideRun(baselinePath, coveredByRun(scope, baselineDir, files)) : [];
+  const merged: Baseline = { version: 1, entries: [...kept, ...baseline.entries].sort(compareEntries) };
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+  fs.writeFileSync(baselinePath, JSON.stringify(merged, null, 2) + '\n', 'utf-8');
+  return baseline.entries.length;
+}
+
+// --- Filtering ---
+
+/**
+ * Removes findings that are recorded in the baseline and reports baseline entries
+ * that no longer match anything.
+ *
+ * Each baseline entry absorbs at most one finding, so a second identical finding in
+ * the same scope is still reported. An entry counts as fixed only when this run could
+ * have seen it: its category belongs to the tool and its file was analyzed without
+ * errors, or was deleted from one of the scanned paths.
+ */
+export function applyBaseline<F extends BaselineFinding>(
+  files: BaselineFileResult<F>[],
+  baseline: Baseline,
+  options: ApplyBaselineOptions
+): ApplyBaselineResult<F> {
+  const remaining = new Map<string, number>();
+  for (const entry of baseline.entries) {
+    const key = entryKey(entry);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  let suppressedFindings = 0;
+  const filtered = files.map(fileResult => {
+    const file = toBaselinePath(fileResult.file, options.baselineDir);
+    const findings = fileResult.findings.filter(finding => {
+      const key = entryKey(toEntry(file, finding));
+      const count = remaining.get(key) ?? 0;
+      if (count === 0) return true;
+      remaining.set(key, count - 1);
+      suppressedFindings++;
+      return false;
+    });
+    return { ...fileResult, findings };
+  });
+
+  const isInScope = coveredByRun(options, options.baselineDir, files);
+
+  const fixedEntries: BaselineEntry[] = [];
+  for (const entry of baseline.entries) {
+    const key = entryKey(entry);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) continue;
+    remaining.set(key, count - 1);
+    if (isInScope(entry)) fixedEntries.push(entry);
+  }
+
+  return { files: filtered, suppressedFindings, fixedEntries };
+}
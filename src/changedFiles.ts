@@ -0,0 +1,162 @@
+/**
+ * Change sets for the `changedSince` tool argument: the files and lines that differ
+ * between a git ref and the working tree of the local repository.
+ */
+
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+
+// --- Types ---
+
+export interface ChangeSet {
+  ref: string;
+  /**
+   * Changed files (real absolute paths) mapped to the changed 1-based line numbers of their
+   * current content; `null` when every line counts as changed (untracked files)
+   */
+  files: Map<string, Set<number> | null>;
+}
+
+// --- Diff parsing ---
+
+function unquoteGitPath(raw: string): string {
+  if (!raw.startsWith('"') || !raw.endsWith('"')) return raw;
+  return raw.slice(1, -1).replace(/\\(["\\])/g, '$1').replace(/\\t/g, '\t').replace(/\\n/g, '\n');
+}
+
+/**
+ * Parses `git diff -U0` output into the changed lines of each added, modified or renamed
+ * file. Paths are repository-relative and `/`-separated. Files that are only renamed map to
+ * an empty set; deleted files are left out.
+ */
+export function parseUnifiedDiff(diff: string): Map<string, Set<number>> {
+  const files = new Map<string, Set<number>>();
+  let current: Set<number> | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      current = undefined;
+    } else if (line.startsWith('rename to ')) {
+      const file = unquoteGitPath(line.substring('rename to '.length));
+      current = files.get(file) ?? new Set();
+      files.set(file, current);
+    } else if (line.startsWith('+++ ')) {
+      const target = unquoteGitPath(line.substring(4).replace(/\t$/, ''));
+      if (target === '/dev/null') {
+        current = undefined;
+        continue;
+      }
+      const file = target.replace(/^b\//, '');
+      current = files.get(file) ?? new Set();
+      files.set(file, current);
+    } else if (line.startsWith('@@ ') && current) {
+      const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (!match) continue;
+      const start = Number(match[1]);
+      const count = match[2] === undefined ? 1 : Number(match[2]);
+      for (let lineNumber = start; lineNumber < start + count; lineNumber++) current.add(lineNumber);
+    }
+  }
+  return files;
+}
+
+// --- Reading the repository ---
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', ['-C', cwd, '-c', 'core.quotePath=false', ...args], {
+      encoding: 'utf-8',
+      maxBuffer: 256 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (err instanceof Error ? err.message : String(err)));
+  }
+}
+
+function realPath(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    return path.resolve(file);
+  }
+}
+
+function repositoryRootOf(inputPath: string): string {
+  const absolutePath = path.resolve(inputPath);
+  const directory = fs.statSync(absolutePath).isDirectory()
+    ? absolutePath
+    : path.dirname(absolutePath);
+  return realPath(git(directory, ['rev-parse', '--show-toplevel']).trim());
+}
+
+/**
+ * Collects the files changed since `ref` in the repositories containing `paths`: committed
+ * and uncommitted modifications, additions and renames, plus untracked files that are not
+ * ignored. Paths that do not exist are skipped. Throws when a path is not inside a git
+ * repository or the ref does not exist.
+ */
+export function readChangeSet(ref: string, paths: string[]): ChangeSet {
+  if (ref.startsWith('-')) throw new Error(`Invalid git ref: ${ref}`);
+
+  const roots = new Set<string>();
+  for (const inputPath of paths) {
+    if (!fs.existsSync(path.resolve(inputPath))) continue;
+    try {
+      roots.add(repositoryRootOf(inputPath));
+    } catch (err) {
+      throw new Error(`${inputPath} is not inside a git repository: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const files = new Map<string, Set<number> | null>();
+  for (const root of roots) {
+    try {
+      git(root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    } catch {
+      throw new Error(`Unknown git ref "${ref}" in ${root}`);
+    }
+
+    const diff = git(root, [
+      'diff', '--no-color', '--no-ext-diff', '-U0', '-M', '--diff-filter=AMR',
+      '--src-prefix=a/', '--dst-prefix=b/', ref, '--',
+    ]);
+    for (const [file, lines] of parseUnifiedDiff(diff)) {
+      files.set(path.join(root, ...file.split('/')), lines);
+    }
+
+    const untracked = git(root, ['ls-files', '--others', '--exclude-standard', '-z']);
+    for (const file of untracked.split('\0').filter(Boolean)) {
+      files.set(path.join(root, ...file.split('/')), null);
+    }
+  }
+  return { ref, files };
+}
+
+// --- Filtering ---
+
+export function isChangedFile(changes: ChangeSet, file: string): boolean {
+  return changes.files.has(realPath(file));
+}
+
+export function isChangedLine(changes: ChangeSet, file: string, line: number): boolean {
+  const lines = changes.files.get(realPath(file));
+  if (lines === undefined) return false;
+  return lines === null || lines.has(line);
+}
+
+/**
+ * Keeps only the findings reported on changed lines. Files without remaining findings are
+ * kept (with no findings) so that file-level errors still surface.
+ */
+export function filterChangedLines<F extends { line: number }, R extends { file: string; findings: F[] }>(
+  files: R[],
+  changes: ChangeSet
+): R[] {
+  return files.map(fileResult => ({
+    ...fileResult,
+    findings: fileResult.findings.filter(finding => isChangedLine(changes, fileResult.file, finding.line)),
+  }));
+}
@@ -0,0 +1,411 @@
+/**
+ * Command-line mode for CI pipelines: runs the tools once, prints the result and exits with
+ * a status that reflects it. The commands call the same tools as MCP clients do.
+ */
+
+import * as path from "path";
+import type { RemovedImport } from "./importCleaner.js";
+import type { SarifFinding, SarifLog } from "./sarif.js";
+
+// --- Types ---
+
+/** Runs a tool by name and returns the text of its result */
+export type ToolRunner = (name: string, args: Record<string, unknown>) => Promise<string>;
+
+export interface CliOutput {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+type Command = "imports" | "dead-code" | "public-dead-code";
+type OptionKind = "flag" | "value" | "list";
+type OptionValues = Map<string, boolean | string | string[]>;
+type Format = "text" | "json" | "sarif";
+type Language = "java" | "kotlin";
+
+/** Nothing to report */
+export const EXIT_CLEAN = 0;
+/** Findings, or imports that were (or in check mode would be) removed */
+export const EXIT_FINDINGS = 1;
+/** Invalid usage, or files or arguments the tools could not process */
+export const EXIT_ERROR = 2;
+
+export const CLI_COMMANDS: readonly string[] = ["imports", "dead-code", "public-dead-code", "help"];
+
+const SOURCE_EXTENSIONS: Record<Language, string> = { java: ".java", kotlin: ".kt" };
+
+const USAGE = `Usage: lang-tools-mcp <command> [options] [paths...]
+
+Commands:
+  imports            Remove unused imports (--check only reports them)
+  dead-code          Report unused private code, parameters and local variables
+  public-dead-code   Report unused public declarations across files
+  help               Show this help
+
+Paths default to the current directory.
+
+Common options:
+  --language <lang>       java or kotlin (default: both); public-dead-code also accepts mixed
+  --include <glob>        Only scan matching files (repeatable)
+  --exclude <glob>        Skip matching files and directories (repeatable)
+  --no-gitignore          Also scan files ignored by git
+  --changed-since <ref>   Only process files changed since a git ref
+  --format <format>       text (default) or json; dead-code commands also accept sarif
+
+imports:
+  --check                 Report unused imports without modifying files
+
+dead-code and public-dead-code:
+  --baseline <file>       Suppress findings recorded in a baseline file
+  --write-baseline        Record the current findings in the baseline file
+  --changed-lines-only    With --changed-since, only report findings on changed lines
+
+public-dead-code:
+  --profile <name>        Activate a profile (repeatable or comma-separated)
+  --project-root <dir>    Discover source sets from Gradle or Maven build files
+  --reference-path <path> Count references from these sources only (repeatable)
+  --reachability          Report code unreachable from entrypoints
+  --report-used-only-in-tests  Report code only used from reference paths
+  --meta-annotations      Match annotatedBy rules through annotations declared in the sources
+
+Exit status: 0 when there is nothing to report or a baseline was written, 1 when findings
+or import changes exist, 2 on usage errors or files that could not be processed.`;
+
+const COMMON_OPTIONS: Record<string, OptionKind> = {
+  "language": "value",
+  "include": "list",
+  "exclude": "list",
+  "no-gitignore": "flag",
+  "changed-since": "value",
+  "format": "value",
+};
+
+const DETECTION_OPTIONS: Record<string, OptionKind> = {
+  "baseline": "value",
+  "write-baseline": "flag",
+  "changed-lines-only": "flag",
+};
+
+const COMMAND_OPTIONS: Record<Command, Record<string, OptionKind>> = {
+  "imports": { ...COMMON_OPTIONS, "check": "flag" },
+  "dead-code": { ...COMMON_OPTIONS, ...DETECTION_OPTIONS },
+  "public-dead-code": {
+    ...COMMON_OPTIONS,
+    ...DETECTION_OPTIONS,
+    "profile": "list",
+    "project-root": "value",
+    "reference-path": "list",
+    "reachability": "flag",
+    "report-used-only-in-tests": "flag",
+    "meta-annotations": "flag",
+  },
+};
+
+// --- Argument parsing ---
+
+/** Splits arguments into options (`--name value`, `--name=value`, flags) and paths */
+function parseArguments(command: Command, args: string[]): { options: OptionValues; paths: string[] } {
+  const spec = COMMAND_OPTIONS[command];
+  const options: OptionValues = new Map();
+  const paths: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      paths.push(arg);
+      continue;
+    }
+    const separator = arg.indexOf("=");
+    const name = arg.substring(2, separator === -1 ? undefined : separator);
+    const kind = spec[name];
+    if (kind === undefined) throw new Error(`Unknown option for ${command}: --${name}`);
+
+    if (kind === "flag") {
+      if (separator !== -1) throw new Error(`Option --${name} does not take a value`);
+      options.set(name, true);
+      continue;
+    }
+    const value = separator !== -1 ? arg.substring(separator + 1) : args[++i];
+    if (value === undefined || value === "") throw new Error(`Missing value for --${name}`);
+    if (kind === "value") {
+      options.set(name, value);
+    } else {
+      options.set(name, [...(options.get(name) as string[] | undefined ?? []), value]);
+    }
+  }
+  return { options, paths };
+}
+
+function stringOption(options: OptionValues, name: string): string | undefined {
+  return options.get(name) as string | undefined;
+}
+
+function listOption(options: OptionValues, name: string): string[] | undefined {
+  return options.get(name) as string[] | undefined;
+}
+
+function parseFormat(options: OptionValues, allowed: Format[]): Format {
+  const format = stringOption(options, "format") ?? "text";
+  if (!(allowed as string[]).includes(format)) {
+    throw new Error(`Invalid --format: ${format}. Expected ${allowed.join(", ")}`);
+  }
+  return format as Format;
+}
+
+function parseLanguages(options: OptionValues): Language[] {
+  const language = stringOption(options, "language");
+  if (language === undefined) return ["java", "kotlin"];
+  if (language !== "java" && language !== "kotlin") {
+    throw new Error(`Invalid --language: ${language}. Expected java or kotlin`);
+  }
+  return [language];
+}
+
+/** The paths for a language's tool: its own files and directories, but not the other language's files */
+function languagePaths(language: Language, paths: string[]): string[] {
+  return paths.filter(p => {
+    const extension = path.extname(p);
+    return extension === SOURCE_EXTENSIONS[language] || !Object.values(SOURCE_EXTENSIONS).includes(extension);
+  });
+}
+
+/** Tool arguments shared by every command */
+function commonArguments(options: OptionValues, paths: string[]): Record<string, unknown> {
+  return {
+    ...(paths.length > 0 && { paths }),
+    ...(options.has("include") && { include: listOption(options, "include") }),
+    ...(options.has("exclude") && { exclude: listOption(options, "exclude") }),
+    ...(options.has("no-gitignore") && { respectGitignore: false }),
+    ...(options.has("changed-since") && { changedSince: stringOption(options, "changed-since") }),
+  };
+}
+
+function detectionArguments(options: OptionValues): Record<string, unknown> {
+  return {
+    ...(options.has("baseline") && { baselinePath: stringOption(options, "baseline") }),
+    ...(options.has("write-baseline") && { writeBaseline: true }),
+    ...(options.has("changed-lines-only") && { changedLinesOnly: true }),
+  };
+}
+
+// --- Result handling ---
+
+/** The parts of tool results (JSON or SARIF) that the CLI reads */
+interface ToolResult {
+  status?: string;
+  error?: string;
+  errors?: string[];
+  totalFindings?: number;
+  files?: Array<{
+    file: string;
+    error?: string;
+    findings?: SarifFinding[];
+    removedImports?: RemovedImport[];
+    resorted?: boolean;
+  }>;
+  runs?: SarifLog["runs"];
+}
+
+interface ToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+interface ToolOutcome {
+  tool: string;
+  result: ToolResult;
+}
+
+interface Summary {
+  /** Findings, or imports removed or to be removed */
+  count: number;
+  errors: string[];
+}
+
+async function runTools(runTool: ToolRunner, calls: ToolCall[]): Promise<ToolOutcome[]> {
+  const outcomes: ToolOutcome[] = [];
+  for (const { tool, args } of calls) {
+    outcomes.push({ tool, result: JSON.parse(await runTool(tool, args)) });
+  }
+  return outcomes;
+}
+
+/**
+ * Calls `<toolPrefix><language>` for each selected language with the paths its tool can
+ * process. A language is skipped when every path is a file of the other language.
+ */
+function languageCalls(options: OptionValues, paths: string[], toolPrefix: string, args: Record<string, unknown>): ToolCall[] {
+  const requested = paths.length > 0 ? paths : ["."];
+  return parseLanguages(options).flatMap(language => {
+    const toolPaths = languagePaths(language, requested);
+    if (toolPaths.length === 0) return [];
+    return [{ tool: `${toolPrefix}${language}`, args: { ...commonArguments(options, toolPaths), ...args } }];
+  });
+}
+
+/** Errors of a tool result: a rejected call, unprocessable files, or failed SARIF runs */
+function resultErrors(result: ToolResult): string[] {
+  if (result.status === "NOK" && result.error !== undefined) return [result.error];
+  if (result.runs) {
+    return result.runs.flatMap(run => run.invocations.flatMap(invocation =>
+      invocation.toolExecutionNotifications.map(notification =>
+        `${notification.locations[0].physicalLocation.artifactLocation.uri}: ${notification.message.text}`)));
+  }
+  return [
+    ...(result.errors ?? []),
+    ...(result.files ?? []).filter(f => f.error !== undefined).map(f => `${f.file}: ${f.error}`),
+  ];
+}
+
+function findingCount(result: ToolResult): number {
+  if (result.runs) return result.runs.reduce((sum, run) => sum + run.results.length, 0);
+  return result.totalFindings ?? 0;
+}
+
+/** JSON output: the tool result itself, or results keyed by tool when several tools ran */
+function jsonOutput(outcomes: ToolOutcome[]): string {
+  const output = outcomes.length === 1
+    ? outcomes[0].result
+    : Object.fromEntries(outcomes.map(o => [o.tool, o.result]));
+  return JSON.stringify(output, null, 2);
+}
+
+/** SARIF output: one log with a run per tool */
+function sarifOutput(outcomes: ToolOutcome[]): string {
+  const logs = outcomes.map(o => o.result).filter(result => result.runs !== undefined);
+  if (logs.length === 0) return "";
+  return JSON.stringify({ ...logs[0], runs: logs.flatMap(log => log.runs!) }, null, 2);
+}
+
+function findingLines(result: ToolResult): string[] {
+  return (result.files ?? []).flatMap(file => (file.findings ?? []).map(finding =>
+    `${file.file}:${finding.line}:${finding.column + 1}: ${finding.category}: ${finding.message}`));
+}
+
+// --- Commands ---
+
+async function importsCommand(args: string[], runTool: ToolRunner, output: CliOutput): Promise<Summary> {
+  const { options, paths } = parseArguments("imports", args);
+  const format = parseFormat(options, ["text", "json"]);
+  const check = options.has("check");
+  const outcomes = await runTools(runTool, languageCalls(options, paths, "cleanup_unused_imports_", {
+    ...(check && { dryRun: true }),
+  }));
+
+  const reports = outcomes.flatMap(o => o.result.files ?? []);
+  const removed = reports.reduce((sum, report) => sum + (report.removedImports ?? []).length, 0);
+  const changedFiles = reports.filter(report => (report.removedImports ?? []).length > 0 || report.resorted);
+
+  if (format === "json") {
+    output.stdout(jsonOutput(outcomes));
+  } else {
+    for (const report of reports) {
+      for (const removedImport of report.removedImports ?? []) {
+        output.stdout(`${report.file}:${removedImport.line}: unused import ${removedImport.fqn}`);
+      }
+      if (report.resorted) output.stdout(`${report.file}: imports ${check ? "not sorted" : "sorted"}`);
+    }
+    output.stdout(check
+      ? `${removed} unused imports in ${changedFiles.length} files`
+      : `Removed ${removed} unused imports, changed ${changedFiles.length} files`);
+  }
+  return { count: changedFiles.length, errors: outcomes.flatMap(o => resultErrors(o.result)) };
+}
+
+async function deadCodeCommand(args: string[], runTool: ToolRunner, output: CliOutput): Promise<Summary> {
+  const { options, paths } = parseArguments("dead-code", args);
+  const format = parseFormat(options, ["text", "json", "sarif"]);
+  const outcomes = await runTools(runTool, languageCalls(options, paths, "detect_dead_code_", {
+    ...detectionArguments(options),
+    ...(format === "sarif" && { outputFormat: "sarif" }),
+  }));
+  return reportFindings(outcomes, format, output, options.has("write-baseline"));
+}
+
+async function publicDeadCodeCommand(args: string[], runTool: ToolRunner, output: CliOutput): Promise<Summary> {
+  const { options, paths } = parseArguments("public-dead-code", args);
+  const format = parseFormat(options, ["text", "json", "sarif"]);
+  const language = stringOption(options, "language") ?? "mixed";
+  if (language !== "java" && language !== "kotlin" && language !== "mixed") {
+    throw new Error(`Invalid --language: ${language}. Expected java, kotlin or mixed`);
+  }
+  const projectRoot = stringOption(options, "project-root");
+  const profiles = listOption(options, "profile")?.flatMap(value => value.split(",")).map(p => p.trim()).filter(Boolean);
+  const tool = language === "mixed" ? "detect_public_dead_code" : `detect_public_dead_code_${language}`;
+
+  const toolArguments = {
+    ...commonArguments(options, paths.length > 0 || projectRoot !== undefined ? paths : ["."]),
+    ...detectionArguments(options),
+    ...(projectRoot !== undefined && { projectRoot }),
+    ...(profiles && { activeProfiles: profiles }),
+    ...(options.has("reference-path") && { referencePaths: listOption(options, "reference-path") }),
+    ...(options.has("reachability") && { reachability: true }),
+    ...(options.has("report-used-only-in-tests") && { reportUsedOnlyInTests: true }),
+    ...(options.has("meta-annotations") && { metaAnnotations: true }),
+    ...(format === "sarif" && { outputFormat: "sarif" }),
+  };
+  const outcomes = await runTools(runTool, [{ tool, args: toolArguments }]);
+  return reportFindings(outcomes, format, output, options.has("write-baseline"));
+}
+
+/** Prints the findings; findings recorded in a baseline being written do not count as such */
+function reportFindings(outcomes: ToolOutcome[], format: Format, output: CliOutput, writingBaseline: boolean): Summary {
+  const count = outcomes.reduce((sum, o) => sum + findingCount(o.result), 0);
+  if (format === "json") {
+    output.stdout(jsonOutput(outcomes));
+  } else if (format === "sarif") {
+    const sarif = sarifOutput(outcomes);
+    if (sarif) output.stdout(sarif);
+  } else {
+    for (const o of outcomes) for (const line of findingLines(o.result)) output.stdout(line);
+    output.stdout(writingBaseline ? `${count} findings written to the baseline` : `${count} findings`);
+  }
+  return { count: writingBaseline ? 0 : count, errors: outcomes.flatMap(o => resultErrors(o.result)) };
+}
+
+// --- Entry point ---
+
+const defaultOutput: CliOutput = {
+  stdout: text => process.stdout.write(text + "\n"),
+  stderr: text => process.stderr.write(text + "\n"),
+};
+
+/**
+ * Whether the arguments select CLI mode: server options start with "--", so any other first
+ * argument is a command, and a mistyped one is reported instead of starting the server.
+ */
+export function isCliInvocation(args: string[]): boolean {
+  return args.length > 0 && !args[0].startsWith("-");
+}
+
+/**
+ * Runs a CLI command (`args[0]` is the command name) and returns the exit status. Errors are
+ * printed to stderr; results to stdout.
+ */
+export async function runCli(args: string[], runTool: ToolRunner, output: CliOutput = defaultOutput): Promise<number> {
+  const [command, ...rest] = args;
+  if (!CLI_COMMANDS.includes(command)) {
+    output.stderr(`Error: Unknown command: ${command}`);
+    output.stderr(USAGE);
+    return EXIT_ERROR;
+  }
+  if (command === "help" || rest.includes("--help")) {
+    output.stdout(USAGE);
+    return EXIT_CLEAN;
+  }
+
+  let summary: Summary;
+  try {
+    if (command === "imports") summary = await importsCommand(rest, runTool, output);
+    else if (command === "dead-code") summary = await deadCodeCommand(rest, runTool, output);
+    else summary = await publicDeadCodeCommand(rest, runTool, output);
+  } catch (error) {
+    output.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_ERROR;
+  }
+
+  // Both languages report the same unresolvable paths
+  for (const error of new Set(summary.errors)) output.stderr(`Error: ${error}`);
+  if (summary.errors.length > 0) return EXIT_ERROR;
+  return summary.count > 0 ? EXIT_FINDINGS : EXIT_CLEAN;
+}
@@ -0,0 +1,245 @@
+/**
+ * Parsers for config files: JSON with comments and trailing commas, and YAML. Both report
+ * syntax errors with their line and column and can locate any value of the parsed config,
+ * so validation errors can point at the line they are about.
+ */
+
+import { LineCounter, isMap, isNode, isScalar, isSeq, parseDocument } from 'yaml';
+import type { ConfigPath } from './configValidation.js';
+
+export type ConfigFormat = 'json' | 'yaml';
+
+/** 1-based line and column */
+export interface Position {
+  line: number;
+  column: number;
+}
+
+export interface ParsedConfig {
+  value: unknown;
+  /** Where the value at `path` starts; for object members, where its key starts */
+  locate(path: ConfigPath): Position | undefined;
+}
+
+/** `.yaml` and `.yml` files are YAML; everything else is JSON with comments */
+export function configFormat(filePath: string): ConfigFormat {
+  return /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+}
+
+// --- JSON with comments ---
+
+/** Maps offsets to positions through the offsets at which lines start */
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function positionAt(starts: number[], offset: number): Position {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (starts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return { line: low + 1, column: offset - starts[low] + 1 };
+}
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/** Recursive descent JSON parser accepting comments and trailing commas, recording offsets */
+class JsoncParser {
+  private index = 0;
+  private readonly starts: number[];
+  readonly offsets = new Map<string, number>();
+
+  constructor(private readonly text: string) {
+    this.starts = lineStarts(text);
+  }
+
+  parse(): unknown {
+    this.skip();
+    const value = this.value([]);
+    this.skip();
+    if (this.index < this.text.length) this.fail(`unexpected ${this.describeNext()} after the end of the config`);
+    return value;
+  }
+
+  position(offset: number): Position {
+    return positionAt(this.starts, offset);
+  }
+
+  private fail(message: string, offset = this.index): never {
+    const { line, column } = this.position(offset);
+    throw new Error(`malformed JSON at line ${line}, column ${column} — ${message}`);
+  }
+
+  private describeNext(): string {
+    return this.index < this.text.length ? `character ${JSON.stringify(this.text[this.index])}` : 'end of file';
+  }
+
+  /** Skips whitespace, `// line` and `/* block *\/` comments */
+  private skip(): void {
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\uFEFF') {
+        this.index++;
+      } else if (this.text.startsWith('//', this.index)) {
+        const end = this.text.indexOf('\n', this.index);
+        this.index = end === -1 ? this.text.length : end + 1;
+      } else if (this.text.startsWith('/*', this.index)) {
+        const end = this.text.indexOf('*/', this.index + 2);
+        if (end === -1) this.fail('unterminated comment');
+        this.index = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private value(path: ConfigPath): unknown {
+    this.offsets.set(JSON.stringify(path), this.index);
+    const char = this.text[this.index];
+    if (char === '{') return this.object(path);
+    if (char === '[') return this.array(path);
+    if (char === '"') return this.string();
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.text.startsWith(literal, this.index)) {
+        this.index += literal.length;
+        return value;
+      }
+    }
+    NUMBER.lastIndex = this.index;
+    const number = NUMBER.exec(this.text);
+    if (number) {
+      this.index += number[0].length;
+      return Number(number[0]);
+    }
+    return this.fail(`expected a value, found ${this.describeNext()}`);
+  }
+
+  private object(path: ConfigPath): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.index++;
+    this.skip();
+    while (this.text[this.index] !== '}') {
+      if (this.text[this.index] !== '"') this.fail(`expected a string key or "}", found ${this.describeNext()}`);
+      const keyOffset = this.index;
+      const key = this.string();
+      this.skip();
+      if (this.text[this.index] !== ':') this.fail(`expected ":" after key "${key}", found ${this.describeNext()}`);
+      this.index++;
+      this.skip();
+      const memberPath = [...path, key];
+      const value = this.value(memberPath);
+      this.offsets.set(JSON.stringify(memberPath), keyOffset);
+      Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+      this.skip();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        this.skip();
+      } else if (this.text[this.index] !== '}') {
+        this.fail(`expected "," or "}", found ${this.describeNext()}`);
+      }
+    }
+    this.index++;
+    return result;
+  }
+
+  private array(path: ConfigPath): unknown[] {
+    const result: unknown[] = [];
+    this.index++;
+    this.skip();
+    while (this.text[this.index] !== ']') {
+      if (this.index >= this.text.length) this.fail('expected a value or "]", found end of file');
+      result.push(this.value([...path, result.length]));
+      this.skip();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        this.skip();
+      } else if (this.text[this.index] !== ']') {
+        this.fail(`expected "," or "]", found ${this.describeNext()}`);
+      }
+    }
+    this.index++;
+    return result;
+  }
+
+  private string(): string {
+    const start = this.index;
+    let end = start + 1;
+    while (end < this.text.length && this.text[end] !== '"' && this.text[end] !== '\n') {
+      end += this.text[end] === '\\' ? 2 : 1;
+    }
+    if (this.text[end] !== '"') this.fail('unterminated string', start);
+    try {
+      this.index = end + 1;
+      return JSON.parse(this.text.slice(start, end + 1)) as string;
+    } catch {
+      return this.fail('invalid string escape or control character', start);
+    }
+  }
+}
+
+function parseJsonc(text: string): ParsedConfig {
+  const parser = new JsoncParser(text);
+  const value = parser.parse();
+  return {
+    value,
+    locate: path => {
+      const offset = parser.offsets.get(JSON.stringify(path));
+      return offset === undefined ? undefined : parser.position(offset);
+    },
+  };
+}
+
+// --- YAML ---
+
+function parseYaml(text: string): ParsedConfig {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, prettyErrors: false });
+  const position = (offset: number): Position => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  const [error] = document.errors;
+  if (error) {
+    const { line, column } = position(error.pos[0]);
+    throw new Error(`malformed YAML at line ${line}, column ${column} — ${error.message.split('\n')[0]}`);
+  }
+
+  return {
+    // A file holding nothing but comments is an empty config
+    value: document.contents === null ? {} : document.toJS(),
+    locate: path => {
+      let node: unknown = document.contents;
+      let offset = isNode(node) ? node.range?.[0] : undefined;
+      for (const segment of path) {
+        if (isMap(node)) {
+          const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === String(segment));
+          if (!pair || !isNode(pair.key)) return undefined;
+          offset = pair.key.range?.[0];
+          node = pair.value;
+        } else if (isSeq(node) && typeof segment === 'number') {
+          node = node.items[segment];
+          offset = isNode(node) ? node.range?.[0] : undefined;
+        } else {
+          return undefined;
+        }
+      }
+      return offset === undefined ? undefined : position(offset);
+    },
+  };
+}
+
+/**
+ * Parses the text of a config file.
+ * Throws an error naming the line and column of the first syntax error.
+ */
+export function parseConfigText(text: string, format: ConfigFormat): ParsedConfig {
+  return format === 'yaml' ? parseYaml(text) : parseJsonc(text);
+}
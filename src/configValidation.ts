@@ -0,0 +1,268 @@
+/**
+ * Structural validation of lang-tools config files. Mirrors lang-tools.schema.json (shipped
+ * for editor completion) and reports each problem with its JSON path, naming unknown keys
+ * together with the closest valid one.
+ */
+
+/** Keys and indices leading from the root to a value, e.g. ['profiles', 0, 'name'] */
+export type ConfigPath = Array<string | number>;
+
+export interface ConfigIssue {
+  /** The offending value, or the unknown key */
+  path: ConfigPath;
+  /** Description starting with the JSON path, e.g. `$.profiles[0]: unknown key "nme"` */
+  message: string;
+}
+
+/** JSON path notation: `$` for the root, `.key` for members and `[i]` for elements */
+export function formatPath(path: ConfigPath): string {
+  return '$' + path.map(segment => (typeof segment === 'number' ? `[${segment}]` : `.${segment}`)).join('');
+}
+
+// --- Known keys ---
+
+export const CONFIG_KEYS = [
+  '$schema',
+  'activeProfiles',
+  'profiles',
+  'sortImports',
+  'importLayout',
+  'exclude',
+  'respectGitignore',
+] as const;
+
+export const PROFILE_KEYS = ['name', 'keepExternalOverrides', 'entrypoints'] as const;
+
+export const ENTRYPOINT_KEYS = ['name', 'rules'] as const;
+
+/** Condition types; every one takes a string except serviceDiscovery, which takes `true` */
+export const CONDITION_TYPES = [
+  'annotatedBy',
+  'implementsInterfaceFromPackage',
+  'implementsInterface',
+  'extendsClass',
+  'extendsClassFromPackage',
+  'overridesMethodFromInterface',
+  'namePattern',
+  'packagePattern',
+  'serviceDiscovery',
+] as const;
+
+/** Conditions combining other conditions: anyOf and allOf take a list, not takes one */
+export const CONDITION_COMBINATORS = ['anyOf', 'allOf', 'not'] as const;
+
+const CONDITION_KEYS: readonly string[] = [...CONDITION_TYPES, ...CONDITION_COMBINATORS];
+
+export const IMPORT_LAYOUT_KEYS = [
+  'preset',
+  'groups',
+  'blankLinesBetweenGroups',
+  'staticImports',
+  'aliasImports',
+] as const;
+
+export const IMPORT_LAYOUT_PRESETS = ['lexicographic', 'intellij', 'google', 'ktlint'] as const;
+
+// --- Suggestions ---
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/** The candidate closest to `key`, when it is close enough to be a likely typo */
+export function closestMatch(key: string, candidates: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 3)) ? best : undefined;
+}
+
+function suggestion(key: string, candidates: readonly string[]): string {
+  const match = closestMatch(key, candidates);
+  return match === undefined ? ` Expected one of: ${candidates.join(', ')}` : ` Did you mean "${match}"?`;
+}
+
+// --- Validation ---
+
+class Issues {
+  readonly list: ConfigIssue[] = [];
+
+  add(path: ConfigPath, message: string, at: ConfigPath = path): void {
+    this.list.push({ path, message: `${formatPath(at)}: ${message}` });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (value === '') return 'an empty string';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function checkObject(value: unknown, at: ConfigPath, keys: readonly string[], issues: Issues): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    issues.add(at, `expected an object, found ${describe(value)}`);
+    return false;
+  }
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) issues.add([...at, key], `unknown key "${key}".${suggestion(key, keys)}`, at);
+  }
+  return true;
+}
+
+function checkRequired(value: Record<string, unknown>, at: ConfigPath, keys: string[], issues: Issues): void {
+  for (const key of keys) {
+    if (!(key in value)) issues.add(at, `missing required key "${key}"`);
+  }
+}
+
+function checkBoolean(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (value !== undefined && typeof value !== 'boolean') issues.add(at, `expected a boolean, found ${describe(value)}`);
+}
+
+function checkString(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (value !== undefined && typeof value !== 'string') issues.add(at, `expected a string, found ${describe(value)}`);
+}
+
+function checkEnum(value: unknown, at: ConfigPath, allowed: readonly string[], issues: Issues): void {
+  if (value === undefined) return;
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    const found = typeof value === 'string' ? `"${value}".${suggestion(value, allowed)}` : `${describe(value)}. Expected one of: ${allowed.join(', ')}`;
+    issues.add(at, `invalid value ${found}`);
+  }
+}
+
+function checkStringArray(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.add(at, `expected an array of strings, found ${describe(value)}`);
+    return;
+  }
+  value.forEach((item, i) => checkString(item, [...at, i], issues));
+}
+
+function checkArray(value: unknown, at: ConfigPath, issues: Issues, checkItem: (item: unknown, at: ConfigPath) => void): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.add(at, `expected an array, found ${describe(value)}`);
+    return;
+  }
+  value.forEach((item, i) => checkItem(item, [...at, i]));
+}
+
+function checkCondition(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.add(at, `expected a condition object, found ${describe(value)}`);
+    return;
+  }
+  const keys = Object.keys(value);
+  if (keys.length !== 1) {
+    issues.add(at, keys.length === 0
+      ? `empty condition. Expected one of: ${CONDITION_KEYS.join(', ')}`
+      : `a condition must have exactly one key, found ${keys.map(k => `"${k}"`).join(', ')}. ` +
+        `Split it into separate conditions, or combine them with allOf or anyOf`);
+    return;
+  }
+
+  const [type] = keys;
+  if (!CONDITION_KEYS.includes(type)) {
+    issues.add([...at, type], `unknown condition type "${type}".${suggestion(type, CONDITION_KEYS)}`, at);
+    return;
+  }
+  const conditionValue = value[type];
+  if (type === 'anyOf' || type === 'allOf') {
+    if (Array.isArray(conditionValue) && conditionValue.length === 0) {
+      issues.add([...at, type], 'expected at least one condition');
+    }
+    checkArray(conditionValue, [...at, type], issues, (item, itemAt) => checkCondition(item, itemAt, issues));
+  } else if (type === 'not') {
+    checkCondition(conditionValue, [...at, type], issues);
+  } else if (type === 'serviceDiscovery') {
+    if (conditionValue !== true) issues.add([...at, type], `expected true, found ${JSON.stringify(conditionValue)}`);
+  } else if (typeof conditionValue !== 'string' || conditionValue === '') {
+    issues.add([...at, type], `expected a non-empty string, found ${describe(conditionValue)}`);
+  }
+}
+
+function checkEntrypoint(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (!checkObject(value, at, ENTRYPOINT_KEYS, issues)) return;
+  checkRequired(value, at, ['name', 'rules'], issues);
+  checkString(value.name, [...at, 'name'], issues);
+  checkArray(value.rules, [...at, 'rules'], issues, (item, itemAt) => checkCondition(item, itemAt, issues));
+}
+
+function checkProfile(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (!checkObject(value, at, PROFILE_KEYS, issues)) return;
+  checkRequired(value, at, ['name', 'entrypoints'], issues);
+  checkString(value.name, [...at, 'name'], issues);
+  checkBoolean(value.keepExternalOverrides, [...at, 'keepExternalOverrides'], issues);
+  checkArray(value.entrypoints, [...at, 'entrypoints'], issues, (item, itemAt) => checkEntrypoint(item, itemAt, issues));
+}
+
+/** A preset name or a layout object */
+function checkImportLayoutSetting(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (typeof value === 'string') {
+    checkEnum(value, at, IMPORT_LAYOUT_PRESETS, issues);
+    return;
+  }
+  if (!checkObject(value, at, IMPORT_LAYOUT_KEYS, issues)) return;
+  checkEnum(value.preset, [...at, 'preset'], IMPORT_LAYOUT_PRESETS, issues);
+  checkStringArray(value.groups, [...at, 'groups'], issues);
+  checkBoolean(value.blankLinesBetweenGroups, [...at, 'blankLinesBetweenGroups'], issues);
+  checkEnum(value.staticImports, [...at, 'staticImports'], ['first', 'last'], issues);
+  checkEnum(value.aliasImports, [...at, 'aliasImports'], ['last', 'sorted'], issues);
+}
+
+/** A setting for both languages, or an object with per-language settings */
+function checkImportLayout(value: unknown, at: ConfigPath, issues: Issues): void {
+  if (value === undefined) return;
+  if (isObject(value) && ('java' in value || 'kotlin' in value)) {
+    if (!checkObject(value, at, ['java', 'kotlin'], issues)) return;
+    if (value.java !== undefined) checkImportLayoutSetting(value.java, [...at, 'java'], issues);
+    if (value.kotlin !== undefined) checkImportLayoutSetting(value.kotlin, [...at, 'kotlin'], issues);
+    return;
+  }
+  checkImportLayoutSetting(value, at, issues);
+}
+
+/**
+ * Validates a parsed config file and returns one issue per problem, each message starting
+ * with the JSON path of the offending value (`$` is the root). Returns [] for a valid config.
+ */
+export function validateConfig(config: unknown): ConfigIssue[] {
+  const issues = new Issues();
+  if (!checkObject(config, [], CONFIG_KEYS, issues)) return issues.list;
+
+  checkString(config.$schema, ['$schema'], issues);
+  checkStringArray(config.activeProfiles, ['activeProfiles'], issues);
+  checkArray(config.profiles, ['profiles'], issues, (item, at) => checkProfile(item, at, issues));
+  checkBoolean(config.sortImports, ['sortImports'], issues);
+  checkImportLayout(config.importLayout, ['importLayout'], issues);
+  checkStringArray(config.exclude, ['exclude'], issues);
+  checkBoolean(config.respectGitignore, ['respectGitignore'], issues);
+  return issues.list;
+}
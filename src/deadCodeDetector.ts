@@ -4,13 +4,16 @@
  */
 
 import Parser from "tree-sitter";
-import * as fs from "fs";
-import { parseJava, parseKotlin } from "./importCleaner.js";
+import { parseSourceFile } from "./parseCache.js";
 
 // --- Types ---
 
 export type DeadCodeCategory = 'unused_parameter' | 'unused_local_variable' | 'unused_field' | 'unused_private_method';
 
+export const DEAD_CODE_CATEGORIES: DeadCodeCategory[] = [
+  'unused_parameter', 'unused_local_variable', 'unused_field', 'unused_private_method',
+];
+
 export interface DeadCodeFinding {
   category: DeadCodeCategory;
   name: string;
@@ -45,6 +48,7 @@ export interface LanguageConfig {
   privateKeyword: string;
   methodInvocationTypes: string[];
   methodReferenceTypes: string[];
+  suppressAnnotation: string;
 }
 
 export const JAVA_CONFIG: LanguageConfig = {
@@ -64,6 +68,7 @@ export const JAVA_CONFIG: LanguageConfig = {
   privateKeyword: 'private',
   methodInvocationTypes: ['method_invocation'],
   methodReferenceTypes: ['method_reference'],
+  suppressAnnotation: 'SuppressWarnings',
 };
 
 export const KOTLIN_CONFIG: LanguageConfig = {
@@ -83,6 +88,7 @@ export const KOTLIN_CONFIG: LanguageConfig = {
   privateKeyword: 'private',
   methodInvocationTypes: ['call_expression'],
   methodReferenceTypes: ['callable_reference'],
+  suppressAnnotation: 'Suppress',
 };
 
 // --- Helpers ---
@@ -875,6 +881,126 @@ export function detectUnusedPrivateMethods(
   return findings;
 }
 
+// --- Suppression ---
+
+/** `@SuppressWarnings` values understood for Java: javac, IntelliJ and PMD names. */
+const JAVA_SUPPRESSION_IDS: Record<string, DeadCodeCategory[]> = {
+  'all': DEAD_CODE_CATEGORIES,
+  'unused': DEAD_CODE_CATEGORIES,
+  'UnusedDeclaration': DEAD_CODE_CATEGORIES,
+  'UnusedParameters': ['unused_parameter'],
+  'PMD.UnusedFormalParameter': ['unused_parameter'],
+  'PMD.UnusedLocalVariable': ['unused_local_variable'],
+  'PMD.UnusedPrivateField': ['unused_field'],
+  'PMD.UnusedPrivateMethod': ['unused_private_method'],
+};
+
+/** `@Suppress` values understood for Kotlin: compiler diagnostics, IntelliJ and detekt names. */
+const KOTLIN_SUPPRESSION_IDS: Record<string, DeadCodeCategory[]> = {
+  'unused': DEAD_CODE_CATEGORIES,
+  'UNUSED_PARAMETER': ['unused_parameter'],
+  'UNUSED_ANONYMOUS_PARAMETER': ['unused_parameter'],
+  'UNUSED_VARIABLE': ['unused_local_variable'],
+  'UnusedParameter': ['unused_parameter'],
+  'UnusedVariable': ['unused_local_variable'],
+  'UnusedPrivateProperty': ['unused_field'],
+  'UnusedPrivateMember': ['unused_field', 'unused_private_method'],
+};
+
+export interface SuppressionScope {
+  startRow: number;
+  startColumn: number;
+  endRow: number;
+  endColumn: number;
+  categories: Set<DeadCodeCategory>;
+}
+
+/** Returns the annotation's simple name, e.g. "SuppressWarnings" for "@java.lang.SuppressWarnings". */
+function getAnnotationSimpleName(annotation: Parser.SyntaxNode, sourceCode: string, config: LanguageConfig): string | null {
+  const nameNode = config.language === 'java'
+    ? annotation.childForFieldName('name')
+    : annotation.descendantsOfType('user_type')[0];
+  if (!nameNode) return null;
+  const text = getSourceText(nameNode, sourceCode);
+  return text.substring(text.lastIndexOf('.') + 1);
+}
+
+function getSuppressedCategories(annotation: Parser.SyntaxNode, sourceCode: string, config: LanguageConfig): Set<DeadCodeCategory> {
+  const categories = new Set<DeadCodeCategory>();
+  if (getAnnotationSimpleName(annotation, sourceCode, config) !== config.suppressAnnotation) return categories;
+
+  const ids = config.language === 'java' ? JAVA_SUPPRESSION_IDS : KOTLIN_SUPPRESSION_IDS;
+  for (const literal of annotation.descendantsOfType('string_literal')) {
+    const value = getSourceText(literal, sourceCode).replace(/^"|"$/g, '');
+    for (const category of ids[value] ?? []) categories.add(category);
+  }
+  return categories;
+}
+
+/** Finds the node an annotation applies to: the declaration owning its modifiers, or the whole file. */
+function getAnnotatedNode(annotation: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  if (annotation.type === 'file_annotation') return annotation.parent;
+  const container = annotation.parent;
+  if (!container) return null;
+  if (container.type === 'modifiers') return container.parent;
+  // Kotlin function parameters: parameter_modifiers is a sibling preceding the parameter
+  if (container.type === 'parameter_modifiers') return container.nextNamedSibling;
+  return null;
+}
+
+/**
+ * Collects the source ranges covered by `@SuppressWarnings` (Java) or `@Suppress` /
+ * `@file:Suppress` (Kotlin) annotations, with the dead code categories each one silences.
+ * A suppression on a class or method also covers everything declared inside it.
+ */
+export function collectSuppressionScopes(
+  tree: Parser.Tree,
+  sourceCode: string,
+  config: LanguageConfig
+): SuppressionScope[] {
+  const scopes: SuppressionScope[] = [];
+  const annotationTypes = config.language === 'java' ? ['annotation'] : ['annotation', 'file_annotation'];
+
+  for (const annotation of tree.rootNode.descendantsOfType(annotationTypes)) {
+    const categories = getSuppressedCategories(annotation, sourceCode, config);
+    if (categories.size === 0) continue;
+    const target = getAnnotatedNode(annotation);
+    if (!target) continue;
+    scopes.push({
+      startRow: target.startPosition.row,
+      startColumn: target.startPosition.column,
+      endRow: target.endPosition.row,
+      endColumn: target.endPosition.column,
+      categories,
+    });
+  }
+
+  return scopes;
+}
+
+function isWithinScope(finding: DeadCodeFinding, scope: SuppressionScope): boolean {
+  const row = finding.line - 1;
+  const column = finding.column;
+  if (row < scope.startRow || row > scope.endRow) return false;
+  if (row === scope.startRow && column < scope.startColumn) return false;
+  if (row === scope.endRow && column >= scope.endColumn) return false;
+  return true;
+}
+
+/** Drops findings silenced by a suppression annotation on the declaration or any enclosing scope. */
+export function filterSuppressedFindings(
+  findings: DeadCodeFinding[],
+  tree: Parser.Tree,
+  sourceCode: string,
+  config: LanguageConfig
+): DeadCodeFinding[] {
+  const scopes = collectSuppressionScopes(tree, sourceCode, config);
+  if (scopes.length === 0) return findings;
+  return findings.filter(f =>
+    !scopes.some(scope => scope.categories.has(f.category) && isWithinScope(f, scope))
+  );
+}
+
 // --- Top-level API ---
 
 export function detectDeadCodeInFile(
@@ -882,9 +1008,8 @@ export function detectDeadCodeInFile(
   language: 'java' | 'kotlin'
 ): DeadCodeFileResult {
   try {
-    const sourceCode = fs.readFileSync(filePath, 'utf-8');
+    const { sourceCode, tree } = parseSourceFile(filePath, language);
     const config = language === 'java' ? JAVA_CONFIG : KOTLIN_CONFIG;
-    const tree = language === 'java' ? parseJava(sourceCode) : parseKotlin(sourceCode);
 
     const findings: DeadCodeFinding[] = [
       ...detectUnusedParameters(tree, sourceCode, config),
@@ -893,7 +1018,7 @@ export function detectDeadCodeInFile(
       ...detectUnusedPrivateMethods(tree, sourceCode, config),
     ];
 
-    return { file: filePath, findings };
+    return { file: filePath, findings: filterSuppressedFindings(findings, tree, sourceCode, config) };
   } catch (error) {
     return {
       file: filePath,
@@ -0,0 +1,338 @@
+/**
+ * Automatic removal of dead code found by the local detector.
+ * Deletes unused private methods, unused private fields and unused local variables,
+ * together with their attached doc comments and annotations. Declarations whose
+ * initializer may have side effects are reported instead of deleted.
+ */
+
+import Parser from "tree-sitter";
+import * as fs from "fs";
+import { parseJava, parseKotlin } from "./importCleaner.js";
+import {
+  DeadCodeCategory,
+  DeadCodeFinding,
+  JAVA_CONFIG,
+  KOTLIN_CONFIG,
+  LanguageConfig,
+  detectUnusedFields,
+  detectUnusedLocalVariables,
+  detectUnusedPrivateMethods,
+  filterSuppressedFindings,
+} from "./deadCodeDetector.js";
+import { createUnifiedDiff } from "./unifiedDiff.js";
+
+// --- Types ---
+
+export type FixableCategory = Extract<DeadCodeCategory, 'unused_field' | 'unused_private_method' | 'unused_local_variable'>;
+
+export interface DeadCodeRemoval {
+  category: FixableCategory;
+  name: string;
+  line: number;    // 1-based, in the original file
+  enclosingScope: string;
+}
+
+export interface UnsafeDeadCodeRemoval extends DeadCodeRemoval {
+  reason: string;
+}
+
+export interface DeadCodeFixPlan {
+  originalCode: string;
+  modifiedCode: string;
+  removed: DeadCodeRemoval[];
+  unsafe: UnsafeDeadCodeRemoval[];
+}
+
+/**
+ * Per-file report of what a dead code fix changed
+ */
+export interface DeadCodeFixFileReport {
+  file: string;
+  modified: boolean;  // true when the file was written (always false in dry-run mode)
+  removed: DeadCodeRemoval[];
+  unsafe: UnsafeDeadCodeRemoval[];
+  diff?: string;      // unified diff, present only in dry-run mode
+}
+
+export interface DeadCodeFixOptions {
+  dryRun?: boolean;
+  /** Path shown in diff headers (defaults to the file path) */
+  displayPath?: string;
+}
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// --- Declaration lookup ---
+
+function declarationTypes(category: FixableCategory, config: LanguageConfig): string[] {
+  switch (category) {
+    case 'unused_field': return config.fieldDeclarationTypes;
+    case 'unused_local_variable': return config.localVariableDeclarationTypes;
+    case 'unused_private_method': return config.methodDeclarationTypes;
+  }
+}
+
+/** Detectors report the start position of the declaration node; find it again. */
+function findDeclarationNode(
+  root: Parser.SyntaxNode,
+  finding: DeadCodeFinding & { category: FixableCategory },
+  config: LanguageConfig
+): Parser.SyntaxNode | null {
+  for (const node of root.descendantsOfType(declarationTypes(finding.category, config))) {
+    if (node.startPosition.row === finding.line - 1 && node.startPosition.column === finding.column) {
+      return node;
+    }
+  }
+  return null;
+}
+
+function isFixable(finding: DeadCodeFinding): finding is DeadCodeFinding & { category: FixableCategory } {
+  return finding.category === 'unused_field'
+    || finding.category === 'unused_private_method'
+    || finding.category === 'unused_local_variable';
+}
+
+// --- Safety checks ---
+
+/** Expressions that may run code with observable effects when evaluated */
+const JAVA_SIDE_EFFECT_TYPES = new Set([
+  'method_invocation', 'object_creation_expression', 'assignment_expression', 'update_expression',
+  'explicit_constructor_invocation',
+]);
+const KOTLIN_SIDE_EFFECT_TYPES = new Set([
+  'call_expression', 'assignment', 'object_literal', 'jump_expression',
+]);
+
+/** Function literals are only created, not run, by an initializer */
+const DEFERRED_TYPES = new Set(['lambda_expression', 'lambda_literal', 'anonymous_function']);
+
+function hasSideEffects(node: Parser.SyntaxNode, config: LanguageConfig): boolean {
+  if (DEFERRED_TYPES.has(node.type)) return false;
+  const sideEffectTypes = config.language === 'java' ? JAVA_SIDE_EFFECT_TYPES : KOTLIN_SIDE_EFFECT_TYPES;
+  if (sideEffectTypes.has(node.type)) return true;
+  // Kotlin increments and not-null assertions (which may throw)
+  if (config.language === 'kotlin' && node.type === 'unary_expression') {
+    for (let i = 0; i < node.childCount; i++) {
+      const op = node.child(i)!.type;
+      if (op === '++' || op === '--' || op === '!!') return true;
+    }
+  }
+  for (let i = 0; i < node.namedChildCount; i++) {
+    if (hasSideEffects(node.namedChild(i)!, config)) return true;
+  }
+  return false;
+}
+
+function getInitializers(declaration: Parser.SyntaxNode, config: LanguageConfig): Parser.SyntaxNode[] {
+  if (config.language === 'java') {
+    return declaration.namedChildren
+      .filter(c => c.type === 'variable_declarator')
+      .map(d => d.childForFieldName('value'))
+      .filter((v): v is Parser.SyntaxNode => v !== null);
+  }
+  // Kotlin: the expression following '=' in a property declaration
+  const initializers: Parser.SyntaxNode[] = [];
+  for (let i = 0; i < declaration.childCount - 1; i++) {
+    if (declaration.child(i)!.type === '=') initializers.push(declaration.child(i + 1)!);
+  }
+  return initializers;
+}
+
+/**
+ * Returns why a declaration cannot be removed safely, or null if it can.
+ */
+function unsafeReason(declaration: Parser.SyntaxNode, category: FixableCategory, config: LanguageConfig): string | null {
+  if (category === 'unused_private_method') return null;
+
+  if (config.language === 'java') {
+    const declarators = declaration.namedChildren.filter(c => c.type === 'variable_declarator');
+    if (declarators.length > 1) return 'declares several variables in one statement';
+  } else if (declaration.namedChildren.some(c => c.type === 'multi_variable_declaration')) {
+    return 'is a destructuring declaration';
+  }
+
+  if (getInitializers(declaration, config).some(init => hasSideEffects(init, config))) {
+    return 'initializer may have side effects';
+  }
+  return null;
+}
+
+// --- Removal ranges ---
+
+/** Includes a doc comment directly above the declaration (only whitespace between them). */
+function extendToDocComment(declaration: Parser.SyntaxNode, sourceCode: string): number {
+  const previous = declaration.previousSibling;
+  if (previous && previous.type === 'block_comment' && sourceCode.startsWith('/**', previous.startIndex)) {
+    if (sourceCode.substring(previous.endIndex, declaration.startIndex).trim() === '') {
+      return previous.startIndex;
+    }
+  }
+  return declaration.startIndex;
+}
+
+function lineStart(sourceCode: string, index: number): number {
+  return sourceCode.lastIndexOf('\n', index - 1) + 1;
+}
+
+/** Index just past the end of the line containing `index` (after its newline, if any) */
+function nextLineStart(sourceCode: string, index: number): number {
+  const newline = sourceCode.indexOf('\n', index);
+  return newline === -1 ? sourceCode.length : newline + 1;
+}
+
+function isBlank(text: string): boolean {
+  return text.trim() === '';
+}
+
+/**
+ * Widens a node range to whole lines when the declaration is alone on its lines (a trailing
+ * `//` comment goes with it).
+ */
+function expandToLines(range: ByteRange, sourceCode: string): ByteRange {
+  const start = lineStart(sourceCode, range.start);
+  const end = nextLineStart(sourceCode, range.end);
+  const rest = sourceCode.substring(range.end, end).trim();
+  const ownsLines = isBlank(sourceCode.substring(start, range.start))
+    && (rest === '' || rest.startsWith('//'));
+  return ownsLines ? { start, end } : range;
+}
+
+/**
+ * Drops one blank line next to a removal of whole lines so that it does not leave a double
+ * blank line, or a blank line after an opening or before a closing brace. Consecutive
+ * removals are merged first, so that they count as one.
+ */
+function absorbBlankLine(range: ByteRange, sourceCode: string): ByteRange {
+  const { start, end } = range;
+  const ownsLines = lineStart(sourceCode, start) === start && lineStart(sourceCode, end) === end;
+  if (!ownsLines || start === 0) return range;
+
+  const previousStart = lineStart(sourceCode, start - 1);
+  const previousLine = sourceCode.substring(previousStart, start);
+  const nextLine = sourceCode.substring(end, nextLineStart(sourceCode, end));
+  const nextIsBlank = end < sourceCode.length && isBlank(nextLine);
+  if (isBlank(previousLine) && (end >= sourceCode.length || nextIsBlank || nextLine.trim().startsWith('}'))) {
+    return { start: previousStart, end };
+  }
+  if (previousLine.trim().endsWith('{') && nextIsBlank) {
+    return { start, end: nextLineStart(sourceCode, end) };
+  }
+  return range;
+}
+
+/**
+ * Sorts ranges and merges overlapping and adjacent ones. Ranges nested inside another (a
+ * local in an unused method) are dropped.
+ */
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: ByteRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// --- Planning ---
+
+/**
+ * Computes the dead code removals for a source file without touching disk.
+ * Suppressed findings are left alone. Returns null when the file has syntax errors.
+ */
+export function planDeadCodeFix(sourceCode: string, language: 'java' | 'kotlin'): DeadCodeFixPlan | null {
+  const config = language === 'java' ? JAVA_CONFIG : KOTLIN_CONFIG;
+  const tree = language === 'java' ? parseJava(sourceCode) : parseKotlin(sourceCode);
+  if (tree.rootNode.hasError) return null;
+
+  const findings = filterSuppressedFindings([
+    ...detectUnusedPrivateMethods(tree, sourceCode, config),
+    ...detectUnusedFields(tree, sourceCode, config),
+    ...detectUnusedLocalVariables(tree, sourceCode, config),
+  ], tree, sourceCode, config).filter(isFixable);
+
+  const removed: DeadCodeRemoval[] = [];
+  const unsafe: UnsafeDeadCodeRemoval[] = [];
+  const ranges: ByteRange[] = [];
+
+  for (const finding of findings) {
+    const entry: DeadCodeRemoval = {
+      category: finding.category,
+      name: finding.name,
+      line: finding.line,
+      enclosingScope: finding.enclosingScope,
+    };
+    const declaration = findDeclarationNode(tree.rootNode, finding, config);
+    if (!declaration) {
+      unsafe.push({ ...entry, reason: 'declaration could not be located' });
+      continue;
+    }
+    const reason = unsafeReason(declaration, finding.category, config);
+    if (reason) {
+      unsafe.push({ ...entry, reason });
+      continue;
+    }
+    removed.push(entry);
+    ranges.push(expandToLines(
+      { start: extendToDocComment(declaration, sourceCode), end: declaration.endIndex },
+      sourceCode
+    ));
+  }
+
+  // Apply from the end; the blank line two removals both absorb is removed once
+  const removals = mergeRanges(mergeRanges(ranges).map(range => absorbBlankLine(range, sourceCode)));
+  let modifiedCode = sourceCode;
+  for (const range of removals.reverse()) {
+    modifiedCode = modifiedCode.substring(0, range.start) + modifiedCode.substring(range.end);
+  }
+
+  const byPosition = (a: DeadCodeRemoval, b: DeadCodeRemoval) => a.line - b.line || a.name.localeCompare(b.name);
+  return { originalCode: sourceCode, modifiedCode, removed: removed.sort(byPosition), unsafe: unsafe.sort(byPosition) };
+}
+
+/**
+ * Remove dead code from a file and report what changed.
+ * In dry-run mode the file is left untouched and the report carries a unified diff.
+ * Returns null on read or syntax errors.
+ */
+export function fixDeadCodeInFile(
+  filePath: string,
+  language: 'java' | 'kotlin',
+  options?: DeadCodeFixOptions
+): DeadCodeFixFileReport | null {
+  try {
+    const sourceCode = fs.readFileSync(filePath, 'utf-8');
+    const plan = planDeadCodeFix(sourceCode, language);
+
+    if (!plan) {
+      console.error(`Syntax error in file: ${filePath}`);
+      return null;
+    }
+
+    const report: DeadCodeFixFileReport = {
+      file: filePath,
+      modified: false,
+      removed: plan.removed,
+      unsafe: plan.unsafe,
+    };
+
+    if (options?.dryRun) {
+      report.diff = createUnifiedDiff(options.displayPath ?? filePath, sourceCode, plan.modifiedCode);
+    } else if (plan.modifiedCode !== sourceCode) {
+      fs.writeFileSync(filePath, plan.modifiedCode, 'utf-8');
+      report.modified = true;
+    }
+
+    return report;
+  } catch (error) {
+    console.error(`Error processing file ${filePath}:`, error);
+    return null;
+  }
+}
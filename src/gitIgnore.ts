@@ -0,0 +1,150 @@
+import * as path from "path";
+import * as fs from "fs";
+
+/**
+ * Git ignore support for directory scans. Rules are read from `.gitignore` files,
+ * `.git/info/exclude` and nested `.gitignore` files directly; git itself is never invoked.
+ */
+export interface IgnoreRule {
+  /** Directory the rule's pattern is relative to (the directory holding the ignore file) */
+  base: string;
+  regex: RegExp;
+  /** `!pattern`: re-includes a path ignored by an earlier rule */
+  negated: boolean;
+  /** `pattern/`: matches directories only */
+  directoryOnly: boolean;
+}
+
+// --- Pattern parsing ---
+
+/**
+ * Converts one gitignore pattern (without `!` and trailing `/`) to a RegExp matched against
+ * the path relative to the ignore file's directory.
+ * - A pattern with a `/` at the start or in the middle is anchored to that directory;
+ *   otherwise it matches a name at any depth
+ * - `**` matches any number of directories, `*`, `?` and `[...]` match within one segment
+ */
+export function gitIgnorePatternToRegex(pattern: string): RegExp {
+  let glob = pattern;
+  const anchored = glob.includes('/');
+  if (glob.startsWith('/')) glob = glob.slice(1);
+
+  let regex = anchored ? '' : '(?:.*/)?';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    const segmentStart = i === 0 || glob[i - 1] === '/';
+    if (char === '\\' && i + 1 < glob.length) {
+      regex += escapeRegex(glob[++i]);
+    } else if (glob.startsWith('**/', i) && segmentStart) {
+      regex += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i) && segmentStart && i + 2 === glob.length) {
+      regex += '.*';
+      i += 1;
+    } else if (char === '*') {
+      while (glob[i + 1] === '*') i++;
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const close = glob.indexOf(']', i + 2);
+      let body = glob.substring(i + 1, close);
+      const inverted = body.startsWith('!') || body.startsWith('^');
+      if (inverted) body = body.slice(1);
+      regex += `[${inverted ? '^/' : ''}${body}]`;
+      i = close;
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\*?]/g, '\\$&');
+}
+
+/**
+ * Parses the content of an ignore file. Blank lines and `#` comments are skipped;
+ * `\#`, `\!` and `\ ` escape the special characters.
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.replace(/\/+$/, '');
+    if (line === '') continue;
+
+    rules.push({ base, regex: gitIgnorePatternToRegex(line), negated, directoryOnly });
+  }
+  return rules;
+}
+
+// --- Rule loading ---
+
+function readIgnoreFile(filePath: string, base: string): IgnoreRule[] {
+  try {
+    return parseIgnoreFile(fs.readFileSync(filePath, 'utf-8'), base);
+  } catch {
+    return [];
+  }
+}
+
+/** Rules from the `.gitignore` file in a directory, or none */
+export function loadDirectoryIgnoreRules(directory: string): IgnoreRule[] {
+  return readIgnoreFile(path.join(directory, '.gitignore'), directory);
+}
+
+/** Nearest ancestor (or the directory itself) containing `.git`, or undefined outside a repository */
+export function findRepositoryRoot(directory: string): string | undefined {
+  let current = path.resolve(directory);
+  while (true) {
+    if (fs.existsSync(path.join(current, '.git'))) return current;
+    const parent = path.dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+/**
+ * Rules in effect for the entries of a scanned directory: `.git/info/exclude` and every
+ * `.gitignore` from the repository root down to the directory. Outside a repository only the
+ * directory's own `.gitignore` applies.
+ */
+export function loadIgnoreRulesFor(directory: string): IgnoreRule[] {
+  const target = path.resolve(directory);
+  const root = findRepositoryRoot(target);
+  if (root === undefined) return loadDirectoryIgnoreRules(target);
+
+  const rules = readIgnoreFile(path.join(root, '.git', 'info', 'exclude'), root);
+  const segments = path.relative(root, target).split(path.sep).filter(Boolean);
+  let current = root;
+  rules.push(...loadDirectoryIgnoreRules(current));
+  for (const segment of segments) {
+    current = path.join(current, segment);
+    rules.push(...loadDirectoryIgnoreRules(current));
+  }
+  return rules;
+}
+
+// --- Matching ---
+
+/**
+ * Whether an entry is ignored. Rules are ordered from the outermost ignore file to the
+ * innermost, each in file order; the last matching rule decides.
+ */
+export function isIgnored(rules: IgnoreRule[], absolutePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const relative = path.relative(rule.base, absolutePath);
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+    if (rule.regex.test(relative.split(path.sep).join('/'))) ignored = !rule.negated;
+  }
+  return ignored;
+}
@@ -0,0 +1,126 @@
+/**
+ * HTTP transport: MCP over server-sent events on a localhost port, so that several clients
+ * can share one long-lived server. Each client opens an event stream with `GET /sse` and
+ * posts its messages to `POST /messages?sessionId=...`; every stream gets its own MCP server.
+ */
+
+import * as http from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+// --- Options ---
+
+export const DEFAULT_HTTP_PORT = 7331;
+const HTTP_HOST = "127.0.0.1";
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+export type TransportOptions =
+  | { transport: "stdio" }
+  | { transport: "http"; port: number; authToken?: string };
+
+/**
+ * Reads the transport from command-line flags, falling back to environment variables:
+ * - `--http` or `LANG_TOOLS_TRANSPORT=http` selects the HTTP transport (default: stdio)
+ * - `--port <n>` or `LANG_TOOLS_HTTP_PORT` sets its port
+ * - `--auth-token <token>` or `LANG_TOOLS_AUTH_TOKEN` requires `Authorization: Bearer <token>`
+ * Other arguments are ignored, since MCP clients may pass their own. Throws on invalid values.
+ */
+export function parseTransportOptions(args: string[], env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  let transport = env.LANG_TOOLS_TRANSPORT || "stdio";
+  let port = env.LANG_TOOLS_HTTP_PORT;
+  let authToken = env.LANG_TOOLS_AUTH_TOKEN || undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined || next.startsWith("--")) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+    if (arg === "--http") transport = "http";
+    else if (arg === "--stdio") transport = "stdio";
+    else if (arg === "--port") port = value();
+    else if (arg === "--auth-token") authToken = value();
+  }
+
+  if (transport === "stdio") return { transport };
+  if (transport !== "http") throw new Error(`Invalid transport: "${transport}". Expected stdio or http`);
+
+  const portNumber = port === undefined || port === "" ? DEFAULT_HTTP_PORT : Number(port);
+  if (!Number.isInteger(portNumber) || portNumber < 0 || portNumber > 65535) {
+    throw new Error(`Invalid port: ${port}`);
+  }
+  return { transport, port: portNumber, ...(authToken && { authToken }) };
+}
+
+// --- Request checks ---
+
+function digest(text: string): Buffer {
+  return createHash("sha256").update(text).digest();
+}
+
+/** Constant-time check of the bearer token; digests keep the comparison length-independent */
+function isAuthorized(req: http.IncomingMessage, authToken: string | undefined): boolean {
+  if (authToken === undefined) return true;
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match !== null && timingSafeEqual(digest(match[1].trim()), digest(authToken));
+}
+
+/** Rejects other host names so that web pages cannot reach the server through DNS rebinding */
+function isLocalHost(req: http.IncomingMessage): boolean {
+  const host = (req.headers.host ?? "").replace(/:\d+$/, "").toLowerCase();
+  return host === "localhost" || host === "127.0.0.1" || host === "[::1]";
+}
+
+function reply(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "text/plain" }).end(message);
+}
+
+// --- Server ---
+
+/**
+ * Starts the HTTP transport on localhost and resolves once it listens. Port 0 picks a free
+ * port; read it from the returned server's address.
+ */
+export function startHttpTransport(
+  createServer: () => Server,
+  options: { port: number; authToken?: string }
+): Promise<http.Server> {
+  const sessions = new Map<string, SSEServerTransport>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      if (!isLocalHost(req)) return reply(res, 403, "Forbidden host");
+      if (!isAuthorized(req, options.authToken)) return reply(res, 401, "Unauthorized");
+
+      const url = new URL(req.url ?? "/", `http://${HTTP_HOST}`);
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        sessions.set(transport.sessionId, transport);
+        res.on("close", () => sessions.delete(transport.sessionId));
+        await createServer().connect(transport);
+        return;
+      }
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const transport = sessions.get(url.searchParams.get("sessionId") ?? "");
+        if (!transport) return reply(res, 404, "Unknown session");
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+      reply(res, 404, "Not found");
+    } catch (error) {
+      if (!res.headersSent) reply(res, 500, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, HTTP_HOST, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+}
@@ -6,12 +6,15 @@ import Parser from "tree-sitter";
 import Java from "tree-sitter-java";
 import Kotlin from "@tree-sitter-grammars/tree-sitter-kotlin";
 import * as fs from "fs";
+import { createUnifiedDiff } from "./unifiedDiff.js";
+import { layoutImports, resolveImportLayout, type ResolvedImportLayout } from "./importLayout.js";
 
 /**
  * Options for import cleanup
  */
 export interface ImportCleanupOptions {
   sortImports?: boolean;
+  importLayout?: ResolvedImportLayout;
 }
 
 /**
@@ -19,6 +22,7 @@ export interface ImportCleanupOptions {
  */
 export interface ImportInfo {
   text: string;
+  line: number;    // 1-based
   startByte: number;
   endByte: number;
   symbols: string[];
@@ -59,6 +63,7 @@ export function extractJavaImports(tree: Parser.Tree, sourceCode: string): Impor
       // For wildcard imports, we don't track specific symbols
       imports.push({
         text: importText,
+        line: importNode.startPosition.row + 1,
         startByte: importNode.startIndex,
         endByte: importNode.endIndex,
         symbols: [],
@@ -76,6 +81,7 @@ export function extractJavaImports(tree: Parser.Tree, sourceCode: string): Impor
 
       imports.push({
         text: importText,
+        line: importNode.startPosition.row + 1,
         startByte: importNode.startIndex,
         endByte: importNode.endIndex,
         symbols,
@@ -122,6 +128,7 @@ export function extractKotlinImports(tree: Parser.Tree, sourceCode: string): Imp
     if (isWildcard) {
       imports.push({
         text: importText,
+        line: importNode.startPosition.row + 1,
         startByte: importNode.startIndex,
         endByte: actualEndByte,
         symbols: [],
@@ -146,6 +153,7 @@ export function extractKotlinImports(tree: Parser.Tree, sourceCode: string): Imp
 
       imports.push({
         text: importText,
+        line: importNode.startPosition.row + 1,
         startByte: importNode.startIndex,
         endByte: actualEndByte,
         symbols,
@@ -278,7 +286,8 @@ export function extractImplicitlyUsedOperators(tree: Parser.Tree, _language: 'ko
 }
 
 /**
- * Sort imports in source code lexicographically.
+ * Sort imports in source code according to an import layout.
+ * The default layout is plain lexicographic:
  * For Java: non-static imports first, blank line, then static imports (each group sorted).
  * For Kotlin: all imports sorted together.
  * Returns the original source unchanged if 0 or 1 imports.
@@ -286,7 +295,8 @@ export function extractImplicitlyUsedOperators(tree: Parser.Tree, _language: 'ko
 export function sortImportsInSource(
   sourceCode: string,
   imports: ImportInfo[],
-  language: 'java' | 'kotlin'
+  language: 'java' | 'kotlin',
+  layout: ResolvedImportLayout = resolveImportLayout(undefined, language)
 ): string {
   if (imports.length <= 1) return sourceCode;
 
@@ -304,24 +314,13 @@ export function sortImportsInSource(
   // Detect line ending style
   const lineEnding = sourceCode.includes('\r\n') ? '\r\n' : '\n';
 
-  let sortedBlock: string;
-
-  if (language === 'java') {
-    const nonStatic = imports.filter(i => !i.isStatic).map(i => i.text).sort();
-    const staticImports = imports.filter(i => i.isStatic).map(i => i.text).sort();
-
-    const groups: string[] = [];
-    if (nonStatic.length > 0) {
-      groups.push(nonStatic.join(lineEnding));
-    }
-    if (staticImports.length > 0) {
-      groups.push(staticImports.join(lineEnding));
-    }
-    sortedBlock = groups.join(lineEnding + lineEnding) + lineEnding;
-  } else {
-    const sorted = imports.map(i => i.text).sort();
-    sortedBlock = sorted.join(lineEnding) + lineEnding;
-  }
+  const entries = imports.map(imp => ({
+    text: imp.text,
+    fqn: importFqn(imp),
+    isStatic: imp.isStatic,
+    isAlias: language === 'kotlin' && /\s+as\s+\w+$/.test(imp.text),
+  }));
+  const sortedBlock = layoutImports(entries, layout).join(lineEnding) + lineEnding;
 
   const before = sourceCode.substring(0, firstImport.startByte);
   const after = sourceCode.substring(blockEnd);
@@ -331,9 +330,10 @@ export function sortImportsInSource(
 }
 
 /**
- * Remove unused imports from source code
+ * Find imports whose symbols are not referenced in the source code.
+ * Wildcard imports are never reported as unused.
  */
-export function removeUnusedImports(sourceCode: string, imports: ImportInfo[], usedIdentifiers: Set<string>): string {
+export function findUnusedImports(imports: ImportInfo[], usedIdentifiers: Set<string>): ImportInfo[] {
   const unusedImports: ImportInfo[] = [];
 
   for (const imp of imports) {
@@ -350,6 +350,15 @@ export function removeUnusedImports(sourceCode: string, imports: ImportInfo[], u
     }
   }
 
+  return unusedImports;
+}
+
+/**
+ * Remove unused imports from source code
+ */
+export function removeUnusedImports(sourceCode: string, imports: ImportInfo[], usedIdentifiers: Set<string>): string {
+  const unusedImports = findUnusedImports(imports, usedIdentifiers);
+
   // Sort by position in reverse order to avoid index shifting
   unusedImports.sort((a, b) => b.startByte - a.startByte);
 
@@ -373,74 +382,154 @@ export function removeUnusedImports(sourceCode: string, imports: ImportInfo[], u
 }
 
 /**
- * Clean up unused imports in a Java file
+ * Extract the fully qualified name from an import statement's text.
+ * e.g. "import static java.lang.Math.PI;" -> "java.lang.Math.PI"
+ * e.g. "import java.util.List as MyList" -> "java.util.List"
  */
-export function cleanupJavaFile(filePath: string, options?: ImportCleanupOptions): boolean {
-  try {
-    const sourceCode = fs.readFileSync(filePath, 'utf-8');
-    const tree = javaParser.parse(sourceCode);
+export function importFqn(imp: ImportInfo): string {
+  return imp.text
+    .replace(/^import\s+(static\s+)?/, '')
+    .replace(/;$/, '')
+    .replace(/\s+as\s+\w+$/, '')
+    .trim();
+}
 
-    if (!tree.rootNode || tree.rootNode.hasError) {
-      console.error(`Syntax error in file: ${filePath}`);
-      return false;
-    }
+/**
+ * Result of computing an import cleanup without touching the file system
+ */
+export interface ImportCleanupPlan {
+  originalCode: string;
+  modifiedCode: string;
+  removedImports: ImportInfo[];
+  resorted: boolean;
+}
 
-    const imports = extractJavaImports(tree, sourceCode);
-    const usedIdentifiers = extractUsedIdentifiers(tree, sourceCode, 'java');
-    let modifiedCode = removeUnusedImports(sourceCode, imports, usedIdentifiers);
+/**
+ * Compute the cleaned-up source for a file: remove unused imports and optionally
+ * sort the remaining ones. Pure function — never writes to disk.
+ * Returns null when the source has syntax errors.
+ */
+export function planImportCleanup(
+  sourceCode: string,
+  language: 'java' | 'kotlin',
+  options?: ImportCleanupOptions
+): ImportCleanupPlan | null {
+  const parser = language === 'java' ? javaParser : kotlinParser;
+  const extractImports = language === 'java' ? extractJavaImports : extractKotlinImports;
+  const tree = parser.parse(sourceCode);
+
+  if (!tree.rootNode || tree.rootNode.hasError) {
+    return null;
+  }
 
-    if (options?.sortImports) {
-      const freshTree = javaParser.parse(modifiedCode);
-      const freshImports = extractJavaImports(freshTree, modifiedCode);
-      modifiedCode = sortImportsInSource(modifiedCode, freshImports, 'java');
-    }
+  const imports = extractImports(tree, sourceCode);
+  const usedIdentifiers = extractUsedIdentifiers(tree, sourceCode, language);
+  if (language === 'kotlin') {
+    const implicitOperators = extractImplicitlyUsedOperators(tree, 'kotlin');
+    for (const op of implicitOperators) usedIdentifiers.add(op);
+  }
+  const removedImports = findUnusedImports(imports, usedIdentifiers);
+  let modifiedCode = removeUnusedImports(sourceCode, imports, usedIdentifiers);
+  let resorted = false;
+
+  if (options?.sortImports) {
+    const freshTree = parser.parse(modifiedCode);
+    const freshImports = extractImports(freshTree, modifiedCode);
+    const sortedCode = sortImportsInSource(modifiedCode, freshImports, language, options.importLayout);
+    resorted = sortedCode !== modifiedCode;
+    modifiedCode = sortedCode;
+  }
 
-    if (modifiedCode !== sourceCode) {
-      fs.writeFileSync(filePath, modifiedCode, 'utf-8');
-      return true;
-    }
+  return { originalCode: sourceCode, modifiedCode, removedImports, resorted };
+}
 
-    return true;
-  } catch (error) {
-    console.error(`Error processing file ${filePath}:`, error);
-    return false;
-  }
+/**
+ * Clean up unused imports in a Java file
+ */
+export function cleanupJavaFile(filePath: string, options?: ImportCleanupOptions): boolean {
+  return cleanupImportsInFile(filePath, 'java', options) !== null;
 }
 
 /**
  * Clean up unused imports in a Kotlin file
  */
 export function cleanupKotlinFile(filePath: string, options?: ImportCleanupOptions): boolean {
+  return cleanupImportsInFile(filePath, 'kotlin', options) !== null;
+}
+
+/**
+ * An import removed by cleanup, as reported to callers
+ */
+export interface RemovedImport {
+  fqn: string;
+  text: string;
+  line: number;    // 1-based, in the original file
+  symbols: string[];
+}
+
+/**
+ * Per-file report of what an import cleanup changed
+ */
+export interface ImportCleanupFileReport {
+  file: string;
+  modified: boolean;  // true when the file was written (always false in dry-run mode)
+  resorted: boolean;  // true when sorting changed the order of the remaining imports
+  removedImports: RemovedImport[];
+  diff?: string;      // unified diff, present only in dry-run mode
+}
+
+/**
+ * Options for cleaning up a single file
+ */
+export interface FileCleanupOptions extends ImportCleanupOptions {
+  dryRun?: boolean;
+  /** Path shown in diff headers (defaults to the file path) */
+  displayPath?: string;
+}
+
+/**
+ * Clean up unused imports in a file and report what changed.
+ * In dry-run mode the file is left untouched and the report carries a unified diff.
+ * Returns null on read or syntax errors.
+ */
+export function cleanupImportsInFile(
+  filePath: string,
+  language: 'java' | 'kotlin',
+  options?: FileCleanupOptions
+): ImportCleanupFileReport | null {
   try {
     const sourceCode = fs.readFileSync(filePath, 'utf-8');
-    const tree = kotlinParser.parse(sourceCode);
+    const plan = planImportCleanup(sourceCode, language, options);
 
-    if (!tree.rootNode || tree.rootNode.hasError) {
+    if (!plan) {
       console.error(`Syntax error in file: ${filePath}`);
-      return false;
-    }
-
-    const imports = extractKotlinImports(tree, sourceCode);
-    const usedIdentifiers = extractUsedIdentifiers(tree, sourceCode, 'kotlin');
-    const implicitOperators = extractImplicitlyUsedOperators(tree, 'kotlin');
-    for (const op of implicitOperators) usedIdentifiers.add(op);
-    let modifiedCode = removeUnusedImports(sourceCode, imports, usedIdentifiers);
-
-    if (options?.sortImports) {
-      const freshTree = kotlinParser.parse(modifiedCode);
-      const freshImports = extractKotlinImports(freshTree, modifiedCode);
-      modifiedCode = sortImportsInSource(modifiedCode, freshImports, 'kotlin');
+      return null;
     }
 
-    if (modifiedCode !== sourceCode) {
-      fs.writeFileSync(filePath, modifiedCode, 'utf-8');
-      return true;
+    const changed = plan.modifiedCode !== sourceCode;
+    const report: ImportCleanupFileReport = {
+      file: filePath,
+      modified: false,
+      resorted: plan.resorted,
+      removedImports: plan.removedImports.map(imp => ({
+        fqn: importFqn(imp),
+        text: imp.text,
+        line: imp.line,
+        symbols: imp.symbols,
+      })),
+    };
+
+    if (options?.dryRun) {
+      report.diff = createUnifiedDiff(options.displayPath ?? filePath, sourceCode, plan.modifiedCode);
+    } else if (changed) {
+      fs.writeFileSync(filePath, plan.modifiedCode, 'utf-8');
+      report.modified = true;
     }
 
-    return true;
+    return report;
   } catch (error) {
     console.error(`Error processing file ${filePath}:`, error);
-    return false;
+    return null;
   }
 }
 
@@ -0,0 +1,180 @@
+/**
+ * Import layout: how sorted imports are grouped, ordered and separated.
+ * Presets mirror common formatter defaults so that cleanup does not fight them.
+ */
+
+import {
+  ImportLayoutConfig,
+  ImportLayoutPreset,
+  ImportLayoutSetting,
+  LangToolsConfig,
+  globToRegex,
+} from './profileConfig.js';
+
+// --- Types ---
+
+export interface ResolvedImportLayout {
+  groups: string[];
+  blankLinesBetweenGroups: boolean;
+  staticImports: 'first' | 'last';
+  aliasImports: 'last' | 'sorted';
+}
+
+/**
+ * The minimal view of an import needed to place it in the layout
+ */
+export interface LayoutEntry {
+  text: string;
+  fqn: string;
+  isStatic: boolean;
+  isAlias: boolean;
+}
+
+// --- Presets -----------------------------------------------------------------
+
+/**
+ * Preset layouts per language. In `groups`, an empty string inserts a blank line
+ * and `*` collects every import not matched by a more specific pattern.
+ */
+const PRESETS: Record<ImportLayoutPreset, Record<'java' | 'kotlin', ResolvedImportLayout>> = {
+  // Plain lexicographic sort; Java static imports in a trailing block (historical default)
+  lexicographic: {
+    java:   { groups: ['*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'sorted' },
+    kotlin: { groups: ['*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'sorted' },
+  },
+  // IntelliJ IDEA defaults: Java "all other, blank, javax.*, java.*, blank, static all other";
+  // Kotlin "all other, java.*, javax.*, kotlin.*, alias imports"
+  intellij: {
+    java:   { groups: ['*', '', 'javax.*', 'java.*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'sorted' },
+    kotlin: { groups: ['*', 'java.*', 'javax.*', 'kotlin.*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'last' },
+  },
+  // Google Java Style: all static imports in one block, blank line, all non-static imports.
+  // Kotlin (ktfmt --google-style) uses a single lexicographic block.
+  google: {
+    java:   { groups: ['*'], blankLinesBetweenGroups: false, staticImports: 'first', aliasImports: 'sorted' },
+    kotlin: { groups: ['*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'sorted' },
+  },
+  // ktlint `ij_kotlin_imports_layout` default: "*,java.**,javax.**,kotlin.**,^".
+  // ktlint does not format Java, so Java falls back to lexicographic.
+  ktlint: {
+    java:   { groups: ['*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'sorted' },
+    kotlin: { groups: ['*', 'java.*', 'javax.*', 'kotlin.*'], blankLinesBetweenGroups: false, staticImports: 'last', aliasImports: 'last' },
+  },
+};
+
+// --- Resolution --------------------------------------------------------------
+
+function isPerLanguageSetting(
+  setting: LangToolsConfig['importLayout']
+): setting is { java?: ImportLayoutSetting; kotlin?: ImportLayoutSetting } {
+  return typeof setting === 'object' && setting !== null && ('java' in setting || 'kotlin' in setting);
+}
+
+/**
+ * Resolves the configured import layout for one language.
+ * A bare preset name selects that preset; an object overrides individual fields of its
+ * `preset` (default: lexicographic). Throws on an unknown preset name.
+ */
+export function resolveImportLayout(
+  setting: LangToolsConfig['importLayout'],
+  language: 'java' | 'kotlin'
+): ResolvedImportLayout {
+  const languageSetting = isPerLanguageSetting(setting) ? setting[language] : setting;
+  const config: ImportLayoutConfig = typeof languageSetting === 'string'
+    ? { preset: languageSetting }
+    : languageSetting ?? {};
+
+  const presetName = config.preset ?? 'lexicographic';
+  const preset = PRESETS[presetName]?.[language];
+  if (preset == null) {
+    throw new Error(
+      `Unknown import layout preset: "${presetName}". Available presets: ${Object.keys(PRESETS).join(', ')}.`
+    );
+  }
+
+  return {
+    groups: config.groups ?? preset.groups,
+    blankLinesBetweenGroups: config.blankLinesBetweenGroups ?? preset.blankLinesBetweenGroups,
+    staticImports: config.staticImports ?? preset.staticImports,
+    aliasImports: config.aliasImports ?? preset.aliasImports,
+  };
+}
+
+// --- Layout ------------------------------------------------------------------
+
+/** Number of literal (non-wildcard) characters; the most specific matching pattern wins. */
+function specificity(pattern: string): number {
+  return pattern.replace(/[*?]/g, '').length;
+}
+
+function sortedTexts(entries: LayoutEntry[]): string[] {
+  return entries.map(e => e.text).sort();
+}
+
+/**
+ * Arranges imports according to the layout and returns the lines of the import block.
+ * Empty strings in the result are blank separator lines. Each group is sorted
+ * lexicographically; imports matching no pattern go to a trailing catch-all group.
+ */
+export function layoutImports(entries: LayoutEntry[], layout: ResolvedImportLayout): string[] {
+  const statics = entries.filter(e => e.isStatic);
+  const aliases = layout.aliasImports === 'last' ? entries.filter(e => !e.isStatic && e.isAlias) : [];
+  const regular = entries.filter(e => !e.isStatic && !(layout.aliasImports === 'last' && e.isAlias));
+
+  const patterns = layout.groups
+    .map((pattern, index) => ({ pattern, index, regex: globToRegex(pattern) }))
+    .filter(g => g.pattern !== '');
+
+  // Assign each regular import to its most specific matching group (ties: first listed)
+  const byGroup = new Map<number, LayoutEntry[]>();
+  const unmatched: LayoutEntry[] = [];
+  for (const entry of regular) {
+    let best: { index: number; score: number } | null = null;
+    for (const g of patterns) {
+      if (!g.regex.test(entry.fqn)) continue;
+      const score = specificity(g.pattern);
+      if (best === null || score > best.score) best = { index: g.index, score };
+    }
+    if (best === null) {
+      unmatched.push(entry);
+    } else {
+      if (!byGroup.has(best.index)) byGroup.set(best.index, []);
+      byGroup.get(best.index)!.push(entry);
+    }
+  }
+
+  // Build an ordered list of blocks and separators
+  const SEPARATOR = null;
+  const items: Array<string[] | null> = [];
+  if (layout.staticImports === 'first') items.push(sortedTexts(statics), SEPARATOR);
+  let firstGroup = true;
+  layout.groups.forEach((pattern, index) => {
+    if (pattern === '') {
+      items.push(SEPARATOR);
+      return;
+    }
+    if (!firstGroup && layout.blankLinesBetweenGroups) items.push(SEPARATOR);
+    items.push(sortedTexts(byGroup.get(index) ?? []));
+    firstGroup = false;
+  });
+  if (layout.blankLinesBetweenGroups) items.push(SEPARATOR);
+  items.push(sortedTexts(unmatched));
+  if (layout.blankLinesBetweenGroups) items.push(SEPARATOR);
+  items.push(sortedTexts(aliases));
+  if (layout.staticImports === 'last') items.push(SEPARATOR, sortedTexts(statics));
+
+  // Render: a separator only takes effect between two non-empty blocks
+  const lines: string[] = [];
+  let pendingBlank = false;
+  for (const item of items) {
+    if (item === SEPARATOR) {
+      pendingBlank = true;
+      continue;
+    }
+    if (item.length === 0) continue;
+    if (lines.length > 0 && pendingBlank) lines.push('');
+    lines.push(...item);
+    pendingBlank = false;
+  }
+  return lines;
+}
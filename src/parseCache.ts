@@ -0,0 +1,77 @@
+/**
+ * Parsed source files shared by every tool call in the process, and so by every client
+ * session of a shared server. Entries are keyed on the absolute path and reused while the
+ * file keeps its size and modification time; edited files are read and parsed again.
+ */
+
+import Parser from "tree-sitter";
+import * as fs from "fs";
+import * as path from "path";
+import { parseJava, parseKotlin } from "./importCleaner.js";
+
+// --- Types ---
+
+export interface ParsedSourceFile {
+  sourceCode: string;
+  tree: Parser.Tree;
+}
+
+interface CacheEntry extends ParsedSourceFile {
+  language: 'java' | 'kotlin';
+  size: number;
+  mtimeMs: number;
+  /** Date.now() when the file was read */
+  readAt: number;
+}
+
+// --- Cache ---
+
+/** Least recently used files beyond this many are dropped, bounding the memory held by trees */
+const MAX_CACHED_FILES = 2000;
+
+/**
+ * Modification times can be as coarse as a clock tick, so a file written again shortly after
+ * it was read may keep its size and mtime. Such entries are compared by content instead.
+ */
+const RACY_INTERVAL_MS = 2000;
+
+const cache = new Map<string, CacheEntry>();
+
+function isCurrent(entry: CacheEntry, stats: fs.Stats, absolutePath: string): boolean {
+  if (entry.size !== stats.size || entry.mtimeMs !== stats.mtimeMs) return false;
+  if (entry.mtimeMs < entry.readAt - RACY_INTERVAL_MS) return true;
+  return fs.readFileSync(absolutePath, 'utf-8') === entry.sourceCode;
+}
+
+/**
+ * Reads and parses a source file, or returns the cached tree while the file is unchanged.
+ * Throws when the file cannot be read. The tree must not be edited: other calls share it.
+ */
+export function parseSourceFile(filePath: string, language: 'java' | 'kotlin'): ParsedSourceFile {
+  const absolutePath = path.resolve(filePath);
+  const stats = fs.statSync(absolutePath);
+  const cached = cache.get(absolutePath);
+  cache.delete(absolutePath);
+  if (cached && cached.language === language && isCurrent(cached, stats, absolutePath)) {
+    cache.set(absolutePath, cached);
+    return cached;
+  }
+
+  const readAt = Date.now();
+  const sourceCode = fs.readFileSync(absolutePath, 'utf-8');
+  const tree = language === 'java' ? parseJava(sourceCode) : parseKotlin(sourceCode);
+  const entry: CacheEntry = { sourceCode, tree, language, size: stats.size, mtimeMs: stats.mtimeMs, readAt };
+  cache.set(absolutePath, entry);
+  if (cache.size > MAX_CACHED_FILES) cache.delete(cache.keys().next().value!);
+  return entry;
+}
+
+/** Number of files currently cached */
+export function parseCacheSize(): number {
+  return cache.size;
+}
+
+/** Forgets every parsed file */
+export function clearParseCache(): void {
+  cache.clear();
+}
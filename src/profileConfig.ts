@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { findRepositoryRoot } from './gitIgnore.js';
+import { CONDITION_COMBINATORS, CONDITION_TYPES, closestMatch, validateConfig } from './configValidation.js';
+import { configFormat, parseConfigText, type ParsedConfig } from './configParser.js';
 
 // --- User-facing Config Types ---
 
@@ -13,7 +16,10 @@ export type ConditionConfig =
   | { overridesMethodFromInterface: string }
   | { namePattern: string }
   | { packagePattern: string }
-  | { serviceDiscovery: true };
+  | { serviceDiscovery: true }
+  | { anyOf: ConditionConfig[] }
+  | { allOf: ConditionConfig[] }
+  | { not: ConditionConfig };
 
 export interface EntrypointConfig {
   name: string;
@@ -26,10 +32,29 @@ export interface ProfileConfig {
   entrypoints: EntrypointConfig[];
 }
 
+export type ImportLayoutPreset = 'lexicographic' | 'intellij' | 'google' | 'ktlint';
+
+export interface ImportLayoutConfig {
+  preset?: ImportLayoutPreset;
+  groups?: string[];
+  blankLinesBetweenGroups?: boolean;
+  staticImports?: 'first' | 'last';
+  aliasImports?: 'last' | 'sorted';
+}
+
+export type ImportLayoutSetting = ImportLayoutPreset | ImportLayoutConfig;
+
 export interface LangToolsConfig {
+  /** Schema reference for editors; ignored by the tools */
+  $schema?: string;
   activeProfiles?: string[];
   profiles?: ProfileConfig[];
   sortImports?: boolean;
+  importLayout?: ImportLayoutSetting | { java?: ImportLayoutSetting; kotlin?: ImportLayoutSetting };
+  /** Globs excluded from directory scans by every tool; replaces DEFAULT_EXCLUDE_PATTERNS */
+  exclude?: string[];
+  /** Skip files ignored by git ignore files during directory scans. Default: true */
+  respectGitignore?: boolean;
 }
 
 // --- Resolved (compiled) Types ---
@@ -43,7 +68,10 @@ export type ResolvedCondition =
   | { type: 'overridesMethodFromInterface'; pattern: RegExp }
   | { type: 'namePattern'; regex: RegExp }
   | { type: 'packagePattern'; regex: RegExp }
-  | { type: 'serviceDiscovery' };
+  | { type: 'serviceDiscovery' }
+  | { type: 'anyOf'; conditions: ResolvedCondition[] }
+  | { type: 'allOf'; conditions: ResolvedCondition[] }
+  | { type: 'not'; condition: ResolvedCondition };
 
 export interface ResolvedEntrypoint {
   name: string;
@@ -57,7 +85,7 @@ export interface ResolvedRules {
 
 // --- Built-in profiles -------------------------------------------------------
 
-const BUILT_IN_PROFILES: ProfileConfig[] = [
+export const BUILT_IN_PROFILES: ProfileConfig[] = [
   {
     name: 'spring',
     entrypoints: [
@@ -217,33 +245,42 @@ export function globToRegex(pattern: string): RegExp {
 
 // --- Config loading -----------------------------------------------------------
 
+/** Config file extensions, in the order they are looked up when a directory has several */
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/** The first existing `<baseName><extension>` in `directory`, if any */
+function findConfigFile(directory: string, baseName: string): string | undefined {
+  return CONFIG_EXTENSIONS
+    .map(extension => path.join(directory, baseName + extension))
+    .find(candidate => fs.existsSync(candidate));
+}
+
 /**
  * Resolves the config file path:
  * 1. LANG_TOOLS_CONFIG env var (explicit override)
- * 2. $XDG_CONFIG_HOME/lang-tools/config.json
- * 3. ~/.config/lang-tools/config.json (fallback)
+ * 2. $XDG_CONFIG_HOME/lang-tools/config.{json,yaml,yml}
+ * 3. ~/.config/lang-tools/config.{json,yaml,yml} (fallback)
+ * Returns the config.json path when no file exists.
  */
-function resolveConfigPath(): string {
+export function resolveConfigPath(): string {
   const envOverride = process.env.LANG_TOOLS_CONFIG;
   if (envOverride) return envOverride;
 
   const xdgConfigHome = process.env.XDG_CONFIG_HOME;
-  const baseDir = xdgConfigHome != null ? xdgConfigHome : path.join(os.homedir(), '.config');
-  return path.join(baseDir, 'lang-tools', 'config.json');
+  const baseDir = path.join(xdgConfigHome != null ? xdgConfigHome : path.join(os.homedir(), '.config'), 'lang-tools');
+  return findConfigFile(baseDir, 'config') ?? path.join(baseDir, 'config.json');
 }
 
+/** Base name of the project-local config files layered on top of the user config */
+export const PROJECT_CONFIG_NAME = '.lang-tools';
+
 /**
- * Loads LangToolsConfig from the config file.
- * Returns an empty config if the file does not exist.
- * Throws a descriptive error for malformed JSON.
+ * Reads one config file: YAML for `.yaml` and `.yml` files, otherwise JSON with comments
+ * and trailing commas.
+ * Throws a descriptive error when it cannot be read, is malformed or does not match the
+ * config schema; every error names its line.
  */
-export function loadConfig(): LangToolsConfig {
-  const configPath = resolveConfigPath();
-
-  if (fs.existsSync(configPath) === false) {
-    return {};
-  }
-
+function readConfigFile(configPath: string): LangToolsConfig {
   let raw: string;
   try {
     raw = fs.readFileSync(configPath, 'utf-8');
@@ -252,14 +289,138 @@ export function loadConfig(): LangToolsConfig {
     throw new Error(`Failed to read lang-tools config at "${configPath}": ${msg}`);
   }
 
+  let parsed: ParsedConfig;
   try {
-    return JSON.parse(raw) as LangToolsConfig;
+    parsed = parseConfigText(raw, configFormat(configPath));
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
-    throw new Error(
-      `Failed to parse lang-tools config at "${configPath}": malformed JSON — ${msg}`
-    );
+    throw new Error(`Failed to parse lang-tools config at "${configPath}": ${msg}`);
+  }
+
+  const issues = validateConfig(parsed.value);
+  if (issues.length > 0) {
+    const lines = issues.map(issue => {
+      const position = parsed.locate(issue.path);
+      return position === undefined
+        ? `  - ${issue.message}`
+        : `  - line ${position.line}, column ${position.column}: ${issue.message}`;
+    });
+    throw new Error(`Invalid lang-tools config at "${configPath}":\n${lines.join('\n')}`);
   }
+  return parsed.value as LangToolsConfig;
+}
+
+/** Deepest directory containing every path; files count as their parent directory */
+export function commonDirectory(paths: string[]): string | undefined {
+  const directories = paths.map(p => {
+    const absolutePath = path.resolve(p);
+    return fs.existsSync(absolutePath) && !fs.statSync(absolutePath).isDirectory()
+      ? path.dirname(absolutePath)
+      : absolutePath;
+  });
+  if (directories.length === 0) return undefined;
+
+  let common = directories[0];
+  for (const directory of directories.slice(1)) {
+    while (common !== directory && !directory.startsWith(common.endsWith(path.sep) ? common : common + path.sep)) {
+      common = path.dirname(common);
+    }
+  }
+  return common;
+}
+
+/** Project config files in `start` and its parents up to `stop`, outermost first */
+function projectConfigFilesUpTo(start: string, stop: string): string[] {
+  const files: string[] = [];
+  let current = start;
+  while (true) {
+    const candidate = findConfigFile(current, PROJECT_CONFIG_NAME);
+    if (candidate !== undefined) files.unshift(candidate);
+    if (current === stop) break;
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return files;
+}
+
+/**
+ * Project config files that apply to the analyzed paths, outermost first: every
+ * `.lang-tools.{json,yaml,yml}` from the repository root down to the paths' common directory.
+ * Outside a repository only the common directory itself is searched.
+ */
+export function findProjectConfigFiles(paths: string[]): string[] {
+  const start = commonDirectory(paths);
+  if (start === undefined) return [];
+  return projectConfigFilesUpTo(start, findRepositoryRoot(start) ?? start);
+}
+
+/**
+ * Layers `override` on top of `base`: profiles are merged by name (the override's profile
+ * replaces one with the same name); every other setting that `override` sets replaces the
+ * base value as a whole.
+ */
+export function mergeConfigs(base: LangToolsConfig, override: LangToolsConfig): LangToolsConfig {
+  const merged: LangToolsConfig = { ...base, ...override };
+  if (base.profiles && override.profiles) {
+    const overridden = new Set(override.profiles.map(p => p.name));
+    merged.profiles = [...base.profiles.filter(p => !overridden.has(p.name)), ...override.profiles];
+  }
+  return merged;
+}
+
+/**
+ * Config files in effect for the analyzed paths, in the order they are layered: the user
+ * config (when it exists), then the project config files. Without paths only the user config
+ * applies.
+ */
+export function configFiles(paths: string[] = []): string[] {
+  const userConfigPath = resolveConfigPath();
+  return [
+    ...(fs.existsSync(userConfigPath) ? [userConfigPath] : []),
+    ...findProjectConfigFiles(paths),
+  ];
+}
+
+/**
+ * Loads LangToolsConfig for the analyzed paths: the user config with the project config
+ * files layered on top. Returns an empty config if no file exists.
+ * Throws a descriptive error for malformed or invalid files.
+ */
+export function loadConfig(paths: string[] = []): LangToolsConfig {
+  return configFiles(paths).map(readConfigFile).reduce(mergeConfigs, {});
+}
+
+/**
+ * Config lookup for the files of a call that spans several modules: each file gets the user
+ * config with the project config files from the repository root down to the file's directory,
+ * so that a module's config applies to its own files. Outside a repository the search stops
+ * at the common directory of `paths`. Files seeing the same config files share one config
+ * object, so callers can cache what they derive from it.
+ * The lookup throws a descriptive error for malformed or invalid files.
+ */
+export function createFileConfigLookup(paths: string[]): (filePath: string) => LangToolsConfig {
+  const common = commonDirectory(paths);
+  const userConfigPath = resolveConfigPath();
+  const userConfigFiles = fs.existsSync(userConfigPath) ? [userConfigPath] : [];
+  const byDirectory = new Map<string, LangToolsConfig>();
+  const byConfigFiles = new Map<string, LangToolsConfig>();
+
+  return filePath => {
+    const directory = path.dirname(path.resolve(filePath));
+    const cached = byDirectory.get(directory);
+    if (cached !== undefined) return cached;
+
+    const insideCommon = common !== undefined
+      && (directory === common || directory.startsWith(common.endsWith(path.sep) ? common : common + path.sep));
+    const stop = findRepositoryRoot(directory) ?? (insideCommon ? common : directory);
+    const files = [...userConfigFiles, ...projectConfigFilesUpTo(directory, stop)];
+    const key = files.join('\u0000');
+    const config = byConfigFiles.get(key) ?? files.map(readConfigFile).reduce(mergeConfigs, {});
+    byConfigFiles.set(key, config);
+    byDirectory.set(directory, config);
+    return config;
+  };
 }
 
 // --- Profile merging ---------------------------------------------------------
@@ -279,6 +440,27 @@ export function mergeActiveProfiles(
   return config.activeProfiles ?? [];
 }
 
+// --- File exclusion ------------------------------------------------------------
+
+/** Generated sources and build caches skipped when the config sets no `exclude` list */
+export const DEFAULT_EXCLUDE_PATTERNS = [
+  '**/build/generated/**',
+  '**/build/tmp/**',
+  '**/target/generated-sources/**',
+  '**/target/generated-test-sources/**',
+  '**/.gradle/**',
+  '**/node_modules/**',
+  '**/.git/**',
+];
+
+/**
+ * Merges exclude globs: tool params are ADDED to the config's exclude list, which itself
+ * replaces the defaults when set (use `[]` to scan everything).
+ */
+export function mergeExcludePatterns(config: LangToolsConfig, toolExclude?: string[]): string[] {
+  return [...(config.exclude ?? DEFAULT_EXCLUDE_PATTERNS), ...(toolExclude ?? [])];
+}
+
 // --- Import-based matching helpers ------------------------------------------
 
 /**
@@ -368,8 +550,31 @@ function resolveCondition(cond: ConditionConfig): ResolvedCondition {
   if ('packagePattern' in cond) {
     return { type: 'packagePattern', regex: globToRegex(cond.packagePattern) };
   }
-  // serviceDiscovery: true
-  return { type: 'serviceDiscovery' };
+  if ('serviceDiscovery' in cond) {
+    return { type: 'serviceDiscovery' };
+  }
+  if ('anyOf' in cond) {
+    return { type: 'anyOf', conditions: resolveConditionList(cond.anyOf, 'anyOf') };
+  }
+  if ('allOf' in cond) {
+    return { type: 'allOf', conditions: resolveConditionList(cond.allOf, 'allOf') };
+  }
+  if ('not' in cond) {
+    return { type: 'not', condition: resolveCondition(cond.not) };
+  }
+  // Configs passed in directly skip schema validation
+  const [type] = Object.keys(cond);
+  const match = closestMatch(String(type), [...CONDITION_TYPES, ...CONDITION_COMBINATORS]);
+  throw new Error(
+    `Unknown condition type "${type}".` + (match === undefined ? '' : ` Did you mean "${match}"?`)
+  );
+}
+
+function resolveConditionList(conditions: ConditionConfig[], combinator: 'anyOf' | 'allOf'): ResolvedCondition[] {
+  if (conditions.length === 0) {
+    throw new Error(`"${combinator}" needs at least one condition.`);
+  }
+  return conditions.map(c => resolveCondition(c));
 }
 
 function resolveEntrypoint(ep: EntrypointConfig, profileName: string): ResolvedEntrypoint {
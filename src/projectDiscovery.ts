@@ -0,0 +1,355 @@
+/**
+ * Gradle and Maven project discovery for the `projectRoot` tool argument.
+ * Build files are read as text: modules come from `settings.gradle(.kts)` and `<modules>`,
+ * source sets from the `src/<name>/` convention, `sourceSets { ... }` blocks and the
+ * `<build>` directories of `pom.xml`. Nothing is executed, so dynamic build logic
+ * (loops, variables, plugins that add source sets) is not seen.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// --- Types ---
+
+export type BuildTool = 'gradle' | 'maven';
+
+export interface SourceSet {
+  name: string;
+  /** Test source sets are analyzed as references only */
+  kind: 'main' | 'test';
+  sourceDirs: string[];
+  resourceDirs: string[];
+}
+
+export interface ProjectModule {
+  /** Gradle project path (`:app`) or Maven module path relative to the root (`app`); `""` for the root */
+  name: string;
+  directory: string;
+  sourceSets: SourceSet[];
+}
+
+export interface ProjectLayout {
+  root: string;
+  buildTool: BuildTool;
+  modules: ProjectModule[];
+}
+
+// --- Shared helpers ---
+
+const SOURCE_DIR_NAMES = ['java', 'kotlin'];
+
+function isDirectory(dir: string): boolean {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function readText(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function firstExisting(dir: string, names: string[]): string | undefined {
+  return names.map(name => path.join(dir, name)).find(file => fs.existsSync(file));
+}
+
+/**
+ * Conventional test source-set names: `test`, `it`, `androidTest` and their variants
+ * (`testFixtures`, `testDebug`, `androidTestRelease`), and names ending in `Test` or `Tests`
+ * (`integrationTest`, `functionalTests`)
+ */
+const TEST_SOURCE_SET_NAME = /^(?:test|it|androidTest)(?:[A-Z]\w*)?$|[a-z0-9]Tests?$/;
+
+function sourceSetKind(name: string, testSourceSets: Set<string>): 'main' | 'test' {
+  return testSourceSets.has(name) || TEST_SOURCE_SET_NAME.test(name) ? 'test' : 'main';
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/** Keeps only existing directories and drops source sets left without any */
+function existingSourceSets(sourceSets: SourceSet[]): SourceSet[] {
+  return sourceSets
+    .map(set => ({
+      ...set,
+      sourceDirs: unique(set.sourceDirs).filter(isDirectory),
+      resourceDirs: unique(set.resourceDirs).filter(isDirectory),
+    }))
+    .filter(set => set.sourceDirs.length > 0 || set.resourceDirs.length > 0);
+}
+
+// --- Gradle ---
+
+/** Removes comments while keeping string literals (which may contain `//`) intact */
+function stripScriptComments(script: string): string {
+  return script.replace(
+    /("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (_match, literal: string | undefined) => literal ?? ''
+  );
+}
+
+function stringLiterals(text: string): string[] {
+  return [...text.matchAll(/"([^"\n]*)"|'([^'\n]*)'/g)].map(match => match[1] ?? match[2]);
+}
+
+/** Body of the brace block opening at `openIndex`, or undefined when unbalanced */
+function blockBody(text: string, openIndex: number): { body: string; end: number } | undefined {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' || char === "'") {
+      const close = text.indexOf(char, i + 1);
+      if (close === -1) return undefined;
+      i = close;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return { body: text.substring(openIndex + 1, i), end: i };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Named blocks at the top level of a block body: `name { }`, `getByName("name") { }`,
+ * `named("name") { }`, `val name by creating { }` and similar
+ */
+function namedBlocks(body: string): Array<{ name: string; body: string }> {
+  const blocks: Array<{ name: string; body: string }> = [];
+  const pattern = /(?:\b(?:getByName|named|create|maybeCreate|register)\s*\(\s*["']([\w-]+)["']\s*\)|\bval\s+(\w+)\s+by\s+\w+|\b(\w+))\s*\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const block = blockBody(body, match.index + match[0].length - 1);
+    if (!block) break;
+    blocks.push({ name: match[1] ?? match[2] ?? match[3], body: block.body });
+    pattern.lastIndex = block.end + 1;
+  }
+  return blocks;
+}
+
+const SRC_DIRS_STATEMENT = /(?:setSrcDirs|srcDirs?)\b[^\n]*/g;
+
+/** Directories declared in the build script, mapped to the source set declaring them */
+type DeclaredDirs = Map<string, SourceSet>;
+
+/**
+ * Applies one `srcDir`/`srcDirs` statement of a source set. `srcDirs = [...]` and
+ * `setSrcDirs(...)` replace the conventional directories, `srcDir(...)` and `srcDirs(...)` add.
+ */
+function applySrcDirs(set: SourceSet, kind: string, statement: string, moduleDir: string, declared: DeclaredDirs): void {
+  const dirs = stringLiterals(statement).map(dir => path.resolve(moduleDir, dir));
+  if (dirs.length === 0) return;
+  const replaces = /^(?:srcDirs\s*=|setSrcDirs\b)/.test(statement);
+  const key = kind === 'resources' ? 'resourceDirs' : 'sourceDirs';
+  set[key] = replaces ? dirs : [...set[key], ...dirs];
+  for (const dir of dirs) declared.set(dir, set);
+}
+
+/** Applies the directory declarations inside a `sourceSets { name { ... } }` entry */
+function applySourceSetBlock(set: SourceSet, body: string, moduleDir: string, declared: DeclaredDirs): void {
+  for (const block of namedBlocks(body)) {
+    if (!['java', 'kotlin', 'resources'].includes(block.name)) continue;
+    for (const statement of block.body.match(SRC_DIRS_STATEMENT) ?? []) {
+      applySrcDirs(set, block.name, statement, moduleDir, declared);
+    }
+  }
+  for (const match of body.matchAll(/\b(java|kotlin|resources)\s*\.\s*((?:setSrcDirs|srcDirs?)\b[^\n]*)/g)) {
+    applySrcDirs(set, match[1], match[2], moduleDir, declared);
+  }
+}
+
+/** `sourceSets.<name>`, `sourceSets["<name>"]` or `sourceSets.getByName("<name>")` / `.named("<name>")` */
+const SOURCE_SET_REFERENCE = String.raw`sourceSets\s*(?:\[\s*["']([\w-]+)["']\s*\]|\.\s*(?:getByName|named)\s*\(\s*["']([\w-]+)["']\s*\)|\.\s*(\w+))`;
+
+/**
+ * Source sets a build script runs as tests whatever their name: JVM test suites
+ * (`register<JvmTestSuite>("name")`, `name(JvmTestSuite)`, `val name by registering(JvmTestSuite::class)`)
+ * and source sets whose classes a test task runs (`testClassesDirs = sourceSets.name.output.classesDirs`)
+ */
+function gradleTestSourceSets(script: string): Set<string> {
+  const names = new Set<string>();
+  const suitePatterns = [
+    /\bregister\s*<\s*JvmTestSuite\s*>\s*\(\s*["']([\w-]+)["']/g,
+    /\bregister\s*\(\s*["']([\w-]+)["']\s*,\s*JvmTestSuite\b/g,
+    /\b(\w+)\s*\(\s*JvmTestSuite\b/g,
+    /\bval\s+(\w+)\s+by\s+(?:registering|creating|getting)\s*\(\s*JvmTestSuite\b/g,
+  ];
+  for (const pattern of suitePatterns) {
+    for (const match of script.matchAll(pattern)) names.add(match[1]);
+  }
+  for (const match of script.matchAll(new RegExp(String.raw`\btestClassesDirs\b[^\n]*?` + SOURCE_SET_REFERENCE, 'g'))) {
+    names.add(match[1] ?? match[2] ?? match[3]);
+  }
+  return names;
+}
+
+/**
+ * Source sets of a Gradle module: `src/<name>/{java,kotlin,resources}` plus `sourceSets { }`
+ * blocks. A directory declared by one source set is removed from the conventional others
+ * (`src/it/java` declared by `integrationTest` is not also a source set named `it`).
+ */
+function gradleSourceSets(moduleDir: string): SourceSet[] {
+  const sets = new Map<string, SourceSet>();
+  const declared: DeclaredDirs = new Map();
+  const srcDir = path.join(moduleDir, 'src');
+  const conventional = isDirectory(srcDir)
+    ? fs.readdirSync(srcDir, { withFileTypes: true }).filter(entry => entry.isDirectory()).map(entry => entry.name).sort()
+    : [];
+  const buildFile = firstExisting(moduleDir, ['build.gradle.kts', 'build.gradle']);
+  const script = buildFile ? stripScriptComments(readText(buildFile) ?? '') : '';
+  const testSourceSets = gradleTestSourceSets(script);
+  const setNamed = (name: string): SourceSet => {
+    if (!sets.has(name)) {
+      const base = path.join(srcDir, name);
+      sets.set(name, {
+        name,
+        kind: sourceSetKind(name, testSourceSets),
+        sourceDirs: SOURCE_DIR_NAMES.map(dir => path.join(base, dir)),
+        resourceDirs: [path.join(base, 'resources')],
+      });
+    }
+    return sets.get(name)!;
+  };
+  for (const name of ['main', 'test', ...conventional]) setNamed(name);
+
+  for (const match of script.matchAll(/\bsourceSets\s*\{/g)) {
+    const block = blockBody(script, match.index! + match[0].length - 1);
+    if (!block) continue;
+    for (const entry of namedBlocks(block.body)) applySourceSetBlock(setNamed(entry.name), entry.body, moduleDir, declared);
+  }
+  // One-line forms: sourceSets["main"].java.srcDir(...), sourceSets.main.java.srcDirs = [...]
+  const oneLine = new RegExp(String.raw`\b${SOURCE_SET_REFERENCE}\s*\.\s*(java|kotlin|resources)\s*\.\s*((?:setSrcDirs|srcDirs?)\b[^\n]*)`, 'g');
+  for (const match of script.matchAll(oneLine)) {
+    applySrcDirs(setNamed(match[1] ?? match[2] ?? match[3]), match[4], match[5], moduleDir, declared);
+  }
+
+  const isOwnDir = (set: SourceSet) => (dir: string) => (declared.get(dir) ?? set) === set;
+  return existingSourceSets([...sets.values()].map(set => ({
+    ...set,
+    sourceDirs: set.sourceDirs.filter(isOwnDir(set)),
+    resourceDirs: set.resourceDirs.filter(isOwnDir(set)),
+  })));
+}
+
+/** Gradle project paths from `include` statements, mapped to their directories */
+function gradleModules(root: string): Array<{ name: string; directory: string }> {
+  const modules = [{ name: '', directory: root }];
+  const settingsFile = firstExisting(root, ['settings.gradle.kts', 'settings.gradle']);
+  if (!settingsFile) return modules;
+  const settings = stripScriptComments(readText(settingsFile) ?? '');
+
+  const projectDirs = new Map<string, string>();
+  const projectDirPattern = /project\(\s*["'](:?[^"']+)["']\s*\)\s*\.\s*projectDir\s*=\s*(?:file\(\s*["']([^"']+)["']\s*\)|(?:new\s+)?File\(\s*(?:rootDir|settingsDir)\s*,\s*["']([^"']+)["']\s*\))/g;
+  for (const match of settings.matchAll(projectDirPattern)) {
+    const projectPath = match[1].startsWith(':') ? match[1] : `:${match[1]}`;
+    projectDirs.set(projectPath, path.resolve(root, match[2] ?? match[3]));
+  }
+
+  for (const match of settings.matchAll(/\binclude\b\s*(?:\(([^)]*)\)|([^\n]*))/g)) {
+    for (const literal of stringLiterals(match[1] ?? match[2])) {
+      const projectPath = literal.startsWith(':') ? literal : `:${literal}`;
+      const directory = projectDirs.get(projectPath)
+        ?? path.join(root, ...projectPath.split(':').filter(Boolean));
+      modules.push({ name: projectPath, directory });
+    }
+  }
+  return modules;
+}
+
+function discoverGradle(root: string): ProjectModule[] {
+  return gradleModules(root).map(module => ({ ...module, sourceSets: gradleSourceSets(module.directory) }));
+}
+
+// --- Maven ---
+
+function xmlValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`, 'g');
+  return [...xml.matchAll(pattern)].map(match => match[1]);
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  return [...xml.matchAll(pattern)].map(match => match[1]);
+}
+
+function resolveMavenPath(moduleDir: string, value: string): string {
+  return path.resolve(moduleDir, value.replace(/^\$\{(?:project\.)?basedir\}\/?/, '') || '.');
+}
+
+/** Main and test source sets of a Maven module from its `<build>` section, with the standard defaults */
+function mavenSourceSets(moduleDir: string, pom: string): SourceSet[] {
+  const build = xmlBlocks(pom, 'build')[0] ?? '';
+  const withoutPlugins = build.replace(/<plugins>[\s\S]*?<\/plugins>|<pluginManagement>[\s\S]*?<\/pluginManagement>/g, '');
+  const resolve = (value: string) => resolveMavenPath(moduleDir, value);
+  const sourceSet = (kind: 'main' | 'test', sourceTag: string, resourceTag: string): SourceSet => {
+    const declared = xmlValues(withoutPlugins, sourceTag);
+    const resources = xmlBlocks(withoutPlugins, resourceTag).flatMap(block => xmlValues(block, 'directory'));
+    return {
+      name: kind,
+      kind,
+      sourceDirs: declared.length > 0
+        ? [...declared.map(resolve), path.join(moduleDir, 'src', kind, 'kotlin')]
+        : SOURCE_DIR_NAMES.map(dir => path.join(moduleDir, 'src', kind, dir)),
+      resourceDirs: resources.length > 0 ? resources.map(resolve) : [path.join(moduleDir, 'src', kind, 'resources')],
+    };
+  };
+  return existingSourceSets([
+    sourceSet('main', 'sourceDirectory', 'resource'),
+    sourceSet('test', 'testSourceDirectory', 'testResource'),
+  ]);
+}
+
+function discoverMaven(root: string): ProjectModule[] {
+  const modules: ProjectModule[] = [];
+  const visited = new Set<string>();
+  const visit = (directory: string) => {
+    if (visited.has(directory)) return;
+    visited.add(directory);
+    const pom = readText(path.join(directory, 'pom.xml'))?.replace(/<!--[\s\S]*?-->/g, '');
+    if (pom === undefined) return;
+    const name = path.relative(root, directory).split(path.sep).join('/');
+    modules.push({ name, directory, sourceSets: mavenSourceSets(directory, pom) });
+    for (const module of xmlValues(pom, 'module')) {
+      const target = path.resolve(directory, module);
+      visit(target.endsWith('.xml') ? path.dirname(target) : target);
+    }
+  };
+  visit(root);
+  return modules;
+}
+
+// --- Entry points ---
+
+/**
+ * Discovers the modules and source sets of the Gradle or Maven build in `projectRoot`.
+ * Gradle wins when both build files are present. Throws when neither is found.
+ */
+export function discoverProject(projectRoot: string): ProjectLayout {
+  const root = path.resolve(projectRoot);
+  if (!isDirectory(root)) throw new Error(`Project root not found: ${projectRoot}`);
+
+  if (firstExisting(root, ['settings.gradle.kts', 'settings.gradle', 'build.gradle.kts', 'build.gradle'])) {
+    return { root, buildTool: 'gradle', modules: discoverGradle(root) };
+  }
+  if (fs.existsSync(path.join(root, 'pom.xml'))) {
+    return { root, buildTool: 'maven', modules: discoverMaven(root) };
+  }
+  throw new Error(`No settings.gradle, build.gradle or pom.xml found in ${projectRoot}`);
+}
+
+/** Source and resource directories of all modules, split into main and test source sets */
+export function projectRoots(layout: ProjectLayout): { sourceRoots: string[]; testRoots: string[]; resourceRoots: string[] } {
+  const sets = layout.modules.flatMap(module => module.sourceSets);
+  return {
+    sourceRoots: unique(sets.filter(set => set.kind === 'main').flatMap(set => set.sourceDirs)),
+    testRoots: unique(sets.filter(set => set.kind === 'test').flatMap(set => set.sourceDirs)),
+    resourceRoots: unique(sets.filter(set => set.kind === 'main').flatMap(set => set.resourceDirs)),
+  };
+}
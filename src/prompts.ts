@@ -0,0 +1,218 @@
+/**
+ * MCP prompts: the multi-step cleanup workflows as instruction sequences that reference the
+ * server's own tools, so every client runs them the same way.
+ */
+
+// --- Types ---
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptResult {
+  description: string;
+  messages: Array<{ role: "user"; content: { type: "text"; text: string } }>;
+}
+
+type PromptLanguage = "java" | "kotlin" | "mixed";
+
+// --- Definitions ---
+
+const PATH_ARGUMENT: PromptArgument = {
+  name: "path",
+  description: "Module or source directory to work on",
+  required: true,
+};
+
+const LANGUAGE_ARGUMENT: PromptArgument = {
+  name: "language",
+  description: "java, kotlin or mixed (default: mixed)",
+  required: false,
+};
+
+const PROFILES_ARGUMENT: PromptArgument = {
+  name: "profiles",
+  description: "Comma-separated profiles to activate, e.g. \"spring,junit5\" (default: the config's activeProfiles)",
+  required: false,
+};
+
+const BUILD_COMMAND_ARGUMENT: PromptArgument = {
+  name: "buildCommand",
+  description: "Command that compiles and tests the module, e.g. \"./gradlew :app:check\"",
+  required: false,
+};
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "cleanup-dead-code",
+    description: "Detect, triage, remove and verify dead code in a module",
+    arguments: [PATH_ARGUMENT, LANGUAGE_ARGUMENT, PROFILES_ARGUMENT, BUILD_COMMAND_ARGUMENT],
+  },
+  {
+    name: "triage-public-api",
+    description: "Classify unused public declarations of a module without changing code",
+    arguments: [
+      PATH_ARGUMENT,
+      LANGUAGE_ARGUMENT,
+      PROFILES_ARGUMENT,
+      {
+        name: "testPath",
+        description: "Test sources whose references count only as test usage",
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "tidy-imports-in-module",
+    description: "Remove unused imports in a module and verify the build",
+    arguments: [PATH_ARGUMENT, LANGUAGE_ARGUMENT, BUILD_COMMAND_ARGUMENT],
+  },
+];
+
+// --- Argument helpers ---
+
+function parseLanguage(value: string | undefined): PromptLanguage {
+  const language = value?.trim().toLowerCase() || "mixed";
+  if (language !== "java" && language !== "kotlin" && language !== "mixed") {
+    throw new Error(`Invalid language: "${value}". Expected java, kotlin or mixed`);
+  }
+  return language;
+}
+
+function parseProfiles(value: string | undefined): string[] | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  return value.split(",").map(profile => profile.trim()).filter(Boolean);
+}
+
+/** Per-language tools run once per language of the module */
+function languagesOf(language: PromptLanguage): Array<"java" | "kotlin"> {
+  return language === "mixed" ? ["java", "kotlin"] : [language];
+}
+
+function publicDeadCodeTool(language: PromptLanguage): string {
+  return language === "mixed" ? "detect_public_dead_code" : `detect_public_dead_code_${language}`;
+}
+
+/** Tool call reference: the tool name and its arguments as JSON */
+function call(tool: string, args: Record<string, unknown>): string {
+  return `\`${tool}\` with \`${JSON.stringify(args)}\``;
+}
+
+function calls(tools: string[], args: Record<string, unknown>): string {
+  return tools.map(tool => call(tool, args)).join(" and ");
+}
+
+function numbered(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join("\n");
+}
+
+function verifyStep(buildCommand: string | undefined): string {
+  return buildCommand
+    ? `Verify: run \`${buildCommand}\`. If it fails, restore what broke it and treat those declarations as false positives.`
+    : "Verify: build the module and run its tests with the project's build tool. If it fails, restore what broke it and treat those declarations as false positives.";
+}
+
+// --- Prompts ---
+
+function cleanupDeadCode(args: Record<string, string>): string {
+  const language = parseLanguage(args.language);
+  const profiles = parseProfiles(args.profiles);
+  const languages = languagesOf(language);
+  const paths = [args.path];
+
+  return [
+    `Clean up dead code in \`${args.path}\`. Follow these steps in order and report the outcome of each.`,
+    "",
+    numbered([
+      `Detect unused public code: call ${call(publicDeadCodeTool(language), {
+        paths,
+        ...(profiles && { activeProfiles: profiles }),
+        reachability: true,
+      })}. Findings that share a \`clusterId\` only keep each other alive and can be removed together.`,
+      `Triage every finding before removing anything. Keep declarations that are used through reflection, dependency injection, serialization, XML or build scripts, or by consumers outside this module. For a framework entrypoint the profiles missed, read \`lang-tools://profiles/{name}\` to check its rules and suggest a config profile instead of deleting the code.`,
+      `Remove the confirmed public dead code by editing the files. Remove whole clusters at once, and delete files that become empty.`,
+      `Detect unused private code and local variables: call ${calls(languages.map(l => `detect_dead_code_${l}`), { paths })}.`,
+      `Remove it: call ${calls(languages.map(l => `fix_dead_code_${l}`), { paths, dryRun: true })}, review \`removed\` and \`unsafe\`, then call again without \`dryRun\`. Handle the \`unsafe\` entries by hand or leave them.`,
+      `Remove imports left unused by the removals: call ${calls(languages.map(l => `cleanup_unused_imports_${l}`), { paths })}.`,
+      verifyStep(args.buildCommand),
+      `Repeat from step 1 until no confirmed findings remain, since removals can make more code unused. Finish with a summary of removed declarations and kept false positives, with the reason for each.`,
+    ]),
+  ].join("\n");
+}
+
+function triagePublicApi(args: Record<string, string>): string {
+  const language = parseLanguage(args.language);
+  const profiles = parseProfiles(args.profiles);
+
+  return [
+    `Triage the unused public API of \`${args.path}\`. Do not change any code.`,
+    "",
+    numbered([
+      `Read \`lang-tools://config\` to see the active profiles and exclusions in effect.`,
+      `Call ${call(publicDeadCodeTool(language), {
+        paths: [args.path],
+        ...(args.testPath && { referencePaths: [args.testPath], reportUsedOnlyInTests: true }),
+        ...(profiles && { activeProfiles: profiles }),
+      })}.`,
+      `Classify each finding as one of:
+   - **remove**: no caller anywhere, including reflection, configuration and other modules
+   - **keep as API**: intended for consumers outside the analyzed sources (published library, plugin or extension point)
+   - **entrypoint**: invoked by a framework; read \`lang-tools://profiles/{name}\` for the active profiles and name the condition that should have matched${args.testPath ? `
+   - **test-only**: \`used_only_in_tests\` findings; decide whether the tests or the code should go` : ""}`,
+      `For the **entrypoint** group, propose a config profile entry (entrypoint name and rules) that would keep them alive.`,
+      `Report a table with columns: file, declaration, category, classification, reason. End with the number of findings per classification.`,
+    ]),
+  ].join("\n");
+}
+
+function tidyImportsInModule(args: Record<string, string>): string {
+  const languages = languagesOf(parseLanguage(args.language));
+  const paths = [args.path];
+
+  return [
+    `Tidy the imports in \`${args.path}\`.`,
+    "",
+    numbered([
+      `Read \`lang-tools://config\` to see whether \`sortImports\` is enabled and which import layout applies.`,
+      `Preview: call ${calls(languages.map(l => `cleanup_unused_imports_${l}`), { paths, dryRun: true })}. Check \`removedImports\` for imports that are only used from KDoc or Javadoc, or that generated code needs.`,
+      `Apply: call the same tools without \`dryRun\`.`,
+      verifyStep(args.buildCommand),
+      `Summarize the number of files changed and imports removed.`,
+    ]),
+  ].join("\n");
+}
+
+const RENDERERS: Record<string, (args: Record<string, string>) => string> = {
+  "cleanup-dead-code": cleanupDeadCode,
+  "triage-public-api": triagePublicApi,
+  "tidy-imports-in-module": tidyImportsInModule,
+};
+
+/**
+ * Renders a prompt as a single user message. Throws for unknown prompts, missing required
+ * arguments and invalid argument values.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): PromptResult {
+  const definition = PROMPTS.find(prompt => prompt.name === name);
+  const render = RENDERERS[name];
+  if (!definition || !render) throw new Error(`Unknown prompt: ${name}`);
+
+  for (const argument of definition.arguments) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new Error(`Missing required argument "${argument.name}" for prompt ${name}`);
+    }
+  }
+
+  return {
+    description: definition.description,
+    messages: [{ role: "user", content: { type: "text", text: render(args) } }],
+  };
+}
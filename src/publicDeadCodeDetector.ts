@@ -6,7 +6,8 @@
 import Parser from 'tree-sitter';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parseJava, parseKotlin } from './importCleaner.js';
+import { parseSourceFile, type ParsedSourceFile } from './parseCache.js';
+import { runScanSync, type Scan } from './scanProgress.js';
 import {
   JAVA_CONFIG,
   KOTLIN_CONFIG,
@@ -23,6 +24,16 @@ import {
   annotationMatchesImport,
   interfaceIsFromPackage,
 } from './profileConfig.js';
+import {
+  ClassSymbol,
+  FileContext,
+  SymbolTable,
+  buildSymbolTable,
+  collectClassSymbols,
+  collectFileReferences,
+  ownerClassFqn,
+  resolveTypeName,
+} from './symbolTable.js';
 
 // --- Types ---
 
@@ -31,7 +42,16 @@ export type PublicDeadCodeCategory =
   | 'unused_public_field'
   | 'unused_public_class'
   | 'unused_protected_method'
-  | 'unused_protected_field';
+  | 'unused_protected_field'
+  | 'used_only_in_tests';
+
+export const PUBLIC_DEAD_CODE_CATEGORIES: PublicDeadCodeCategory[] = [
+  'unused_public_method', 'unused_public_field', 'unused_public_class',
+  'unused_protected_method', 'unused_protected_field', 'used_only_in_tests',
+];
+
+/** `mixed` analyzes `.java` and `.kt` files together, choosing the parser by extension */
+export type PublicDeadCodeLanguage = 'java' | 'kotlin' | 'mixed';
 
 export interface PublicDeadCodeFinding {
   category: PublicDeadCodeCategory;
@@ -40,6 +60,18 @@ export interface PublicDeadCodeFinding {
   column: number;
   enclosingScope: string;
   message: string;
+  /** Reachability mode: id of the dead cluster this finding belongs to (clusters of two or more) */
+  clusterId?: number;
+}
+
+/**
+ * Connected group of unreachable declarations (linked by references or containment)
+ * that can only be deleted together.
+ */
+export interface DeadCodeCluster {
+  id: number;
+  size: number;
+  declarations: string[];  // "Scope.name", or the bare name for classes and top-level declarations
 }
 
 export interface PublicDeadCodeFileResult {
@@ -55,6 +87,44 @@ export interface PublicDeadCodeResult {
   activeProfiles: string[];
   totalFindings: number;
   files: PublicDeadCodeFileResult[];
+  /** Present in reachability mode; lists clusters with two or more declarations, largest first */
+  clusters?: DeadCodeCluster[];
+  /**
+   * Set when the scan was stopped before findings were computed. Only file errors found so
+   * far are listed: findings from a partial reference index would be false positives. Callers
+   * use it to skip baseline writes; over MCP a stopped scan is a cancelled call without a result.
+   */
+  incomplete?: boolean;
+}
+
+export interface PublicDeadCodeOptions {
+  /**
+   * Report declarations that are not reachable from entrypoints, main methods and tests
+   * instead of declarations that are not referenced anywhere.
+   */
+  reachability?: boolean;
+  /**
+   * Files parsed for references only (e.g. test sources): they keep declarations in the
+   * analyzed files alive, but their own declarations are never reported
+   */
+  referenceFiles?: string[];
+  /**
+   * Also report declarations that are kept alive only by references from `referenceFiles`,
+   * with the `used_only_in_tests` category
+   */
+  reportUsedOnlyInTests?: boolean;
+  /** Directories searched for `META-INF/services` in addition to the source roots */
+  resourceRoots?: string[];
+  /**
+   * `annotatedBy` also matches declarations whose annotations are declared in the analyzed
+   * sources and are (transitively) annotated with the annotation
+   */
+  metaAnnotations?: boolean;
+  /**
+   * Rules for the declarations of particular files, e.g. from the config files of their
+   * module; declarations of other files use the rules passed to the detection
+   */
+  fileRules?: Map<string, ResolvedRules>;
 }
 
 // Internal declaration type
@@ -222,17 +292,14 @@ function findNameNode(node: Parser.SyntaxNode, config: LanguageConfig): Parser.S
 }
 
 /**
- * Collect "reference" identifiers from a file -- identifiers that appear
- * as uses/references, NOT as the defining name in a declaration.
- * This prevents declaration names from polluting the global "used names" set.
+ * Collect start positions of identifier nodes that are the defining name of a
+ * declaration, so that they are not mistaken for references.
  */
-function collectReferenceIdentifiers(
+function collectDefinitionPositions(
   rootNode: Parser.SyntaxNode,
   sourceCode: string,
   config: LanguageConfig,
-): Set<string> {
-  const ids = new Set<string>();
-
+): Set<number> {
   // Node types that define a name -- we need to mark their name-identifier positions
   const JAVA_DECL_TYPES = [
     'method_declaration', 'class_declaration', 'enum_declaration',
@@ -290,11 +357,29 @@ function collectReferenceIdentifiers(
     }
   }
 
+  return defPositions;
+}
+
+/**
+ * Collect "reference" identifiers from a file -- identifiers that appear
+ * as uses/references, NOT as the defining name in a declaration.
+ * This prevents declaration names from polluting the global "used names" set.
+ * Positions in `excludePositions` (e.g. references attributed to a typed receiver) are skipped.
+ */
+function collectReferenceIdentifiers(
+  rootNode: Parser.SyntaxNode,
+  sourceCode: string,
+  config: LanguageConfig,
+  defPositions: Set<number>,
+  excludePositions: Set<number> = new Set(),
+): Set<string> {
+  const ids = new Set<string>();
+
   // Collect all identifier nodes, skipping definition positions
   for (const idType of config.identifierTypes) {
     const nodes = rootNode.descendantsOfType(idType);
     for (const n of nodes) {
-      if (!defPositions.has(n.startIndex)) {
+      if (!defPositions.has(n.startIndex) && !excludePositions.has(n.startIndex)) {
         ids.add(sourceCode.substring(n.startIndex, n.endIndex));
       }
     }
@@ -450,26 +535,40 @@ function isDataClassGeneratedMember(name: string): boolean {
 
 // --- Entrypoint matching ---
 
+/** What conditions are matched against besides the declaration itself */
+interface MatchContext {
+  serviceNames: Set<string>;
+  /** Meta-annotation mode: whether an annotation of the declaration is meta-annotated with the FQN */
+  isMetaAnnotated?: (decl: Declaration, fqn: string) => boolean;
+}
+
+/** Whether one of the annotation names is the annotation `fqn`, imported exactly or by wildcard */
+function hasImportedAnnotation(fqn: string, annotationNames: string[], fileImports: string[]): boolean {
+  const lastDot = fqn.lastIndexOf('.');
+  const simpleName = lastDot === -1 ? fqn : fqn.substring(lastDot + 1);
+  if (!annotationNames.includes(simpleName)) return false;
+  return fileImports.some(imp => annotationMatchesImport(fqn, imp));
+}
+
 /**
  * Checks a single condition against a declaration using full import resolution.
- * - annotatedBy: simple name must match AND file must import the FQN (exact or wildcard)
+ * - annotatedBy: simple name must match AND file must import the FQN (exact or wildcard);
+ *   in meta-annotation mode, an annotation declared in the sources may carry it instead
  * - implementsInterfaceFromPackage / extendsClassFromPackage: interface/superclass resolved via file imports
  * - overridesMethodFromInterface: isOverride AND interface from package
  * - namePattern / packagePattern: regex match against name / file package
  * - serviceDiscovery: name found in META-INF/services
+ * - anyOf / allOf / not: any, all or none of the nested conditions
  */
 function matchesCondition(
   decl: Declaration,
   cond: ResolvedCondition,
-  serviceNames: Set<string>,
+  context: MatchContext,
 ): boolean {
   switch (cond.type) {
-    case 'annotatedBy': {
-      const lastDot = cond.fqn.lastIndexOf('.');
-      const simpleName = lastDot === -1 ? cond.fqn : cond.fqn.substring(lastDot + 1);
-      if (!decl.annotationNames.includes(simpleName)) return false;
-      return decl.fileImports.some(imp => annotationMatchesImport(cond.fqn, imp));
-    }
+    case 'annotatedBy':
+      return hasImportedAnnotation(cond.fqn, decl.annotationNames, decl.fileImports)
+        || (context.isMetaAnnotated?.(decl, cond.fqn) ?? false);
     case 'implementsInterfaceFromPackage':
       return decl.implementedInterfaces.some(i =>
         interfaceIsFromPackage(i, cond.pattern, decl.fileImports)
@@ -500,24 +599,103 @@ function matchesCondition(
     case 'packagePattern':
       return cond.regex.test(decl.filePackage);
     case 'serviceDiscovery':
-      return serviceNames.has(decl.name) || serviceNames.has(decl.enclosingClass);
+      return context.serviceNames.has(decl.name) || context.serviceNames.has(decl.enclosingClass);
+    case 'anyOf':
+      return cond.conditions.some(c => matchesCondition(decl, c, context));
+    case 'allOf':
+      return cond.conditions.every(c => matchesCondition(decl, c, context));
+    case 'not':
+      return !matchesCondition(decl, cond.condition, context);
+  }
+}
+
+/** Whether the condition or one of its nested conditions is serviceDiscovery */
+function usesServiceDiscovery(cond: ResolvedCondition): boolean {
+  switch (cond.type) {
+    case 'serviceDiscovery':
+      return true;
+    case 'anyOf':
+    case 'allOf':
+      return cond.conditions.some(usesServiceDiscovery);
+    case 'not':
+      return usesServiceDiscovery(cond.condition);
+    default:
+      return false;
   }
 }
 
 function matchesEntrypoint(
   decl: Declaration,
   ep: ResolvedEntrypoint,
-  serviceNames: Set<string>,
+  context: MatchContext,
 ): boolean {
-  return ep.conditions.every(c => matchesCondition(decl, c, serviceNames));
+  return ep.conditions.every(c => matchesCondition(decl, c, context));
 }
 
 function isAliveByAnyEntrypoint(
   decl: Declaration,
   rules: ResolvedRules,
-  serviceNames: Set<string>,
+  context: MatchContext,
 ): boolean {
-  return rules.entrypoints.some(ep => matchesEntrypoint(decl, ep, serviceNames));
+  return rules.entrypoints.some(ep => matchesEntrypoint(decl, ep, context));
+}
+
+// --- Meta-annotations ---
+
+/** Annotation type declared in the analyzed sources */
+interface AnnotationType {
+  file: string;
+  annotationNames: string[];
+}
+
+/** Annotation types declared in a file, by FQN */
+function collectAnnotationTypes(
+  rootNode: Parser.SyntaxNode,
+  sourceCode: string,
+  language: 'java' | 'kotlin',
+  context: FileContext,
+): Map<string, AnnotationType> {
+  const types = new Map<string, AnnotationType>();
+  const nodes = language === 'java'
+    ? rootNode.descendantsOfType('annotation_type_declaration')
+    : rootNode.descendantsOfType('class_declaration').filter(node =>
+      node.namedChildren.some(child => child.type === 'modifiers'
+        && child.namedChildren.some(m => m.type === 'class_modifier' && getSourceText(m, sourceCode) === 'annotation')));
+  for (const node of nodes) {
+    types.set(ownerClassFqn(node, sourceCode, context), {
+      file: context.file,
+      annotationNames: language === 'java'
+        ? getAnnotationNamesJava(node, sourceCode)
+        : getAnnotationNamesKotlin(node, sourceCode),
+    });
+  }
+  return types;
+}
+
+/**
+ * Resolves the annotations of a declaration to annotation types declared in the sources and
+ * follows the annotations on those types, so that `@OurEndpoint` annotated with
+ * `@RestController` counts as `@RestController`.
+ */
+function metaAnnotationResolver(
+  annotationTypes: Map<string, AnnotationType>,
+  symbolTable: SymbolTable,
+  fileContexts: Map<string, FileContext>,
+): (decl: Declaration, fqn: string) => boolean {
+  return (decl, fqn) => {
+    const visited = new Set<string>();
+    const search = (annotationNames: string[], context: FileContext): boolean =>
+      annotationNames.some(name => resolveTypeName(name, context, symbolTable).some(typeFqn => {
+        const type = annotationTypes.get(typeFqn);
+        if (!type || visited.has(typeFqn)) return false;
+        visited.add(typeFqn);
+        const typeContext = fileContexts.get(type.file)!;
+        return typeFqn === fqn
+          || hasImportedAnnotation(fqn, type.annotationNames, typeContext.imports)
+          || search(type.annotationNames, typeContext);
+      }));
+    return decl.annotationNames.length > 0 && search(decl.annotationNames, fileContexts.get(decl.file)!);
+  };
 }
 
 // --- Service Discovery ---
@@ -1086,6 +1264,69 @@ function collectDeclarationsKotlin(
   return decls;
 }
 
+// --- Cross-language names ---
+
+function languageOfFile(filePath: string): 'java' | 'kotlin' {
+  return filePath.endsWith('.kt') ? 'kotlin' : 'java';
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/** Kotlin's synthetic property name for a Java accessor suffix: URL -> url, URLPath -> urlPath */
+function decapitalize(name: string): string {
+  const upperRun = name.match(/^[A-Z]+/)?.[0] ?? '';
+  if (upperRun.length <= 1) return name.charAt(0).toLowerCase() + name.slice(1);
+  const keep = upperRun.length < name.length ? upperRun.length - 1 : upperRun.length;
+  return name.slice(0, keep).toLowerCase() + name.slice(keep);
+}
+
+/** `@JvmName` values on a Kotlin declaration, keyed by use-site target ('' for none) */
+function jvmNames(decl: Declaration): Map<string, string> {
+  const names = new Map<string, string>();
+  const modifiers = decl.node.namedChildren.find(c => c.type === 'modifiers');
+  if (!modifiers) return names;
+  const modifierText = getSourceText(modifiers, decl.sourceCode);
+  for (const match of modifierText.matchAll(/@(?:(get|set):)?JvmName\(\s*"([^"]+)"\s*\)/g)) {
+    names.set(match[1] ?? '', match[2]);
+  }
+  return names;
+}
+
+/**
+ * Names under which a declaration is visible from the other language: Java sees Kotlin
+ * properties through getFoo/isFoo/setFoo accessors and `@JvmName` overrides; Kotlin sees
+ * Java accessors as synthetic properties. Companion and facade class access are handled
+ * by the symbol table.
+ */
+function crossLanguageNames(decl: Declaration): string[] {
+  if (decl.declCategory === 'class') return [];
+  const names: string[] = [];
+
+  if (languageOfFile(decl.file) === 'kotlin') {
+    const renamed = jvmNames(decl);
+    if (decl.declCategory === 'field') {
+      const booleanStyle = /^is[A-Z]/.test(decl.name);
+      names.push(renamed.get('get') ?? (booleanStyle ? decl.name : `get${capitalize(decl.name)}`));
+      names.push(renamed.get('set') ?? (booleanStyle ? `set${decl.name.slice(2)}` : `set${capitalize(decl.name)}`));
+    } else if (renamed.has('')) {
+      names.push(renamed.get('')!);
+    }
+    return names;
+  }
+
+  if (decl.declCategory === 'method') {
+    const accessor = decl.name.match(/^(get|set|is)([A-Z].*)$/);
+    if (accessor) {
+      const [, prefix, rest] = accessor;
+      if (prefix !== 'is') names.push(decapitalize(rest));
+      if (prefix === 'set') names.push(`is${rest}`);
+    }
+  }
+  return names;
+}
+
 // --- Resolution ---
 
 function buildFindingCategory(
@@ -1098,57 +1339,257 @@ function buildFindingCategory(
   return decl.visibility === 'protected' ? 'unused_protected_field' : 'unused_public_field';
 }
 
-function buildFindingMessage(decl: Declaration): string {
+function buildFindingMessage(decl: Declaration, referencedOnlyFromDeadCode = false): string {
   const kind = decl.declCategory === 'method' ? 'method' : decl.declCategory === 'field' ? 'field' : 'class';
   const scope = decl.enclosingClass === '<top-level>' ? 'top-level' : `class ${decl.enclosingClass}`;
+  if (referencedOnlyFromDeadCode) {
+    return `${decl.visibility} ${kind} '${decl.name}' in ${scope} is only referenced from unreachable code`;
+  }
   return `${decl.visibility} ${kind} '${decl.name}' in ${scope} appears to be unused`;
 }
 
+function buildUsedOnlyInTestsMessage(decl: Declaration): string {
+  const kind = decl.declCategory === 'method' ? 'method' : decl.declCategory === 'field' ? 'field' : 'class';
+  const scope = decl.enclosingClass === '<top-level>' ? 'top-level' : `class ${decl.enclosingClass}`;
+  return `${decl.visibility} ${kind} '${decl.name}' in ${scope} is only used from tests`;
+}
+
+// --- Reachability ---
+
+/** Test methods are reachability roots even without the junit5 profile */
+const TEST_ANNOTATIONS = new Set(['Test', 'ParameterizedTest', 'RepeatedTest', 'TestFactory', 'TestTemplate']);
+
+const JAVA_HEADER_TYPES = new Set(['package_declaration', 'import_declaration']);
+const KOTLIN_HEADER_TYPES = new Set(['package_header', 'import_list', 'import_header', 'import']);
+
+interface ReferenceSite {
+  position: number;
+  name: string;
+}
+
+/** Declarations sharing one AST node (e.g. `public int a, b;`) */
+interface DeclarationGroup {
+  start: number;
+  end: number;
+  decls: Declaration[];
+}
+
+function isTestMethod(decl: Declaration): boolean {
+  return decl.declCategory === 'method'
+    && decl.annotationNames.some(name => TEST_ANNOTATIONS.has(name.substring(name.lastIndexOf('.') + 1)));
+}
+
+/**
+ * Identifier references in a file, in source order. References in package and import
+ * headers are skipped: importing a declaration does not make it reachable.
+ */
+function collectReferenceSites(
+  rootNode: Parser.SyntaxNode,
+  sourceCode: string,
+  config: LanguageConfig,
+  defPositions: Set<number>,
+): ReferenceSite[] {
+  const headerTypes = config.language === 'java' ? JAVA_HEADER_TYPES : KOTLIN_HEADER_TYPES;
+  const headerRanges = rootNode.namedChildren
+    .filter(child => headerTypes.has(child.type))
+    .map(child => [child.startIndex, child.endIndex]);
+
+  const sites: ReferenceSite[] = [];
+  for (const idType of config.identifierTypes) {
+    for (const n of rootNode.descendantsOfType(idType)) {
+      if (defPositions.has(n.startIndex)) continue;
+      if (headerRanges.some(([start, end]) => n.startIndex >= start && n.startIndex < end)) continue;
+      sites.push({ position: n.startIndex, name: sourceCode.substring(n.startIndex, n.endIndex) });
+    }
+  }
+  return sites.sort((a, b) => a.position - b.position);
+}
+
+/** Groups a file's declarations by node, outermost first among nodes starting at the same index */
+function groupDeclarations(decls: Declaration[]): DeclarationGroup[] {
+  const groups = new Map<string, DeclarationGroup>();
+  for (const decl of decls) {
+    const key = `${decl.node.startIndex}:${decl.node.endIndex}`;
+    const group = groups.get(key);
+    if (group) group.decls.push(decl);
+    else groups.set(key, { start: decl.node.startIndex, end: decl.node.endIndex, decls: [decl] });
+  }
+  return [...groups.values()].sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+/**
+ * For each position (ascending), the innermost declaration group containing it, or null
+ * for code outside every collected declaration (private or package-private classes,
+ * private top-level functions).
+ */
+function innermostGroups(positions: number[], groups: DeclarationGroup[]): Array<DeclarationGroup | null> {
+  const result: Array<DeclarationGroup | null> = [];
+  const stack: DeclarationGroup[] = [];
+  let next = 0;
+  for (const position of positions) {
+    while (next < groups.length && groups[next].start <= position) {
+      while (stack.length > 0 && stack[stack.length - 1].end <= groups[next].start) stack.pop();
+      stack.push(groups[next++]);
+    }
+    while (stack.length > 0 && stack[stack.length - 1].end <= position) stack.pop();
+    result.push(stack.length > 0 ? stack[stack.length - 1] : null);
+  }
+  return result;
+}
+
+/** Innermost declaration group strictly enclosing the group (same file), or null */
+function enclosingGroup(group: DeclarationGroup, groups: DeclarationGroup[]): DeclarationGroup | null {
+  let best: DeclarationGroup | null = null;
+  for (const candidate of groups) {
+    if (candidate === group || candidate.start > group.start || candidate.end < group.end) continue;
+    if (!best || candidate.end - candidate.start < best.end - best.start) best = candidate;
+  }
+  return best;
+}
+
+function clusterLabel(decl: Declaration): string {
+  if (decl.declCategory === 'class' || decl.enclosingClass === '<top-level>') return decl.name;
+  return `${decl.enclosingClass}.${decl.name}`;
+}
+
+/**
+ * Splits unreachable declarations into connected clusters: two dead declarations are
+ * connected when one references or contains the other. Returns the cluster index of
+ * each declaration, numbered from 1 by decreasing size, for clusters of two or more.
+ */
+function buildDeadClusters(
+  dead: Declaration[],
+  edges: Map<Declaration, Set<Declaration>>,
+  parents: Map<Declaration, Declaration[]>,
+): { clusterIds: Map<Declaration, number>; clusters: DeadCodeCluster[] } {
+  const deadSet = new Set(dead);
+  const root = new Map<Declaration, Declaration>(dead.map(d => [d, d]));
+  const find = (d: Declaration): Declaration => {
+    while (root.get(d) !== d) {
+      root.set(d, root.get(root.get(d)!)!);
+      d = root.get(d)!;
+    }
+    return d;
+  };
+  const union = (a: Declaration, b: Declaration) => root.set(find(a), find(b));
+
+  for (const decl of dead) {
+    for (const target of edges.get(decl) ?? []) if (deadSet.has(target)) union(decl, target);
+    for (const parent of parents.get(decl) ?? []) if (deadSet.has(parent)) union(decl, parent);
+  }
+
+  const members = new Map<Declaration, Declaration[]>();
+  for (const decl of dead) {
+    const key = find(decl);
+    if (!members.has(key)) members.set(key, []);
+    members.get(key)!.push(decl);
+  }
+
+  const groups = [...members.values()].filter(g => g.length > 1).sort((a, b) => b.length - a.length);
+  const clusterIds = new Map<Declaration, number>();
+  const clusters = groups.map((group, index) => {
+    for (const decl of group) clusterIds.set(decl, index + 1);
+    return { id: index + 1, size: group.length, declarations: group.map(clusterLabel) };
+  });
+  return { clusterIds, clusters };
+}
+
+// --- Reference index ---
+
+/** Names and resolved keys referenced by a set of files */
+interface ReferenceIndex {
+  globalUsedNames: Set<string>;
+  untypedUsedNames: Set<string>;
+  typedMemberKeys: Set<string>;
+  referencedClasses: Set<string>;
+}
+
+function emptyReferenceIndex(): ReferenceIndex {
+  return {
+    globalUsedNames: new Set(),
+    untypedUsedNames: new Set(),
+    typedMemberKeys: new Set(),
+    referencedClasses: new Set(),
+  };
+}
+
 // --- Main export ---
 
 export function detectPublicDeadCodeInFiles(
   filePaths: string[],
-  language: 'java' | 'kotlin',
+  language: PublicDeadCodeLanguage,
   resolvedRules: ResolvedRules,
   sourceRoots: string[],
   activeProfiles: string[],
+  options: PublicDeadCodeOptions = {},
 ): PublicDeadCodeResult {
-  const config = language === 'java' ? JAVA_CONFIG : KOTLIN_CONFIG;
-  const parseFile = language === 'java' ? parseJava : parseKotlin;
+  return runScanSync(scanPublicDeadCode(filePaths, language, resolvedRules, sourceRoots, activeProfiles, options));
+}
 
+/**
+ * The detection as a scan: checkpoints before parsing each file, before collecting the
+ * references of each file and before computing findings. Stopping at a checkpoint returns
+ * an incomplete result.
+ */
+export function* scanPublicDeadCode(
+  filePaths: string[],
+  language: PublicDeadCodeLanguage,
+  resolvedRules: ResolvedRules,
+  sourceRoots: string[],
+  activeProfiles: string[],
+  options: PublicDeadCodeOptions = {},
+): Scan<PublicDeadCodeResult> {
+  const rulesFor = (decl: Declaration): ResolvedRules => options.fileRules?.get(decl.file) ?? resolvedRules;
   // Service discovery names — load only if any entrypoint uses serviceDiscovery condition
-  const hasServiceDiscovery = resolvedRules.entrypoints.some(ep =>
-    ep.conditions.some(c => c.type === 'serviceDiscovery')
+  const hasServiceDiscovery = [resolvedRules, ...(options.fileRules?.values() ?? [])].some(rules =>
+    rules.entrypoints.some(ep => ep.conditions.some(usesServiceDiscovery))
   );
   const serviceNames = hasServiceDiscovery
-    ? loadServiceDiscoveryNames(sourceRoots)
+    ? loadServiceDiscoveryNames([...sourceRoots, ...(options.resourceRoots ?? [])])
     : new Set<string>();
+  const referenceFiles = options.referenceFiles ?? [];
+  const referenceOnly = new Set(referenceFiles);
+  const inputFiles = [...filePaths, ...referenceFiles];
+  const total = inputFiles.length * 2 + 1;
 
-  // Pass 1: collect all declarations
+  // Pass 1: collect all declarations and build the class symbol table
   const allDeclarations: Declaration[] = [];
   const fileErrors: Map<string, string> = new Map();
-
-  // Pass 2: collect all used identifiers (global)
-  const globalUsedNames = new Set<string>();
+  const allClasses: ClassSymbol[] = [];
+  const fileContexts = new Map<string, FileContext>();
+  const annotationTypes = new Map<string, AnnotationType>();
 
   // Parse each file
-  const parsedFiles: Array<{ path: string; rootNode: Parser.SyntaxNode; sourceCode: string }> = [];
-  for (const filePath of filePaths) {
-    let sourceCode: string;
-    try {
-      sourceCode = fs.readFileSync(filePath, 'utf-8');
-    } catch (err) {
-      fileErrors.set(filePath, String(err));
-      continue;
-    }
-
-    let tree: Parser.Tree;
+  const parsedFiles: Array<{
+    path: string;
+    language: 'java' | 'kotlin';
+    rootNode: Parser.SyntaxNode;
+    sourceCode: string;
+  }> = [];
+  const stopped = (): PublicDeadCodeResult => ({
+    status: 'OK',
+    sourceRoots,
+    filesAnalyzed: parsedFiles.length,
+    activeProfiles,
+    totalFindings: 0,
+    files: inputFiles
+      .filter(fp => fileErrors.has(fp))
+      .map(fp => ({ file: fp, findings: [], error: fileErrors.get(fp) })),
+    incomplete: true,
+  });
+
+  for (const [fileIndex, filePath] of inputFiles.entries()) {
+    if (yield { phase: 'parse', done: fileIndex, total }) return stopped();
+    const fileLanguage = language === 'mixed' ? languageOfFile(filePath) : language;
+
+    let parsed: ParsedSourceFile;
     try {
-      tree = parseFile(sourceCode);
+      parsed = parseSourceFile(filePath, fileLanguage);
     } catch (err) {
       fileErrors.set(filePath, String(err));
       continue;
     }
+    const { sourceCode, tree } = parsed;
 
     if (tree.rootNode.hasError) {
       // Skip files with syntax errors gracefully
@@ -1156,23 +1597,165 @@ export function detectPublicDeadCodeInFiles(
       continue;
     }
 
-    parsedFiles.push({ path: filePath, rootNode: tree.rootNode, sourceCode });
+    parsedFiles.push({ path: filePath, language: fileLanguage, rootNode: tree.rootNode, sourceCode });
+
+    // Collect declarations from this file; reference-only files contribute references alone
+    if (!referenceOnly.has(filePath)) {
+      const fileDecls = fileLanguage === 'java'
+        ? collectDeclarationsJava(filePath, tree.rootNode, sourceCode)
+        : collectDeclarationsKotlin(filePath, tree.rootNode, sourceCode);
+      allDeclarations.push(...fileDecls);
+    }
+
+    const filePackage = fileLanguage === 'java'
+      ? extractFilePackageJava(tree.rootNode, sourceCode)
+      : extractFilePackageKotlin(tree.rootNode, sourceCode);
+    const fileImports = fileLanguage === 'java'
+      ? extractFileImportsJava(tree.rootNode, sourceCode)
+      : extractFileImportsKotlin(tree.rootNode, sourceCode);
+    const { classes, context } = collectClassSymbols(
+      tree.rootNode, sourceCode, fileLanguage, filePath, filePackage, fileImports
+    );
+    allClasses.push(...classes);
+    fileContexts.set(filePath, context);
+    if (options.metaAnnotations) {
+      for (const [fqn, type] of collectAnnotationTypes(tree.rootNode, sourceCode, fileLanguage, context)) {
+        annotationTypes.set(fqn, type);
+      }
+    }
+  }
+
+  const symbolTable = buildSymbolTable(allClasses, fileContexts);
+  const matchContext: MatchContext = {
+    serviceNames,
+    ...(options.metaAnnotations && {
+      isMetaAnnotated: metaAnnotationResolver(annotationTypes, symbolTable, fileContexts),
+    }),
+  };
+
+  const ownerFqns = new Map<Declaration, string>();
+  for (const decl of allDeclarations) {
+    ownerFqns.set(decl, ownerClassFqn(decl.node, decl.sourceCode, fileContexts.get(decl.file)!));
+  }
+
+  // Names each declaration can be referenced by; mixed analysis adds the other language's view
+  const referenceNames = new Map<Declaration, string[]>();
+  for (const decl of allDeclarations) {
+    referenceNames.set(decl, language === 'mixed' ? [decl.name, ...crossLanguageNames(decl)] : [decl.name]);
+  }
+
+  // Reachability mode: reference graph between declarations. Edges run from the declaration
+  // containing a reference to every declaration the reference may resolve to; references
+  // outside all collected declarations are roots.
+  const edges = new Map<Declaration, Set<Declaration>>();
+  const rootTargets = new Set<Declaration>();
+  const parentDecls = new Map<Declaration, Declaration[]>();
+  const groupsByFile = new Map<string, DeclarationGroup[]>();
+  const membersByKey = new Map<string, Declaration[]>();
+  const membersByName = new Map<string, Declaration[]>();
+  const topLevelByName = new Map<string, Declaration[]>();
+  const classesByFqn = new Map<string, Declaration[]>();
+
+  if (options.reachability) {
+    const addTo = (index: Map<string, Declaration[]>, key: string, decl: Declaration) => {
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(decl);
+    };
+    for (const decl of allDeclarations) {
+      const ownerFqn = ownerFqns.get(decl)!;
+      if (decl.declCategory === 'class') {
+        addTo(classesByFqn, ownerFqn, decl);
+      } else if (decl.enclosingClass === '<top-level>') {
+        for (const name of referenceNames.get(decl)!) addTo(topLevelByName, name, decl);
+      } else {
+        for (const name of referenceNames.get(decl)!) {
+          addTo(membersByKey, `${ownerFqn}#${name}`, decl);
+          addTo(membersByName, name, decl);
+        }
+      }
+    }
+
+    const declsByFile = new Map<string, Declaration[]>();
+    for (const decl of allDeclarations) {
+      if (!declsByFile.has(decl.file)) declsByFile.set(decl.file, []);
+      declsByFile.get(decl.file)!.push(decl);
+    }
+    for (const [file, decls] of declsByFile) {
+      const groups = groupDeclarations(decls);
+      groupsByFile.set(file, groups);
+      for (const group of groups) {
+        const parent = enclosingGroup(group, groups);
+        if (parent) for (const decl of group.decls) parentDecls.set(decl, parent.decls);
+      }
+    }
+  }
 
-    // Collect declarations from this file
-    let fileDecls: Declaration[];
-    if (language === 'java') {
-      fileDecls = collectDeclarationsJava(filePath, tree.rootNode, sourceCode);
-    } else {
-      fileDecls = collectDeclarationsKotlin(filePath, tree.rootNode, sourceCode);
+  // Pass 2: collect references. Member references with a statically typed receiver are
+  // attributed to the receiver's class hierarchy ("fqn#name"); all others are kept as
+  // bare names (global). Class references are resolved to FQNs through imports.
+  // References from reference-only files are also kept apart to find test-only usage.
+  const allReferences = emptyReferenceIndex();
+  const productionReferences = emptyReferenceIndex();
+  const productionRootTargets = new Set<Declaration>();
+
+  for (const [fileIndex, { path: filePath, language: fileLanguage, rootNode, sourceCode }] of parsedFiles.entries()) {
+    if (yield { phase: 'references', done: inputFiles.length + fileIndex, total }) return stopped();
+    const config = fileLanguage === 'java' ? JAVA_CONFIG : KOTLIN_CONFIG;
+    const context = fileContexts.get(filePath)!;
+    const defPositions = collectDefinitionPositions(rootNode, sourceCode, config);
+    const refs = collectFileReferences(rootNode, sourceCode, context, symbolTable, config.identifierTypes, defPositions);
+    const isProduction = !referenceOnly.has(filePath);
+
+    for (const index of isProduction ? [allReferences, productionReferences] : [allReferences]) {
+      for (const id of collectReferenceIdentifiers(rootNode, sourceCode, config, defPositions)) index.globalUsedNames.add(id);
+      for (const id of collectReferenceIdentifiers(rootNode, sourceCode, config, defPositions, refs.typedPositions)) {
+        index.untypedUsedNames.add(id);
+      }
+      for (const key of refs.memberKeys) index.typedMemberKeys.add(key);
+      for (const fqn of refs.referencedClasses) index.referencedClasses.add(fqn);
     }
-    allDeclarations.push(...fileDecls);
 
-    // Collect used identifiers from this file
-    const ids = collectReferenceIdentifiers(tree.rootNode, sourceCode, config);
-    for (const id of ids) globalUsedNames.add(id);
+    if (options.reachability) {
+      const sites = collectReferenceSites(rootNode, sourceCode, config, defPositions);
+      const containers = innermostGroups(sites.map(site => site.position), groupsByFile.get(filePath) ?? []);
+      sites.forEach((site, i) => {
+        const memberKeys = refs.memberReferences.get(site.position);
+        const targets = [
+          ...(memberKeys
+            ? memberKeys.flatMap(key => membersByKey.get(key) ?? [])
+            : membersByName.get(site.name) ?? []),
+          ...(topLevelByName.get(site.name) ?? []),
+          ...(refs.classReferences.get(site.position) ?? []).flatMap(fqn => classesByFqn.get(fqn) ?? []),
+        ];
+        const container = containers[i];
+        if (!container) {
+          for (const target of targets) rootTargets.add(target);
+          if (isProduction) for (const target of targets) productionRootTargets.add(target);
+          return;
+        }
+        for (const decl of container.decls) {
+          if (!edges.has(decl)) edges.set(decl, new Set());
+          for (const target of targets) edges.get(decl)!.add(target);
+        }
+      });
+    }
+  }
+
+  /**
+   * Classes are used when referenced by a name that resolves to them; class members when
+   * referenced by bare name or through a receiver typed to their class hierarchy; Kotlin
+   * top-level declarations (including extension functions) when referenced by name anywhere.
+   */
+  function isReferenced(decl: Declaration, index: ReferenceIndex = allReferences): boolean {
+    const ownerFqn = ownerFqns.get(decl)!;
+    if (decl.declCategory === 'class') return index.referencedClasses.has(ownerFqn);
+    const names = referenceNames.get(decl)!;
+    if (decl.enclosingClass === '<top-level>') return names.some(name => index.globalUsedNames.has(name));
+    return names.some(name => index.untypedUsedNames.has(name) || index.typedMemberKeys.has(`${ownerFqn}#${name}`));
   }
 
   // Pass 3: for each declaration, determine if it's dead
+  if (yield { phase: 'findings', done: inputFiles.length * 2, total }) return stopped();
 
   // Build class-level cascade: class declarations that match any entrypoint protect all
   // their members (methods, fields) transitively.
@@ -1180,60 +1763,170 @@ export function detectPublicDeadCodeInFiles(
   const classProtectedByEntrypoint = new Set<string>();
   for (const decl of allDeclarations) {
     if (decl.declCategory !== 'class') continue;
-    if (isAliveByAnyEntrypoint(decl, resolvedRules, serviceNames)) {
+    if (isAliveByAnyEntrypoint(decl, rulesFor(decl), matchContext)) {
       classProtectedByEntrypoint.add(decl.file + '#' + decl.name);
     }
   }
 
+  // Reachability mode: walk the reference graph from entrypoints, main methods, tests and
+  // code outside collected declarations. A reachable declaration makes its enclosing
+  // declarations reachable; overrides and abstract counterparts follow the same rules as
+  // the referenced-anywhere mode, restricted to reachable declarations.
+  // With test-only reporting, a second walk starts from production roots only.
+  let reachable: Set<Declaration> | null = null;
+  let reachableFromProduction: Set<Declaration> | null = null;
+  let clusterIds = new Map<Declaration, number>();
+  let clusters: DeadCodeCluster[] | undefined;
+  if (options.reachability) {
+    const declsByName = new Map<string, Declaration[]>();
+    for (const decl of allDeclarations) {
+      if (!declsByName.has(decl.name)) declsByName.set(decl.name, []);
+      declsByName.get(decl.name)!.push(decl);
+    }
+    const hasSameNamed = (decl: Declaration, predicate: (other: Declaration) => boolean) =>
+      (declsByName.get(decl.name) ?? []).some(other => other !== decl && predicate(other));
+
+    const walk = (roots: Set<Declaration>): Set<Declaration> => {
+      const reached = new Set<Declaration>();
+      const queue: Declaration[] = [];
+      const mark = (decl: Declaration) => {
+        if (reached.has(decl)) return;
+        reached.add(decl);
+        queue.push(decl);
+      };
+
+      function reachableThroughDispatch(decl: Declaration): boolean {
+        const parents = parentDecls.get(decl) ?? [];
+        if (parents.length > 0 && !parents.some(parent => reached.has(parent))) return false;
+        if (decl.isEnumConstant || decl.isDataClassMember) return true;
+        if (decl.isOverride) {
+          if (hasSameNamed(decl, () => true)) return hasSameNamed(decl, other => reached.has(other));
+          return rulesFor(decl).keepExternalOverrides;
+        }
+        if (decl.isAbstract) return hasSameNamed(decl, other => !other.isAbstract && reached.has(other));
+        return hasSameNamed(decl, other => other.isAbstract && reached.has(other));
+      }
+
+      for (const target of roots) mark(target);
+      for (const decl of allDeclarations) {
+        if (decl.isMainMethod || isTestMethod(decl)
+          || classProtectedByEntrypoint.has(decl.file + '#' + decl.enclosingClass)
+          || isAliveByAnyEntrypoint(decl, rulesFor(decl), matchContext)) {
+          mark(decl);
+        }
+      }
+      do {
+        while (queue.length > 0) {
+          const decl = queue.pop()!;
+          for (const parent of parentDecls.get(decl) ?? []) mark(parent);
+          for (const target of edges.get(decl) ?? []) mark(target);
+        }
+        for (const decl of allDeclarations) {
+          if (!reached.has(decl) && reachableThroughDispatch(decl)) mark(decl);
+        }
+      } while (queue.length > 0);
+      return reached;
+    };
+
+    const reached = walk(rootTargets);
+    reachable = reached;
+    if (options.reportUsedOnlyInTests) reachableFromProduction = walk(productionRootTargets);
+    const dead = allDeclarations.filter(decl =>
+      !reached.has(decl) && !decl.isEnumConstant && !decl.isMainMethod && !decl.isDataClassMember
+    );
+    ({ clusterIds, clusters } = buildDeadClusters(dead, edges, parentDecls));
+  }
+
   // Group findings per file
   const findingsPerFile = new Map<string, PublicDeadCodeFinding[]>();
   for (const fp of filePaths) findingsPerFile.set(fp, []);
 
-  for (const decl of allDeclarations) {
-    // Hardcoded skips
-    if (decl.isEnumConstant) continue;
-    if (decl.isMainMethod) continue;
-    if (decl.isDataClassMember) continue;
-
-    // 1. Name in global used set -> alive
-    if (globalUsedNames.has(decl.name)) continue;
-
-    // 2. Class cascade: enclosing class protected by entrypoint -> member alive
-    if (classProtectedByEntrypoint.has(decl.file + '#' + decl.enclosingClass)) continue;
+  /** Liveness that does not depend on references: entrypoints and override/abstract pairing */
+  function isAliveWithoutReferences(decl: Declaration): boolean {
+    // Class cascade: enclosing class protected by entrypoint -> member alive
+    if (classProtectedByEntrypoint.has(decl.file + '#' + decl.enclosingClass)) return true;
 
-    // 3. Declaration directly matched by any entrypoint -> alive
-    if (isAliveByAnyEntrypoint(decl, resolvedRules, serviceNames)) continue;
+    // Declaration directly matched by any entrypoint -> alive
+    if (isAliveByAnyEntrypoint(decl, rulesFor(decl), matchContext)) return true;
 
-    // 4. Override handling
+    // Override handling
     if (decl.isOverride) {
       // Check if any OTHER declaration has the same name (internal override)
       const isInternalOverride = allDeclarations.some(
         d => d !== decl && d.name === decl.name
       );
-      if (isInternalOverride) continue; // internal override -> alive
+      if (isInternalOverride) return true; // internal override -> alive
       // External override
-      if (resolvedRules.keepExternalOverrides) continue;
+      if (rulesFor(decl).keepExternalOverrides) return true;
       // keepExternalOverrides = false -> fall through to dead
     }
 
-    // 5. Abstract method: if abstract and a concrete impl exists elsewhere
+    // Abstract method: if abstract and a concrete impl exists elsewhere
     if (decl.isAbstract) {
       const hasConcreteImpl = allDeclarations.some(
         d => d !== decl && d.name === decl.name && !d.isAbstract
       );
-      if (hasConcreteImpl) continue;
+      if (hasConcreteImpl) return true;
     }
 
-    // 6. Concrete implementation of an abstract method -> alive even without @Override
-    //    If an abstract declaration with the same name exists in any analyzed file, this
-    //    concrete method is its implementation and is kept alive.
+    // Concrete implementation of an abstract method -> alive even without @Override
+    // If an abstract declaration with the same name exists in any analyzed file, this
+    // concrete method is its implementation and is kept alive.
     if (!decl.isAbstract && !decl.isOverride) {
       const hasAbstractCounterpart = allDeclarations.some(
         d => d !== decl && d.name === decl.name && d.isAbstract
       );
-      if (hasAbstractCounterpart) continue;
+      if (hasAbstractCounterpart) return true;
+    }
+    return false;
+  }
+
+  const reportUsedOnlyInTests = (decl: Declaration) => {
+    findingsPerFile.get(decl.file)?.push({
+      category: 'used_only_in_tests',
+      name: decl.name,
+      line: decl.line,
+      column: decl.column,
+      enclosingScope: decl.enclosingClass,
+      message: buildUsedOnlyInTestsMessage(decl),
+    });
+  };
+
+  for (const decl of allDeclarations) {
+    // Hardcoded skips
+    if (decl.isEnumConstant) continue;
+    if (decl.isMainMethod) continue;
+    if (decl.isDataClassMember) continue;
+
+    if (reachable) {
+      if (reachableFromProduction && reachable.has(decl) && !reachableFromProduction.has(decl)) {
+        reportUsedOnlyInTests(decl);
+      } else if (!reachable.has(decl)) {
+        findingsPerFile.get(decl.file)?.push({
+          category: buildFindingCategory(decl),
+          name: decl.name,
+          line: decl.line,
+          column: decl.column,
+          enclosingScope: decl.enclosingClass,
+          message: buildFindingMessage(decl, isReferenced(decl)),
+          ...(clusterIds.has(decl) && { clusterId: clusterIds.get(decl) }),
+        });
+      }
+      continue;
     }
 
+    // Referenced (by resolved type, typed receiver or bare name) -> alive, unless only
+    // reference-only files use it and test-only usage is reported
+    if (isReferenced(decl)) {
+      if (options.reportUsedOnlyInTests && !isReferenced(decl, productionReferences)
+        && !isAliveWithoutReferences(decl)) {
+        reportUsedOnlyInTests(decl);
+      }
+      continue;
+    }
+
+    if (isAliveWithoutReferences(decl)) continue;
+
     // Dead
     const findings = findingsPerFile.get(decl.file);
     if (!findings) continue;
@@ -1249,7 +1942,7 @@ export function detectPublicDeadCodeInFiles(
 
   // Build result — omit files with no findings and no error to reduce output size
   const fileResults: PublicDeadCodeFileResult[] = [];
-  for (const fp of filePaths) {
+  for (const fp of inputFiles) {
     const findings = findingsPerFile.get(fp) ?? [];
     const error = fileErrors.get(fp);
     if (error !== undefined) {
@@ -1268,5 +1961,6 @@ export function detectPublicDeadCodeInFiles(
     activeProfiles,
     totalFindings,
     files: fileResults,
+    ...(clusters && { clusters }),
   };
 }
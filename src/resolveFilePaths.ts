@@ -1,19 +1,116 @@
 import * as path from "path";
 import * as fs from "fs";
+import { IgnoreRule, isIgnored, loadDirectoryIgnoreRules, loadIgnoreRulesFor } from "./gitIgnore.js";
 
 /**
  * Resolve an array of file/directory paths into individual file paths.
- * Directories are recursively scanned for files matching the given extension.
+ * Directories are recursively scanned for files matching the given extension(s).
  */
 export interface ResolveError {
   path: string;
   message: string;
 }
 
-export function resolveFilePaths(paths: string[], extension: string): { resolved: string[], errors: ResolveError[] } {
+/**
+ * Glob filters applied while scanning directories. Patterns are matched against the path
+ * relative to the scanned directory, with `/` separators. Files passed explicitly are
+ * never filtered.
+ */
+export interface ResolveOptions {
+  /** A file must match at least one of these to be included (all files when empty) */
+  include?: string[];
+  /** Files and directories matching any of these are skipped; excluded directories are not descended into */
+  exclude?: string[];
+  /** Skip files and directories ignored by `.gitignore`, `.git/info/exclude` and nested ignore files */
+  gitignore?: boolean;
+}
+
+// --- Glob matching ---
+
+/**
+ * Converts a path glob to a RegExp.
+ * - `**` matches any number of path segments (`a/**` also matches `a` itself)
+ * - `*` and `?` match within one segment
+ * - `{a,b}` matches either alternative
+ * - A pattern without `/` matches a file or directory name at any depth
+ * - A leading `/` anchors the pattern to the scanned directory
+ */
+export function pathGlobToRegex(pattern: string): RegExp {
+  let glob = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (glob.startsWith('/')) {
+    glob = glob.slice(1);
+  } else if (!glob.includes('/')) {
+    glob = `**/${glob}`;
+  }
+  glob = glob.replace(/\/$/, '');
+
+  let regex = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      regex += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('/**', i) && i + 3 === glob.length) {
+      regex += '(?:/.*)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      regex += '.*';
+      i += 1;
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        regex += '\\{';
+        continue;
+      }
+      const alternatives = glob.substring(i + 1, close).split(',').map(escapeRegex);
+      regex += `(?:${alternatives.join('|')})`;
+      i = close;
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\*?]/g, '\\$&');
+}
+
+// --- Resolution ---
+
+export function resolveFilePaths(
+  paths: string[],
+  extension: string | string[],
+  options: ResolveOptions = {}
+): { resolved: string[], errors: ResolveError[] } {
+  const extensions = ([] as string[]).concat(extension);
+  const include = (options.include ?? []).map(pathGlobToRegex);
+  const exclude = (options.exclude ?? []).map(pathGlobToRegex);
+  const isExcluded = (relative: string) => exclude.some(regex => regex.test(relative));
+  const isIncluded = (relative: string) => include.length === 0 || include.some(regex => regex.test(relative));
+
   const resolved: string[] = [];
   const errors: ResolveError[] = [];
 
+  function scan(directory: string, relativeDirectory: string, ignoreRules: IgnoreRule[]): void {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const relative = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (isExcluded(relative) || isIgnored(ignoreRules, entryPath, true)) continue;
+        const nestedRules = options.gitignore ? [...ignoreRules, ...loadDirectoryIgnoreRules(entryPath)] : ignoreRules;
+        scan(entryPath, relative, nestedRules);
+      } else if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) {
+        if (isExcluded(relative) || !isIncluded(relative) || isIgnored(ignoreRules, entryPath, false)) continue;
+        resolved.push(entryPath);
+      }
+    }
+  }
+
   for (const p of paths) {
     const absolutePath = path.isAbsolute(p) ? p : path.resolve(process.cwd(), p);
 
@@ -24,12 +121,7 @@ export function resolveFilePaths(paths: string[], extension: string): { resolved
 
     const stat = fs.statSync(absolutePath);
     if (stat.isDirectory()) {
-      const entries = fs.readdirSync(absolutePath, { recursive: true, withFileTypes: true });
-      for (const entry of entries) {
-        if (entry.isFile() && entry.name.endsWith(extension)) {
-          resolved.push(path.join(entry.parentPath ?? entry.path, entry.name));
-        }
-      }
+      scan(absolutePath, '', options.gitignore ? loadIgnoreRulesFor(absolutePath) : []);
     } else {
       resolved.push(absolutePath);
     }
@@ -0,0 +1,232 @@
+/**
+ * MCP resources: the effective config, the available profiles and the last report of each
+ * detection tool per source root, so that clients can inspect them without re-running tools.
+ */
+
+import * as fs from "fs";
+import { resolveImportLayout } from "./importLayout.js";
+import {
+  BUILT_IN_PROFILES,
+  configFiles,
+  loadConfig,
+  mergeExcludePatterns,
+  resolveConfigPath,
+  resolveProfiles,
+  type LangToolsConfig,
+  type ProfileConfig,
+} from "./profileConfig.js";
+
+// --- Types ---
+
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateEntry {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+interface StoredReport {
+  tool: string;
+  root: string;
+  generatedAt: string;
+  mimeType: string;
+  text: string;
+  /** Output of a scan that was stopped before it analyzed every file */
+  incomplete: boolean;
+}
+
+export const CONFIG_URI = "lang-tools://config";
+const PROFILE_URI_PREFIX = "lang-tools://profiles/";
+const REPORT_URI_PREFIX = "lang-tools://reports/";
+
+export const RESOURCE_TEMPLATES: ResourceTemplateEntry[] = [
+  {
+    uriTemplate: `${PROFILE_URI_PREFIX}{name}`,
+    name: "Profile",
+    description: "A built-in or config profile with its entrypoint rules",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: `${REPORT_URI_PREFIX}{tool}/{root}`,
+    name: "Last report",
+    description: "The last report of a detection tool for a source root (URL-encoded absolute path)",
+    mimeType: "application/json",
+  },
+];
+
+// --- Config ---
+
+/** The config with every default filled in, as the tools apply it */
+export function effectiveConfig(config: LangToolsConfig) {
+  return {
+    activeProfiles: config.activeProfiles ?? [],
+    sortImports: config.sortImports ?? false,
+    importLayout: {
+      java: resolveImportLayout(config.importLayout, "java"),
+      kotlin: resolveImportLayout(config.importLayout, "kotlin"),
+    },
+    exclude: mergeExcludePatterns(config),
+    respectGitignore: config.respectGitignore ?? true,
+    profiles: config.profiles ?? [],
+  };
+}
+
+/** Resources describe the config that applies to the server's working directory */
+function workspaceConfig(): LangToolsConfig {
+  return loadConfig([process.cwd()]);
+}
+
+function readConfigResource(): ResourceContent {
+  const configPath = resolveConfigPath();
+  const content = {
+    path: configPath,
+    exists: fs.existsSync(configPath),
+    files: configFiles([process.cwd()]),
+    config: effectiveConfig(workspaceConfig()),
+  };
+  return { uri: CONFIG_URI, mimeType: "application/json", text: JSON.stringify(content, null, 2) };
+}
+
+// --- Profiles ---
+
+/** Profiles by name; a built-in profile shadows a config profile with the same name, as in resolveProfiles */
+function availableProfiles(config: LangToolsConfig): Map<string, { profile: ProfileConfig; builtIn: boolean }> {
+  const profiles = new Map<string, { profile: ProfileConfig; builtIn: boolean }>();
+  for (const profile of BUILT_IN_PROFILES) profiles.set(profile.name, { profile, builtIn: true });
+  for (const profile of config.profiles ?? []) {
+    if (!profiles.has(profile.name)) profiles.set(profile.name, { profile, builtIn: false });
+  }
+  return profiles;
+}
+
+export function profileUri(name: string): string {
+  return PROFILE_URI_PREFIX + encodeURIComponent(name);
+}
+
+function readProfileResource(uri: string, name: string): ResourceContent {
+  const config = workspaceConfig();
+  const entry = availableProfiles(config).get(name);
+  if (!entry) throw new Error(`Unknown profile: "${name}"`);
+
+  let error: string | undefined;
+  try {
+    resolveProfiles([name], config);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const content = {
+    name,
+    source: entry.builtIn ? "built-in" : "config",
+    active: (config.activeProfiles ?? []).includes(name),
+    keepExternalOverrides: entry.profile.keepExternalOverrides ?? true,
+    entrypoints: entry.profile.entrypoints,
+    ...(error !== undefined && { error }),
+  };
+  return { uri, mimeType: "application/json", text: JSON.stringify(content, null, 2) };
+}
+
+// --- Reports ---
+
+const reports = new Map<string, StoredReport>();
+
+export function reportUri(tool: string, root: string): string {
+  return `${REPORT_URI_PREFIX}${tool}/${encodeURIComponent(root)}`;
+}
+
+/**
+ * Keeps a tool's output as the last report of each source root it analyzed, replacing the
+ * previous one. Returns true when a report appeared for a new tool and root.
+ */
+export function recordReport(
+  tool: string,
+  roots: string[],
+  text: string,
+  mimeType = "application/json",
+  incomplete = false
+): boolean {
+  const generatedAt = new Date().toISOString();
+  let added = false;
+  for (const root of new Set(roots)) {
+    const uri = reportUri(tool, root);
+    if (!reports.has(uri)) added = true;
+    reports.set(uri, { tool, root, generatedAt, mimeType, text, incomplete });
+  }
+  return added;
+}
+
+/** Forgets every recorded report */
+export function clearReports(): void {
+  reports.clear();
+}
+
+// --- Listing and reading ---
+
+/**
+ * Lists the config, every available profile and every recorded report. A config that fails
+ * to load only hides the config profiles; reading the config resource reports the error.
+ */
+export function listResources(): ResourceEntry[] {
+  let config: LangToolsConfig = {};
+  try {
+    config = workspaceConfig();
+  } catch {
+    // Reported when the config resource is read
+  }
+
+  const entries: ResourceEntry[] = [{
+    uri: CONFIG_URI,
+    name: "Effective config",
+    description: "User and project config files merged with defaults",
+    mimeType: "application/json",
+  }];
+  for (const [name, { builtIn }] of availableProfiles(config)) {
+    entries.push({
+      uri: profileUri(name),
+      name: `Profile ${name}`,
+      description: builtIn ? "Built-in profile" : "Profile from the config file",
+      mimeType: "application/json",
+    });
+  }
+  for (const [uri, report] of reports) {
+    entries.push({
+      uri,
+      name: `${report.tool} report for ${report.root}`,
+      description: `Generated at ${report.generatedAt}${report.incomplete ? " by a cancelled scan (incomplete)" : ""}`,
+      mimeType: report.mimeType,
+    });
+  }
+  return entries;
+}
+
+/** Reads a resource by URI. Throws for unknown URIs and for configs that fail to load */
+export function readResource(uri: string): ResourceContent {
+  if (uri === CONFIG_URI) return readConfigResource();
+  if (uri.startsWith(PROFILE_URI_PREFIX)) {
+    return readProfileResource(uri, decodeURIComponent(uri.substring(PROFILE_URI_PREFIX.length)));
+  }
+  if (uri.startsWith(REPORT_URI_PREFIX)) {
+    // Re-encode the root so that any valid percent-encoding of it finds the report
+    const rest = uri.substring(REPORT_URI_PREFIX.length);
+    const separator = rest.indexOf("/");
+    const report = separator === -1
+      ? undefined
+      : reports.get(reportUri(rest.substring(0, separator), decodeURIComponent(rest.substring(separator + 1))));
+    if (!report) throw new Error(`No report recorded for ${uri}`);
+    return { uri, mimeType: report.mimeType, text: report.text };
+  }
+  throw new Error(`Unknown resource: ${uri}`);
+}
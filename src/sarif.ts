@@ -0,0 +1,246 @@
+/**
+ * SARIF 2.1.0 output for the detection tools, for upload into code-scanning UIs.
+ * Only the subset of the format needed to describe findings is produced.
+ */
+
+import { createHash } from "crypto";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import type { DeadCodeCategory } from "./deadCodeDetector.js";
+import type { PublicDeadCodeCategory } from "./publicDeadCodeDetector.js";
+
+// --- Types ---
+
+export type SarifCategory = DeadCodeCategory | PublicDeadCodeCategory;
+
+export interface SarifFinding {
+  category: SarifCategory;
+  name: string;
+  line: number;    // 1-based
+  column: number;  // 0-based
+  enclosingScope: string;
+  message: string;
+}
+
+export interface SarifFileResult {
+  file: string;
+  findings: SarifFinding[];
+  error?: string;
+}
+
+export interface SarifOptions {
+  /** Rules to declare: one per category the tool can report */
+  categories: readonly SarifCategory[];
+  /** Directory that artifact URIs are relative to (exposed as %SRCROOT%), e.g. the repository root */
+  baseDir: string;
+  toolVersion: string;
+  /** Extra data attached to the run's property bag (e.g. baseline summary) */
+  properties?: Record<string, unknown>;
+}
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: 'warning' | 'note' };
+}
+
+/** Location of a file: relative to %SRCROOT%, or an absolute file URI for files outside of it */
+interface ArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: 'warning' | 'note';
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: ArtifactLocation;
+      region: { startLine: number; startColumn: number };
+    };
+    logicalLocations?: Array<{ fullyQualifiedName: string }>;
+  }>;
+  partialFingerprints: Record<string, string>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; version: string; informationUri: string; rules: SarifRule[] } };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    invocations: Array<{
+      executionSuccessful: boolean;
+      toolExecutionNotifications: Array<{
+        level: 'error';
+        message: { text: string };
+        locations: Array<{ physicalLocation: { artifactLocation: ArtifactLocation } }>;
+      }>;
+    }>;
+    results: SarifResult[];
+    properties?: Record<string, unknown>;
+  }>;
+}
+
+// --- Rules ---
+
+const RULES: Record<SarifCategory, { name: string; short: string; full: string }> = {
+  unused_parameter: {
+    name: 'UnusedParameter',
+    short: 'Unused parameter',
+    full: 'A method or function parameter is never read in its body.',
+  },
+  unused_local_variable: {
+    name: 'UnusedLocalVariable',
+    short: 'Unused local variable',
+    full: 'A local variable is declared but never read.',
+  },
+  unused_field: {
+    name: 'UnusedPrivateField',
+    short: 'Unused private field',
+    full: 'A private field or property is never used within its class.',
+  },
+  unused_private_method: {
+    name: 'UnusedPrivateMethod',
+    short: 'Unused private method',
+    full: 'A private method or function is never called within its class.',
+  },
+  unused_public_method: {
+    name: 'UnusedPublicMethod',
+    short: 'Unused public method',
+    full: 'A public or internal method is not referenced from any analyzed file and matches no entrypoint.',
+  },
+  unused_public_field: {
+    name: 'UnusedPublicField',
+    short: 'Unused public field',
+    full: 'A public or internal field or property is not referenced from any analyzed file and matches no entrypoint.',
+  },
+  unused_public_class: {
+    name: 'UnusedPublicClass',
+    short: 'Unused public class',
+    full: 'A public or internal class is not referenced from any analyzed file and matches no entrypoint.',
+  },
+  unused_protected_method: {
+    name: 'UnusedProtectedMethod',
+    short: 'Unused protected method',
+    full: 'A protected method is not referenced from any analyzed file and matches no entrypoint.',
+  },
+  unused_protected_field: {
+    name: 'UnusedProtectedField',
+    short: 'Unused protected field',
+    full: 'A protected field or property is not referenced from any analyzed file and matches no entrypoint.',
+  },
+  used_only_in_tests: {
+    name: 'UsedOnlyInTests',
+    short: 'Public API used only from tests',
+    full: 'A public, internal or protected declaration is referenced only from reference sources such as tests.',
+  },
+};
+
+const SRCROOT = '%SRCROOT%';
+const FINGERPRINT_KEY = 'langToolsFinding/v1';
+
+// --- Conversion ---
+
+function toArtifactLocation(file: string, baseDir: string): ArtifactLocation {
+  const absolutePath = path.resolve(baseDir, file);
+  const relative = path.relative(baseDir, absolutePath);
+  if (relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) return { uri: pathToFileURL(absolutePath).href };
+  return { uri: relative.split(path.sep).map(encodeURIComponent).join('/'), uriBaseId: SRCROOT };
+}
+
+/**
+ * Fingerprint that survives line shifts: hashes the same identity used by baselines
+ * (file, category, enclosing scope, name), plus an occurrence counter to keep
+ * otherwise-identical findings apart.
+ */
+function fingerprint(uri: string, finding: SarifFinding, occurrence: number): string {
+  const hash = createHash('sha256')
+    .update([uri, finding.category, finding.enclosingScope, finding.name].join('\u0000'))
+    .digest('hex')
+    .slice(0, 32);
+  return `${hash}:${occurrence}`;
+}
+
+/**
+ * Converts detection results into a SARIF 2.1.0 log with a single run.
+ * Columns are converted to SARIF's 1-based convention; files that failed to analyze
+ * are reported as tool execution notifications rather than results.
+ */
+export function toSarifLog(files: SarifFileResult[], options: SarifOptions): SarifLog {
+  const rules: SarifRule[] = options.categories.map(category => ({
+    id: category,
+    name: RULES[category].name,
+    shortDescription: { text: RULES[category].short },
+    fullDescription: { text: RULES[category].full },
+    defaultConfiguration: { level: 'warning' },
+  }));
+  const ruleIndex = new Map(options.categories.map((category, index) => [category as string, index]));
+
+  const results: SarifResult[] = [];
+  const notifications: SarifLog['runs'][number]['invocations'][number]['toolExecutionNotifications'] = [];
+  const occurrences = new Map<string, number>();
+
+  for (const fileResult of files) {
+    const artifactLocation = toArtifactLocation(fileResult.file, options.baseDir);
+    const uri = artifactLocation.uri;
+    if (fileResult.error !== undefined) {
+      notifications.push({
+        level: 'error',
+        message: { text: fileResult.error },
+        locations: [{ physicalLocation: { artifactLocation } }],
+      });
+    }
+
+    for (const finding of fileResult.findings) {
+      const index = ruleIndex.get(finding.category);
+      if (index === undefined) continue;
+      const identity = [uri, finding.category, finding.enclosingScope, finding.name].join('\u0000');
+      const occurrence = (occurrences.get(identity) ?? 0) + 1;
+      occurrences.set(identity, occurrence);
+
+      results.push({
+        ruleId: finding.category,
+        ruleIndex: index,
+        level: 'warning',
+        message: { text: finding.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation,
+            region: { startLine: finding.line, startColumn: finding.column + 1 },
+          },
+          logicalLocations: [{ fullyQualifiedName: `${finding.enclosingScope}.${finding.name}` }],
+        }],
+        partialFingerprints: { [FINGERPRINT_KEY]: fingerprint(uri, finding, occurrence) },
+      });
+    }
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'lang-tools-mcp',
+          version: options.toolVersion,
+          informationUri: 'https://github.com/sickfar/lang-tools-mcp',
+          rules,
+        },
+      },
+      originalUriBaseIds: {
+        [SRCROOT]: { uri: pathToFileURL(options.baseDir + path.sep).href },
+      },
+      invocations: [{
+        executionSuccessful: notifications.length === 0,
+        toolExecutionNotifications: notifications,
+      }],
+      results,
+      ...(options.properties && { properties: options.properties }),
+    }],
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Progress reporting and cancellation for long scans. Scans stop at checkpoints between
+ * files; each checkpoint yields to the event loop so that progress notifications are
+ * flushed and cancellation notifications are received while a scan runs.
+ */
+
+// --- Types ---
+
+export type ScanPhase = 'files' | 'parse' | 'references' | 'findings';
+
+/** Position of a scan. `done` and `total` count work units across all phases, so `done` only grows */
+export interface ScanProgress {
+  phase: ScanPhase;
+  done: number;
+  total: number;
+}
+
+export interface ScanMonitor {
+  /** Reports progress and returns true when the scan should stop */
+  checkpoint(progress: ScanProgress): Promise<boolean>;
+}
+
+/**
+ * A scan written as a generator: it yields its progress at each checkpoint and receives
+ * `true` back when it should stop early and return what it has so far.
+ */
+export type Scan<T> = Generator<ScanProgress, T, boolean | undefined>;
+
+// --- Monitors ---
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * Creates a monitor that forwards progress to `report` (failures to report are ignored)
+ * and stops the scan once `signal` is aborted.
+ */
+export function createScanMonitor(
+  signal?: AbortSignal,
+  report?: (progress: ScanProgress) => Promise<void>
+): ScanMonitor {
+  return {
+    async checkpoint(progress) {
+      if (signal?.aborted) return true;
+      if (report) {
+        try {
+          await report(progress);
+        } catch {
+          // Progress is best effort
+        }
+      }
+      await yieldToEventLoop();
+      return signal?.aborted ?? false;
+    },
+  };
+}
+
+// --- Running scans ---
+
+/** Runs a scan to completion without checkpoints */
+export function runScanSync<T>(scan: Scan<T>): T {
+  let step = scan.next();
+  while (!step.done) step = scan.next(false);
+  return step.value;
+}
+
+/** Runs a scan, passing each checkpoint through the monitor */
+export async function runScan<T>(scan: Scan<T>, monitor: ScanMonitor): Promise<T> {
+  let step = scan.next();
+  while (!step.done) {
+    const stop = await monitor.checkpoint(step.value);
+    step = scan.next(stop);
+  }
+  return step.value;
+}
@@ -0,0 +1,695 @@
+/**
+ * The MCP server: tool calls, resources and prompts. The stdio and HTTP transports connect
+ * servers created here, and the CLI runs the same tool calls without one.
+ */
+
+import * as path from "path";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  type CallToolRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { cleanupImportsInFile, type ImportCleanupFileReport } from "./importCleaner.js";
+import { applyBaseline, loadBaseline, writeBaseline, type Baseline } from "./baseline.js";
+import { DEAD_CODE_CATEGORIES, detectDeadCodeInFile, type DeadCodeFileResult } from "./deadCodeDetector.js";
+import { fixDeadCodeInFile, type DeadCodeFixFileReport } from "./deadCodeFixer.js";
+import { resolveFilePaths, type ResolveOptions } from "./resolveFilePaths.js";
+import { filterChangedLines, isChangedFile, readChangeSet, type ChangeSet } from "./changedFiles.js";
+import { findRepositoryRoot } from "./gitIgnore.js";
+import { discoverProject, projectRoots, type ProjectLayout } from "./projectDiscovery.js";
+import { toSarifLog } from "./sarif.js";
+import { resolveImportLayout } from "./importLayout.js";
+import {
+  commonDirectory,
+  createFileConfigLookup,
+  loadConfig,
+  mergeActiveProfiles,
+  mergeExcludePatterns,
+  resolveProfiles,
+  type LangToolsConfig,
+  type ResolvedRules,
+} from "./profileConfig.js";
+import {
+  PUBLIC_DEAD_CODE_CATEGORIES,
+  scanPublicDeadCode,
+  type PublicDeadCodeResult,
+} from "./publicDeadCodeDetector.js";
+import { createScanMonitor, runScan, type ScanMonitor } from "./scanProgress.js";
+import { listResources, readResource, recordReport, RESOURCE_TEMPLATES } from "./resources.js";
+import { getPrompt, PROMPTS } from "./prompts.js";
+import { TOOLS } from "./tools.js";
+
+export const SERVER_VERSION = "0.1.0";
+
+type ToolArguments = Record<string, unknown> | undefined;
+
+// --- Arguments ---
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The result of a tool call rejected because of its arguments */
+function errorResult(error: string) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({ status: "NOK", error })
+    }]
+  };
+}
+
+/**
+ * Builds directory-scan filters from the include/exclude/respectGitignore tool arguments and
+ * the config. Returns an error message when an argument has the wrong type.
+ */
+function fileFilters(args: ToolArguments, config: LangToolsConfig): ResolveOptions | string {
+  const include = args?.include;
+  const exclude = args?.exclude;
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === "string");
+  if (include !== undefined && !isStringArray(include)) return "Invalid include parameter";
+  if (exclude !== undefined && !isStringArray(exclude)) return "Invalid exclude parameter";
+  const respectGitignore = args?.respectGitignore;
+  if (respectGitignore !== undefined && typeof respectGitignore !== "boolean") return "Invalid respectGitignore parameter";
+  return {
+    include: include as string[] | undefined,
+    exclude: mergeExcludePatterns(config, exclude as string[] | undefined),
+    gitignore: respectGitignore ?? config.respectGitignore ?? true,
+  };
+}
+
+/**
+ * Reads the files changed since the changedSince tool argument. Returns undefined when the
+ * argument is absent, or an error message when it is invalid or git cannot resolve the ref.
+ */
+function changedSince(args: ToolArguments, paths: string[]): ChangeSet | undefined | string {
+  const ref = args?.changedSince;
+  if (ref === undefined) return undefined;
+  if (typeof ref !== "string" || ref === "") return "Invalid changedSince parameter";
+  try {
+    return readChangeSet(ref, paths);
+  } catch (error) {
+    return errorMessage(error);
+  }
+}
+
+interface FileScope {
+  filters: ResolveOptions;
+  /** Files changed since the changedSince ref, when given */
+  changes?: ChangeSet;
+}
+
+/**
+ * Reads the file filter and changedSince arguments that every tool takes. Returns an error
+ * message when one of them is invalid.
+ */
+function fileScope(args: ToolArguments, config: LangToolsConfig, paths: string[]): FileScope | string {
+  const filters = fileFilters(args, config);
+  if (typeof filters === "string") return filters;
+  const changes = changedSince(args, paths);
+  if (typeof changes === "string") return changes;
+  return { filters, changes };
+}
+
+interface DetectionOptions {
+  outputFormat: "json" | "sarif";
+  changedLinesOnly: boolean;
+  /** Absolute path of the baseline file */
+  baselinePath?: string;
+  writeBaseline: boolean;
+  /** The baseline to filter findings with; absent when writing one */
+  baseline?: Baseline;
+}
+
+/**
+ * Reads the output and baseline arguments of the detection tools and loads the baseline.
+ * Returns an error message when an argument is invalid or the baseline cannot be read.
+ */
+function detectionOptions(args: ToolArguments): DetectionOptions | string {
+  const outputFormat = args?.outputFormat ?? "json";
+  if (outputFormat !== "json" && outputFormat !== "sarif") {
+    return `Invalid outputFormat: ${outputFormat}. Expected "json" or "sarif"`;
+  }
+  const baselinePath = args?.baselinePath as string | undefined;
+  const writeBaselineFile = args?.writeBaseline === true;
+  if (writeBaselineFile && !baselinePath) return "writeBaseline requires baselinePath";
+  if (writeBaselineFile && args?.changedSince !== undefined) return "writeBaseline cannot be combined with changedSince";
+
+  const absoluteBaselinePath = baselinePath ? path.resolve(process.cwd(), baselinePath) : undefined;
+  let baseline: Baseline | undefined;
+  if (absoluteBaselinePath && !writeBaselineFile) {
+    try {
+      baseline = loadBaseline(absoluteBaselinePath);
+    } catch (error) {
+      return errorMessage(error);
+    }
+  }
+  return {
+    outputFormat,
+    changedLinesOnly: args?.changedLinesOnly === true,
+    baselinePath: absoluteBaselinePath,
+    writeBaseline: writeBaselineFile,
+    baseline,
+  };
+}
+
+/**
+ * Entrypoint rules of each file, resolved from the config of the module the file belongs to.
+ * Modules sharing the same config files share their rules.
+ */
+function moduleRules(files: string[], configPaths: string[], toolActiveProfiles?: string[]): Map<string, ResolvedRules> {
+  const configForFile = createFileConfigLookup(configPaths);
+  const rulesByConfig = new Map<LangToolsConfig, ResolvedRules>();
+  const fileRules = new Map<string, ResolvedRules>();
+  for (const file of files) {
+    const config = configForFile(file);
+    let rules = rulesByConfig.get(config);
+    if (rules === undefined) {
+      rules = resolveProfiles(mergeActiveProfiles(config, toolActiveProfiles), config);
+      rulesByConfig.set(config, rules);
+    }
+    fileRules.set(file, rules);
+  }
+  return fileRules;
+}
+
+/**
+ * Directory that SARIF artifact URIs are relative to (%SRCROOT%): the repository containing
+ * the scanned roots, or their common directory outside a repository
+ */
+function sarifBaseDir(roots: string[]): string {
+  const common = commonDirectory(roots) ?? process.cwd();
+  return findRepositoryRoot(common) ?? common;
+}
+
+// --- Tool calls ---
+
+/**
+ * Progress and cancellation for a tool call. Progress is sent as notifications/progress when
+ * the request carries a progress token; the scan stops once the client cancels the request.
+ */
+function toolCallMonitor(server: Server, request: CallToolRequest, signal: AbortSignal): ScanMonitor {
+  const progressToken = request.params._meta?.progressToken;
+  if (progressToken === undefined) return createScanMonitor(signal);
+  return createScanMonitor(signal, progress => server.notification({
+    method: "notifications/progress",
+    params: { progressToken, progress: progress.done, total: progress.total },
+  }));
+}
+
+/**
+ * Returns a detection tool's output as the tool result and keeps it as the last report of
+ * each analyzed source root, announcing new report resources to the client. The output of a
+ * stopped scan is kept too: clients get no result for a cancelled call, so the report
+ * resource is where its partial output can be read.
+ */
+function reportResult(
+  server: Server | undefined,
+  tool: string,
+  roots: string[],
+  output: object,
+  options: { mimeType?: string; incomplete?: boolean } = {}
+) {
+  const text = JSON.stringify(output, null, 2);
+  if (recordReport(tool, roots, text, options.mimeType, options.incomplete) && server) {
+    server.sendResourceListChanged().catch(() => {
+      // The client may not listen for resource changes
+    });
+  }
+  return {
+    content: [{
+      type: "text" as const,
+      text
+    }]
+  };
+}
+
+/**
+ * Runs a tool call and returns its result. The server, when given, is told about new report
+ * resources; the CLI runs tools without one.
+ */
+export async function callTool(request: CallToolRequest, monitor: ScanMonitor, server?: Server) {
+  const args = request.params.arguments;
+  switch (request.params.name) {
+    case "cleanup_unused_imports_java":
+    case "cleanup_unused_imports_kotlin": {
+      const language = request.params.name === "cleanup_unused_imports_java" ? "java" : "kotlin";
+      const extension = language === "java" ? ".java" : ".kt";
+      const paths = args?.paths as string[];
+      const dryRun = args?.dryRun === true;
+
+      if (!paths || !Array.isArray(paths)) return errorResult("Invalid paths parameter");
+
+      const config = loadConfig(paths);
+      const scope = fileScope(args, config, paths);
+      if (typeof scope === "string") return errorResult(scope);
+      const { filters, changes } = scope;
+
+      // Import sorting follows the config of each file's module
+      const configForFile = createFileConfigLookup(paths);
+      const { resolved: scanned, errors: resolveErrors } = resolveFilePaths(paths, extension, filters);
+      const resolved = changes ? scanned.filter(file => isChangedFile(changes, file)) : scanned;
+      let processedCount = 0;
+      const errors: string[] = resolveErrors.map(e => e.message);
+      const fileReports: ImportCleanupFileReport[] = [];
+      let incomplete = false;
+
+      for (const [index, absolutePath] of resolved.entries()) {
+        if (await monitor.checkpoint({ phase: "files", done: index, total: resolved.length })) {
+          incomplete = true;
+          break;
+        }
+        const fileConfig = configForFile(absolutePath);
+        const report = cleanupImportsInFile(absolutePath, language, {
+          sortImports: fileConfig.sortImports ?? false,
+          importLayout: resolveImportLayout(fileConfig.importLayout, language),
+          dryRun,
+          displayPath: path.relative(process.cwd(), absolutePath),
+        });
+        if (report) {
+          processedCount++;
+          // Omit files that cleanup leaves untouched to reduce output size
+          if (report.removedImports.length > 0 || report.resorted) {
+            fileReports.push(report);
+          }
+        } else {
+          errors.push(`Failed to process: ${absolutePath}`);
+        }
+      }
+
+      const result = {
+        status: errors.length === 0 ? "OK" : "NOK",
+        filesProcessed: processedCount,
+        filesChanged: fileReports.length,
+        totalImportsRemoved: fileReports.reduce((sum, r) => sum + r.removedImports.length, 0),
+        ...(changes && { changedSince: changes.ref }),
+        ...(dryRun && { dryRun: true }),
+        ...(incomplete && { incomplete: true }),
+        files: fileReports,
+        ...(errors.length > 0 && { errors })
+      };
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    }
+
+    case "detect_dead_code_java":
+    case "detect_dead_code_kotlin": {
+      const language = request.params.name === "detect_dead_code_java" ? "java" : "kotlin";
+      const extension = language === "java" ? ".java" : ".kt";
+      const paths = args?.paths as string[];
+
+      if (!paths || !Array.isArray(paths)) return errorResult("Invalid paths parameter");
+
+      const config = loadConfig(paths);
+      const scope = fileScope(args, config, paths);
+      if (typeof scope === "string") return errorResult(scope);
+      const { filters, changes } = scope;
+      const options = detectionOptions(args);
+      if (typeof options === "string") return errorResult(options);
+      const { baselinePath, baseline } = options;
+
+      const { resolved: scanned, errors: resolveErrors } = resolveFilePaths(paths, extension, filters);
+      const resolved = changes ? scanned.filter(file => isChangedFile(changes, file)) : scanned;
+      const scopeRoots = paths.map(p => path.resolve(process.cwd(), p));
+      let fileResults: DeadCodeFileResult[] = [];
+
+      for (const resolveError of resolveErrors) {
+        fileResults.push({ file: resolveError.path, findings: [], error: resolveError.message });
+      }
+
+      // A stopped scan only covers the files analyzed so far; it never writes a baseline
+      const analyzed: string[] = [];
+      let incomplete = false;
+      for (const [index, absolutePath] of resolved.entries()) {
+        if (await monitor.checkpoint({ phase: "files", done: index, total: resolved.length })) {
+          incomplete = true;
+          break;
+        }
+        fileResults.push(detectDeadCodeInFile(absolutePath, language));
+        analyzed.push(absolutePath);
+      }
+
+      let baselineReport;
+      if (baselinePath && options.writeBaseline && !incomplete) {
+        const entries = writeBaseline(baselinePath, fileResults, {
+          extension,
+          categories: DEAD_CODE_CATEGORIES,
+          analyzedFiles: analyzed,
+          scopeRoots,
+        });
+        baselineReport = { path: baselinePath, written: true, entries };
+      } else if (baselinePath && baseline) {
+        const applied = applyBaseline(fileResults, baseline, {
+          baselineDir: path.dirname(baselinePath),
+          analyzedFiles: analyzed,
+          scopeRoots,
+          extension,
+          categories: DEAD_CODE_CATEGORIES,
+        });
+        fileResults = applied.files;
+        baselineReport = {
+          path: baselinePath,
+          suppressedFindings: applied.suppressedFindings,
+          fixedEntries: applied.fixedEntries,
+        };
+      }
+
+      // Filter after the baseline so that baseline entries on unchanged lines are not reported as fixed
+      if (changes && options.changedLinesOnly) {
+        fileResults = filterChangedLines(fileResults, changes);
+      }
+
+      if (options.outputFormat === "sarif") {
+        const sarif = toSarifLog(fileResults, {
+          categories: DEAD_CODE_CATEGORIES,
+          baseDir: sarifBaseDir(scopeRoots),
+          toolVersion: SERVER_VERSION,
+          ...((baselineReport || changes || incomplete) && {
+            properties: {
+              ...(changes && { changedSince: changes.ref }),
+              ...(baselineReport && { baseline: baselineReport }),
+              ...(incomplete && { incomplete: true }),
+            },
+          }),
+        });
+        return reportResult(server, request.params.name, scopeRoots, sarif, { mimeType: "application/sarif+json", incomplete });
+      }
+
+      // Note: filesProcessed counts only successfully-resolved files; resolve-error entries
+      // may also appear in files[] but are not counted here (known, documented discrepancy).
+      const response = {
+        status: "OK",
+        filesProcessed: analyzed.length,
+        totalFindings: fileResults.reduce((sum, r) => sum + r.findings.length, 0),
+        ...(changes && { changedSince: changes.ref }),
+        ...(baselineReport && { baseline: baselineReport }),
+        ...(incomplete && { incomplete: true }),
+        files: fileResults.filter(r => r.findings.length > 0 || r.error !== undefined),
+      };
+
+      return reportResult(server, request.params.name, scopeRoots, response, { incomplete });
+    }
+
+    case "fix_dead_code_java":
+    case "fix_dead_code_kotlin": {
+      const language = request.params.name === "fix_dead_code_java" ? "java" : "kotlin";
+      const extension = language === "java" ? ".java" : ".kt";
+      const paths = args?.paths as string[];
+      const dryRun = args?.dryRun === true;
+
+      if (!paths || !Array.isArray(paths)) return errorResult("Invalid paths parameter");
+
+      const config = loadConfig(paths);
+      const scope = fileScope(args, config, paths);
+      if (typeof scope === "string") return errorResult(scope);
+      const { filters, changes } = scope;
+
+      const { resolved: scanned, errors: resolveErrors } = resolveFilePaths(paths, extension, filters);
+      const resolved = changes ? scanned.filter(file => isChangedFile(changes, file)) : scanned;
+      let processedCount = 0;
+      const errors: string[] = resolveErrors.map(e => e.message);
+      const fileReports: DeadCodeFixFileReport[] = [];
+      let incomplete = false;
+
+      for (const [index, absolutePath] of resolved.entries()) {
+        if (await monitor.checkpoint({ phase: "files", done: index, total: resolved.length })) {
+          incomplete = true;
+          break;
+        }
+        const report = fixDeadCodeInFile(absolutePath, language, {
+          dryRun,
+          displayPath: path.relative(process.cwd(), absolutePath),
+        });
+        if (report) {
+          processedCount++;
+          // Omit files with nothing to remove or report to reduce output size
+          if (report.removed.length > 0 || report.unsafe.length > 0) {
+            fileReports.push(report);
+          }
+        } else {
+          errors.push(`Failed to process: ${absolutePath}`);
+        }
+      }
+
+      const result = {
+        status: errors.length === 0 ? "OK" : "NOK",
+        filesProcessed: processedCount,
+        filesChanged: fileReports.filter(r => r.removed.length > 0).length,
+        totalRemoved: fileReports.reduce((sum, r) => sum + r.removed.length, 0),
+        totalUnsafe: fileReports.reduce((sum, r) => sum + r.unsafe.length, 0),
+        ...(changes && { changedSince: changes.ref }),
+        ...(dryRun && { dryRun: true }),
+        ...(incomplete && { incomplete: true }),
+        files: fileReports,
+        ...(errors.length > 0 && { errors })
+      };
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    }
+
+    case "detect_public_dead_code":
+    case "detect_public_dead_code_java":
+    case "detect_public_dead_code_kotlin": {
+      const language = request.params.name === "detect_public_dead_code_java" ? "java"
+        : request.params.name === "detect_public_dead_code_kotlin" ? "kotlin"
+        : "mixed";
+      const extension = language === "java" ? ".java" : language === "kotlin" ? ".kt" : [".java", ".kt"];
+      const paths = args?.paths as string[] | undefined;
+      const projectRoot = args?.projectRoot;
+      const referencePaths = args?.referencePaths ?? [];
+      const reportUsedOnlyInTests = args?.reportUsedOnlyInTests === true;
+      const toolActiveProfiles = args?.activeProfiles as string[] | undefined;
+      const reachability = args?.reachability === true;
+      const metaAnnotations = args?.metaAnnotations === true;
+
+      if (projectRoot !== undefined && typeof projectRoot !== "string") return errorResult("Invalid projectRoot parameter");
+      if (!Array.isArray(referencePaths) || !referencePaths.every(p => typeof p === "string")) {
+        return errorResult("Invalid referencePaths parameter");
+      }
+      // paths is optional when projectRoot is given
+      if (paths === undefined ? projectRoot === undefined : !Array.isArray(paths)) return errorResult("Invalid paths parameter");
+
+      let layout: ProjectLayout | undefined;
+      if (projectRoot !== undefined) {
+        try {
+          layout = discoverProject(path.resolve(process.cwd(), projectRoot));
+        } catch (error) {
+          return errorResult(errorMessage(error));
+        }
+      }
+      // Main source sets are analyzed; test source sets only provide references
+      const discovered = layout ? projectRoots(layout) : { sourceRoots: [], testRoots: [], resourceRoots: [] };
+      const sourcePaths = [...discovered.sourceRoots, ...(paths ?? [])];
+
+      const options = detectionOptions(args);
+      if (typeof options === "string") return errorResult(options);
+      const { baselinePath, baseline } = options;
+
+      // Project config files are discovered from the project root and the analyzed paths; the
+      // config of their common directory sets the file filters, and each module's config the
+      // entrypoint rules of its files
+      const configPaths = [...(projectRoot !== undefined ? [projectRoot] : []), ...(paths ?? [])];
+      const config = loadConfig(configPaths);
+      const scope = fileScope(args, config, sourcePaths);
+      if (typeof scope === "string") return errorResult(scope);
+      const { filters, changes } = scope;
+      const activeProfileNames = mergeActiveProfiles(config, toolActiveProfiles);
+      const resolvedRules = resolveProfiles(activeProfileNames, config);
+
+      const { resolved, errors: sourceErrors } = resolveFilePaths(sourcePaths, extension, filters);
+      const referenceResolution = resolveFilePaths([...discovered.testRoots, ...referencePaths], extension, filters);
+      const resolveErrors = [...sourceErrors, ...referenceResolution.errors];
+      const analyzedSet = new Set(resolved);
+      const referenceFiles = referenceResolution.resolved.filter(file => !analyzedSet.has(file));
+      const fileRules = moduleRules([...resolved, ...referenceFiles], configPaths, toolActiveProfiles);
+
+      const absoluteSourceRoots = sourcePaths.map(p =>
+        path.isAbsolute(p) ? p : path.resolve(process.cwd(), p)
+      );
+
+      const result = await runScan(scanPublicDeadCode(
+        resolved,
+        language,
+        resolvedRules,
+        absoluteSourceRoots,
+        activeProfileNames,
+        {
+          reachability,
+          referenceFiles,
+          reportUsedOnlyInTests,
+          resourceRoots: discovered.resourceRoots,
+          metaAnnotations,
+          fileRules,
+        },
+      ), monitor);
+
+      // Prepend resolve errors as file-level errors.
+      // Note: filesAnalyzed counts only successfully parsed files; files.length
+      // may be larger when resolve errors are present (known, documented discrepancy).
+      if (resolveErrors.length > 0) {
+        const errorEntries = resolveErrors.map(e => ({
+          file: e.path,
+          findings: [],
+          error: e.message,
+        }));
+        result.files.unshift(...errorEntries);
+      }
+
+      // All files are indexed for references, but only findings in changed files are reported
+      const analyzedFiles = changes ? resolved.filter(file => isChangedFile(changes, file)) : resolved;
+      if (changes) {
+        result.files = result.files.filter(f => f.error !== undefined || isChangedFile(changes, f.file));
+      }
+
+      let response: PublicDeadCodeResult & { testSourceRoots?: string[]; baseline?: object; changedSince?: string } = result;
+      if (layout) {
+        response = { ...response, testSourceRoots: discovered.testRoots };
+      }
+      // An incomplete result has no findings: writing or applying a baseline would drop every entry
+      if (baselinePath && options.writeBaseline && !result.incomplete) {
+        const entries = writeBaseline(baselinePath, result.files, {
+          extension,
+          categories: PUBLIC_DEAD_CODE_CATEGORIES,
+          analyzedFiles,
+          scopeRoots: absoluteSourceRoots,
+        });
+        response = { ...response, baseline: { path: baselinePath, written: true, entries } };
+      } else if (baselinePath && baseline && !result.incomplete) {
+        const applied = applyBaseline(result.files, baseline, {
+          baselineDir: path.dirname(baselinePath),
+          analyzedFiles,
+          scopeRoots: absoluteSourceRoots,
+          extension,
+          categories: PUBLIC_DEAD_CODE_CATEGORIES,
+        });
+        const files = applied.files.filter(f => f.findings.length > 0 || f.error !== undefined);
+        response = {
+          ...response,
+          totalFindings: files.reduce((sum, f) => sum + f.findings.length, 0),
+          baseline: {
+            path: baselinePath,
+            suppressedFindings: applied.suppressedFindings,
+            fixedEntries: applied.fixedEntries,
+          },
+          files,
+        };
+      }
+
+      if (changes) {
+        let files = response.files;
+        if (options.changedLinesOnly) {
+          files = filterChangedLines(files, changes).filter(f => f.findings.length > 0 || f.error !== undefined);
+        }
+        const clusterIds = new Set(files.flatMap(f => f.findings.map(finding => finding.clusterId)));
+        response = {
+          ...response,
+          changedSince: changes.ref,
+          totalFindings: files.reduce((sum, f) => sum + f.findings.length, 0),
+          files,
+          ...(response.clusters && { clusters: response.clusters.filter(c => clusterIds.has(c.id)) }),
+        };
+      }
+
+      if (options.outputFormat === "sarif") {
+        const sarif = toSarifLog(response.files, {
+          categories: PUBLIC_DEAD_CODE_CATEGORIES,
+          baseDir: sarifBaseDir([...(layout ? [layout.root] : []), ...absoluteSourceRoots]),
+          toolVersion: SERVER_VERSION,
+          properties: {
+            activeProfiles: response.activeProfiles,
+            ...(response.changedSince && { changedSince: response.changedSince }),
+            ...(response.clusters && { clusters: response.clusters }),
+            ...(response.baseline && { baseline: response.baseline }),
+            ...(response.incomplete && { incomplete: true }),
+          },
+        });
+        return reportResult(server, request.params.name, absoluteSourceRoots, sarif, {
+          mimeType: "application/sarif+json",
+          incomplete: response.incomplete,
+        });
+      }
+
+      return reportResult(server, request.params.name, absoluteSourceRoots, response, { incomplete: response.incomplete });
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${request.params.name}`);
+  }
+}
+
+// --- Server ---
+
+/**
+ * Creates an MCP server with every tool, resource and prompt handler. Each connection gets
+ * its own server; reports and other module state are shared between them.
+ */
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: "lang-tools-mcp",
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { listChanged: true },
+        prompts: {},
+      },
+    }
+  );
+
+  /**
+   * Handlers for tools
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: TOOLS };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    return callTool(request, toolCallMonitor(server, request, extra.signal), server);
+  });
+
+  /**
+   * Handlers for resources: the effective config, profiles and the last detection reports
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources() };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [readResource(request.params.uri)] };
+  });
+
+  /**
+   * Handlers for prompts: guided workflows built on the tools above
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return { ...getPrompt(request.params.name, request.params.arguments) };
+  });
+
+  return server;
+}
@@ -0,0 +1,606 @@
+/**
+ * Symbol table for cross-file public dead code analysis.
+ * Indexes classes by fully qualified name and attributes member references to the
+ * declaring class hierarchy when the receiver's type is statically known (a typed
+ * variable, a class name, a constructor call or a cast). References whose receiver
+ * cannot be typed fall back to bare-name matching in the detector.
+ */
+
+import Parser from "tree-sitter";
+
+// --- Types ---
+
+export interface ClassSymbol {
+  fqn: string;
+  simpleName: string;
+  file: string;
+  /** Supertype names as written in the source (simple or qualified) */
+  supertypeNames: string[];
+  /** Kotlin companion object name; Java sees the companion as a nested class of this name */
+  companionName?: string;
+}
+
+export interface FileContext {
+  file: string;
+  language: 'java' | 'kotlin';
+  packageName: string;
+  /** Non-static imports: FQNs or wildcards (e.g. com.example.*) */
+  imports: string[];
+  /** Classes declared in this file, keyed by simple name and by dotted name relative to the file */
+  localClasses: Map<string, string>;
+  /** Kotlin import aliases: alias -> imported FQN */
+  aliases: Map<string, string>;
+  /** Kotlin: simple name of the JVM class holding top-level declarations (`FileNameKt` or `@file:JvmName`) */
+  facadeName?: string;
+}
+
+/**
+ * Type keys are project class FQNs, or `?SimpleName` for types outside the analyzed sources.
+ */
+export interface SymbolTable {
+  classes: Map<string, ClassSymbol>;
+  bySimpleName: Map<string, string[]>;
+  supertypes: Map<string, string[]>;
+  subtypes: Map<string, string[]>;
+  /** Kotlin companion objects as Java sees them (`Outer.Companion`) -> owning class FQN */
+  companions: Map<string, string>;
+}
+
+export interface FileReferences {
+  /** `ownerFqn#member` keys for member references with a typed receiver */
+  memberKeys: Set<string>;
+  /** Start positions of member-name identifiers attributed to a typed receiver */
+  typedPositions: Set<number>;
+  /** FQNs of project classes referenced by (resolved) type name */
+  referencedClasses: Set<string>;
+  /** Member keys per typed member-name position, for reachability analysis */
+  memberReferences: Map<number, string[]>;
+  /** Referenced class FQNs per identifier position, for reachability analysis */
+  classReferences: Map<number, string[]>;
+}
+
+const EXTERNAL = '?';
+
+/** Root types every class inherits from; references typed to them may dispatch anywhere */
+const ROOT_TYPES = new Set([`${EXTERNAL}Object`, `${EXTERNAL}Any`]);
+
+const JAVA_CLASS_TYPES = new Set([
+  'class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration',
+  'annotation_type_declaration',
+]);
+const KOTLIN_CLASS_TYPES = new Set(['class_declaration', 'object_declaration']);
+
+// --- Helpers ---
+
+function text(node: Parser.SyntaxNode, sourceCode: string): string {
+  return sourceCode.substring(node.startIndex, node.endIndex);
+}
+
+function addToList<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) {
+    if (!list.includes(value)) list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/** UpperCamelCase identifiers are taken as type names; ALL_CAPS constants are not. */
+function looksLikeType(name: string): boolean {
+  return /^[A-Z]/.test(name) && /[a-z]/.test(name);
+}
+
+function classNameNode(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  const named = node.childForFieldName('name');
+  if (named) return named;
+  for (let i = 0; i < node.namedChildCount; i++) {
+    const child = node.namedChild(i)!;
+    if (child.type === 'identifier' || child.type === 'type_identifier') return child;
+  }
+  return null;
+}
+
+/** Textual name of a type node, without type arguments; null for primitives and arrays. */
+function typeName(node: Parser.SyntaxNode | null, sourceCode: string): string | null {
+  if (!node) return null;
+  switch (node.type) {
+    case 'type_identifier':
+    case 'scoped_type_identifier':
+      return text(node, sourceCode);
+    case 'generic_type':
+      return typeName(node.namedChild(0), sourceCode);
+    case 'user_type':
+      return node.namedChildren
+        .filter(c => c.type === 'identifier' || c.type === 'type_identifier')
+        .map(c => text(c, sourceCode))
+        .join('.') || null;
+    case 'nullable_type':
+      return typeName(node.namedChildren.find(c => c.type === 'user_type') ?? null, sourceCode);
+    default:
+      return null;
+  }
+}
+
+function classTypes(language: 'java' | 'kotlin'): Set<string> {
+  return language === 'java' ? JAVA_CLASS_TYPES : KOTLIN_CLASS_TYPES;
+}
+
+function facadeClassName(file: string, rootNode: Parser.SyntaxNode, sourceCode: string): string {
+  for (const annotation of rootNode.namedChildren.filter(c => c.type === 'file_annotation')) {
+    const match = text(annotation, sourceCode).match(/JvmName\(\s*"([^"]+)"\s*\)/);
+    if (match) return match[1];
+  }
+  const base = file.replace(/\\/g, '/').split('/').pop() ?? file;
+  const stem = base.replace(/\.kt$/, '');
+  return stem.charAt(0).toUpperCase() + stem.slice(1) + 'Kt';
+}
+
+function companionNameOf(classNode: Parser.SyntaxNode, sourceCode: string): string | undefined {
+  const body = classNode.namedChildren.find(c => c.type === 'class_body');
+  const companion = body?.namedChildren.find(c => c.type === 'companion_object');
+  if (!companion) return undefined;
+  const nameNode = companion.namedChildren.find(c => c.type === 'identifier' || c.type === 'type_identifier');
+  return nameNode ? text(nameNode, sourceCode) : 'Companion';
+}
+
+function qualify(packageName: string, name: string): string {
+  return packageName ? `${packageName}.${name}` : name;
+}
+
+// --- Class collection ---
+
+function supertypeNamesOf(classNode: Parser.SyntaxNode, sourceCode: string, language: 'java' | 'kotlin'): string[] {
+  const names: string[] = [];
+  if (language === 'java') {
+    for (let i = 0; i < classNode.namedChildCount; i++) {
+      const child = classNode.namedChild(i)!;
+      if (child.type === 'superclass') {
+        const name = typeName(child.namedChild(0), sourceCode);
+        if (name) names.push(name);
+      } else if (child.type === 'super_interfaces' || child.type === 'extends_interfaces') {
+        const list = child.namedChildren.find(c => c.type === 'type_list');
+        for (const t of list?.namedChildren ?? []) {
+          const name = typeName(t, sourceCode);
+          if (name) names.push(name);
+        }
+      }
+    }
+  } else {
+    for (const spec of classNode.namedChildren.filter(c => c.type === 'delegation_specifiers')) {
+      for (const userType of spec.descendantsOfType('user_type')) {
+        // Skip type arguments nested inside another supertype (e.g. Comparable<Foo>)
+        if (userType.parent?.type === 'type_projection' || userType.parent?.type === 'type_arguments') continue;
+        const name = typeName(userType, sourceCode);
+        if (name) names.push(name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Collects every class declared in a file (any visibility, including nested classes)
+ * and the context needed to resolve type names used in it. A Kotlin file with top-level
+ * declarations also contributes its facade class, through which Java calls them.
+ */
+export function collectClassSymbols(
+  rootNode: Parser.SyntaxNode,
+  sourceCode: string,
+  language: 'java' | 'kotlin',
+  file: string,
+  packageName: string,
+  imports: string[],
+): { classes: ClassSymbol[]; context: FileContext } {
+  const classes: ClassSymbol[] = [];
+  const localClasses = new Map<string, string>();
+  const types = classTypes(language);
+
+  function visit(node: Parser.SyntaxNode, outer: string[]): void {
+    let path = outer;
+    if (types.has(node.type)) {
+      const nameNode = classNameNode(node);
+      if (nameNode) {
+        const simpleName = text(nameNode, sourceCode);
+        path = [...outer, simpleName];
+        const fqn = qualify(packageName, path.join('.'));
+        classes.push({
+          fqn,
+          simpleName,
+          file,
+          supertypeNames: supertypeNamesOf(node, sourceCode, language),
+          ...(language === 'kotlin' && { companionName: companionNameOf(node, sourceCode) }),
+        });
+        localClasses.set(path.join('.'), fqn);
+        if (!localClasses.has(simpleName)) localClasses.set(simpleName, fqn);
+      }
+    }
+    for (let i = 0; i < node.namedChildCount; i++) visit(node.namedChild(i)!, path);
+  }
+  visit(rootNode, []);
+
+  const aliases = new Map<string, string>();
+  let facadeName: string | undefined;
+  if (language === 'kotlin') {
+    for (const importNode of rootNode.descendantsOfType('import').filter(n => n.childCount > 0)) {
+      const match = text(importNode, sourceCode).match(/^import\s+([\w.]+)\s+as\s+(\w+)/);
+      if (match) aliases.set(match[2], match[1]);
+    }
+    facadeName = facadeClassName(file, rootNode, sourceCode);
+    const hasTopLevel = rootNode.namedChildren.some(c => c.type === 'function_declaration' || c.type === 'property_declaration');
+    if (hasTopLevel) {
+      classes.push({ fqn: qualify(packageName, facadeName), simpleName: facadeName, file, supertypeNames: [] });
+    }
+  }
+
+  return { classes, context: { file, language, packageName, imports, localClasses, aliases, facadeName } };
+}
+
+/**
+ * FQN of the class that owns a declaration node: the innermost enclosing class, or the
+ * node itself for class declarations. Kotlin companion members belong to the outer
+ * class; Kotlin top-level declarations belong to the file facade class (`FileNameKt`).
+ */
+export function ownerClassFqn(node: Parser.SyntaxNode, sourceCode: string, context: FileContext): string {
+  const types = classTypes(context.language);
+  const names: string[] = [];
+  let current: Parser.SyntaxNode | null = node;
+  while (current) {
+    if (types.has(current.type)) {
+      const nameNode = classNameNode(current);
+      if (nameNode) names.unshift(text(nameNode, sourceCode));
+    }
+    current = current.parent;
+  }
+  if (names.length === 0) {
+    return context.facadeName ? qualify(context.packageName, context.facadeName) : context.packageName;
+  }
+  return qualify(context.packageName, names.join('.'));
+}
+
+// --- Table and type resolution ---
+
+/**
+ * Resolves a simple or qualified type name as seen from a file, following Java/Kotlin
+ * lookup order: classes in the same file, explicit imports, same package, wildcard imports.
+ * A name that none of these explain resolves to every project class with that simple
+ * name (conservative), or to an external type key when there is none.
+ */
+export function resolveTypeName(name: string, context: FileContext, table: SymbolTable): string[] {
+  if (table.classes.has(name)) return [name];
+  const companionOwner = table.companions.get(name);
+  if (companionOwner) return [companionOwner];
+
+  const [first, ...rest] = name.split('.');
+  let bases: string[] = [];
+
+  const local = context.localClasses.get(first);
+  const explicit = context.aliases.get(first)
+    ?? context.imports.find(imp => imp.endsWith('.' + first) && !imp.endsWith('*'));
+  const samePackage = qualify(context.packageName, first);
+  if (local) {
+    bases = [local];
+  } else if (explicit) {
+    bases = [explicit];
+  } else if (table.classes.has(samePackage)) {
+    bases = [samePackage];
+  } else {
+    bases = context.imports
+      .filter(imp => imp.endsWith('.*'))
+      .map(imp => imp.slice(0, -1) + first)
+      .filter(candidate => table.classes.has(candidate));
+    if (bases.length === 0) bases = table.bySimpleName.get(first) ?? [];
+  }
+
+  const resolved = bases
+    .map(base => rest.length === 0 ? base : `${base}.${rest.join('.')}`)
+    .map(fqn => table.companions.get(fqn) ?? fqn)
+    .filter(fqn => table.classes.has(fqn));
+  if (resolved.length > 0) return resolved;
+
+  // Outside the analyzed sources (JDK, libraries) or a package-qualified name we do not index
+  const simpleName = rest.length > 0 ? rest[rest.length - 1] : first;
+  if (rest.length > 0 && table.bySimpleName.has(simpleName) && !/^[a-z]/.test(first)) {
+    return table.bySimpleName.get(simpleName)!;
+  }
+  return [EXTERNAL + simpleName];
+}
+
+/**
+ * Builds the class table and resolves each class's supertypes.
+ */
+export function buildSymbolTable(classes: ClassSymbol[], contexts: Map<string, FileContext>): SymbolTable {
+  const table: SymbolTable = {
+    classes: new Map(),
+    bySimpleName: new Map(),
+    supertypes: new Map(),
+    subtypes: new Map(),
+    companions: new Map(),
+  };
+  for (const cls of classes) {
+    table.classes.set(cls.fqn, cls);
+    addToList(table.bySimpleName, cls.simpleName, cls.fqn);
+    if (cls.companionName) table.companions.set(`${cls.fqn}.${cls.companionName}`, cls.fqn);
+  }
+  for (const cls of classes) {
+    const context = contexts.get(cls.file);
+    if (!context) continue;
+    const supertypes = cls.supertypeNames.flatMap(name => resolveTypeName(name, context, table));
+    table.supertypes.set(cls.fqn, supertypes);
+    for (const supertype of supertypes) addToList(table.subtypes, supertype, cls.fqn);
+  }
+  return table;
+}
+
+function collectTransitive(start: string, edges: Map<string, string[]>, into: Set<string>): void {
+  const stack = [start];
+  while (stack.length > 0) {
+    const key = stack.pop()!;
+    for (const next of edges.get(key) ?? []) {
+      if (into.has(next)) continue;
+      into.add(next);
+      stack.push(next);
+    }
+  }
+}
+
+/**
+ * Project classes whose members a reference typed to `typeKeys` may reach: the types
+ * themselves, their supertypes (inherited members) and their subtypes (overrides).
+ */
+export function typeFamily(typeKeys: string[], table: SymbolTable): Set<string> {
+  const family = new Set<string>();
+  for (const key of typeKeys) {
+    if (ROOT_TYPES.has(key)) {
+      for (const fqn of table.classes.keys()) family.add(fqn);
+      continue;
+    }
+    family.add(key);
+    collectTransitive(key, table.supertypes, family);
+    collectTransitive(key, table.subtypes, family);
+  }
+  for (const key of family) {
+    if (!table.classes.has(key)) family.delete(key);
+  }
+  return family;
+}
+
+// --- Reference collection ---
+
+type VariableTypes = Map<string, Array<string | null>>;
+
+function recordVariable(variables: VariableTypes, name: string, type: string | null): void {
+  const list = variables.get(name);
+  if (list) list.push(type);
+  else variables.set(name, [type]);
+}
+
+/** The type of a `var` declaration: known only when it is initialized by a constructor call */
+function inferredJavaType(value: Parser.SyntaxNode | null, sourceCode: string): string | null {
+  return value?.type === 'object_creation_expression' ? typeName(value.childForFieldName('type'), sourceCode) : null;
+}
+
+function collectJavaVariables(rootNode: Parser.SyntaxNode, sourceCode: string): VariableTypes {
+  const variables: VariableTypes = new Map();
+  const declarations = rootNode.descendantsOfType(['local_variable_declaration', 'field_declaration', 'constant_declaration']);
+  for (const decl of declarations) {
+    const declaredType = typeName(decl.childForFieldName('type'), sourceCode);
+    for (const declarator of decl.namedChildren.filter(c => c.type === 'variable_declarator')) {
+      const nameNode = declarator.childForFieldName('name');
+      if (!nameNode) continue;
+      const type = declaredType === 'var' ? inferredJavaType(declarator.childForFieldName('value'), sourceCode) : declaredType;
+      recordVariable(variables, text(nameNode, sourceCode), type);
+    }
+  }
+  for (const param of rootNode.descendantsOfType(['formal_parameter', 'enhanced_for_statement', 'resource'])) {
+    const nameNode = param.childForFieldName('name');
+    if (!nameNode) continue;
+    let type = typeName(param.childForFieldName('type'), sourceCode);
+    // The value of a for-each loop is the iterated collection, not the element
+    if (type === 'var') type = param.type === 'resource' ? inferredJavaType(param.childForFieldName('value'), sourceCode) : null;
+    recordVariable(variables, text(nameNode, sourceCode), type);
+  }
+  // Untyped declarations shadow typed ones of the same name
+  for (const param of rootNode.descendantsOfType(['spread_parameter', 'catch_formal_parameter', 'lambda_expression'])) {
+    const ids = param.type === 'lambda_expression'
+      ? (param.childForFieldName('parameters')?.descendantsOfType('identifier') ?? [])
+      : param.descendantsOfType('identifier').slice(-1);
+    for (const id of ids) recordVariable(variables, text(id, sourceCode), null);
+  }
+  return variables;
+}
+
+function collectKotlinVariables(rootNode: Parser.SyntaxNode, sourceCode: string): VariableTypes {
+  const variables: VariableTypes = new Map();
+  for (const decl of rootNode.descendantsOfType('variable_declaration')) {
+    const nameNode = decl.namedChildren.find(c => c.type === 'identifier');
+    if (!nameNode) continue;
+    let type = typeName(decl.namedChildren.find(c => c.type === 'user_type' || c.type === 'nullable_type') ?? null, sourceCode);
+    // `val x = Foo(...)`: constructor call
+    if (!type && decl.parent?.type === 'property_declaration') {
+      const parent = decl.parent;
+      const assignIndex = parent.children.findIndex(c => c.type === '=');
+      const initializer = assignIndex >= 0 ? parent.child(assignIndex + 1) : null;
+      const callee = initializer?.type === 'call_expression' ? initializer.namedChild(0) : null;
+      if (callee?.type === 'identifier' && looksLikeType(text(callee, sourceCode))) {
+        type = text(callee, sourceCode);
+      }
+    }
+    recordVariable(variables, text(nameNode, sourceCode), type);
+  }
+  for (const param of rootNode.descendantsOfType(['parameter', 'class_parameter'])) {
+    const nameNode = param.namedChildren.find(c => c.type === 'identifier');
+    if (!nameNode) continue;
+    const typeNode = param.namedChildren.find(c => c.type === 'user_type' || c.type === 'nullable_type') ?? null;
+    recordVariable(variables, text(nameNode, sourceCode), typeName(typeNode, sourceCode));
+  }
+  return variables;
+}
+
+/**
+ * Type parameters declared in a file, mapped to their bound: `<T extends Shape>`,
+ * `<T : Shape>` and `where T : Shape` bind T to Shape. Unbounded parameters, and names
+ * declared more than once with different bounds, map to null.
+ */
+function collectTypeParameters(rootNode: Parser.SyntaxNode, sourceCode: string): Map<string, string | null> {
+  const declared: VariableTypes = new Map();
+  for (const param of rootNode.descendantsOfType('type_parameter')) {
+    const nameNode = param.namedChildren.find(c => c.type === 'type_identifier' || c.type === 'identifier');
+    if (!nameNode) continue;
+    const name = text(nameNode, sourceCode);
+    // Java: the first type of `extends A & B`; Kotlin: `T : A` or a `where T : A` constraint
+    const javaBound = param.namedChildren.find(c => c.type === 'type_bound')?.namedChild(0) ?? null;
+    const kotlinBound = param.namedChildren.find(c => c.type === 'user_type' || c.type === 'nullable_type')
+      ?? param.parent?.parent?.namedChildren
+        .find(c => c.type === 'type_constraints')?.namedChildren
+        .find(c => c.type === 'type_constraint' && c.namedChild(0) !== null && text(c.namedChild(0)!, sourceCode) === name)
+        ?.namedChildren.find(c => c.type === 'user_type' || c.type === 'nullable_type')
+      ?? null;
+    recordVariable(declared, name, typeName(javaBound ?? kotlinBound, sourceCode));
+  }
+  const bounds = new Map<string, string | null>();
+  for (const [name, types] of declared) {
+    bounds.set(name, types.every(t => t === types[0]) ? types[0] : null);
+  }
+  return bounds;
+}
+
+function isDottedName(node: Parser.SyntaxNode): boolean {
+  if (node.type === 'identifier') return true;
+  if (node.type !== 'field_access' && node.type !== 'navigation_expression') return false;
+  if (node.type === 'navigation_expression' && !node.children.some(c => c.type === '.')) return false;
+  const parts = node.namedChildren;
+  return parts.length === 2 && isDottedName(parts[0]) && parts[1].type === 'identifier';
+}
+
+/**
+ * Collects member references with a statically known receiver type and class references
+ * resolved through the file's imports and package.
+ */
+export function collectFileReferences(
+  rootNode: Parser.SyntaxNode,
+  sourceCode: string,
+  context: FileContext,
+  table: SymbolTable,
+  identifierTypes: string[],
+  definitionPositions: Set<number>,
+): FileReferences {
+  const memberKeys = new Set<string>();
+  const typedPositions = new Set<number>();
+  const referencedClasses = new Set<string>();
+  const memberReferences = new Map<number, string[]>();
+  const classReferences = new Map<number, string[]>();
+
+  const variables = context.language === 'java'
+    ? collectJavaVariables(rootNode, sourceCode)
+    : collectKotlinVariables(rootNode, sourceCode);
+
+  const typeParameters = collectTypeParameters(rootNode, sourceCode);
+
+  function variableType(name: string): string[] | null | undefined {
+    const types = variables.get(name);
+    if (!types) return undefined;
+    const first = types[0];
+    if (first === null || types.some(t => t !== first)) return null;
+    // A variable of a type parameter's type has the members of its bound
+    const bound = typeParameters.get(first);
+    if (bound === null) return null;
+    return resolveTypeName(bound ?? first, context, table);
+  }
+
+  function receiverTypes(receiver: Parser.SyntaxNode): string[] | null {
+    switch (receiver.type) {
+      case 'identifier': {
+        const name = text(receiver, sourceCode);
+        const declared = variableType(name);
+        if (declared !== undefined) return declared;
+        return looksLikeType(name) ? resolveTypeName(name, context, table) : null;
+      }
+      case 'type_identifier':
+      case 'scoped_type_identifier':
+      case 'generic_type': {
+        const name = typeName(receiver, sourceCode);
+        return name ? resolveTypeName(name, context, table) : null;
+      }
+      case 'field_access':
+      case 'navigation_expression': {
+        // Qualified type name such as Outer.Inner or com.example.Util
+        if (!isDottedName(receiver)) return null;
+        const name = text(receiver, sourceCode).replace(/\s+/g, '');
+        const [first] = name.split('.');
+        const last = name.substring(name.lastIndexOf('.') + 1);
+        if (variables.has(first) || !looksLikeType(last)) return null;
+        return resolveTypeName(name, context, table);
+      }
+      case 'object_creation_expression': {
+        const name = typeName(receiver.childForFieldName('type'), sourceCode);
+        return name ? resolveTypeName(name, context, table) : null;
+      }
+      case 'parenthesized_expression': {
+        const inner = receiver.namedChild(0);
+        if (inner?.type !== 'cast_expression') return null;
+        const name = typeName(inner.childForFieldName('type'), sourceCode);
+        return name ? resolveTypeName(name, context, table) : null;
+      }
+      case 'call_expression': {
+        // Kotlin constructor call: Foo(...).member
+        const callee = receiver.namedChild(0);
+        if (callee?.type !== 'identifier') return null;
+        const name = text(callee, sourceCode);
+        if (variables.has(name) || !looksLikeType(name)) return null;
+        return resolveTypeName(name, context, table);
+      }
+      default:
+        return null;
+    }
+  }
+
+  function record(receiver: Parser.SyntaxNode | null, nameNode: Parser.SyntaxNode | null): void {
+    if (!receiver || !nameNode || nameNode.type !== 'identifier') return;
+    const types = receiverTypes(receiver);
+    if (!types) return;
+    const name = text(nameNode, sourceCode);
+    const keys = [...typeFamily(types, table)].map(fqn => `${fqn}#${name}`);
+    for (const key of keys) memberKeys.add(key);
+    typedPositions.add(nameNode.startIndex);
+    memberReferences.set(nameNode.startIndex, keys);
+  }
+
+  if (context.language === 'java') {
+    for (const node of rootNode.descendantsOfType('method_invocation')) {
+      record(node.childForFieldName('object'), node.childForFieldName('name'));
+    }
+    for (const node of rootNode.descendantsOfType('field_access')) {
+      // Qualified type names (a.b.Foo) are handled as class references below
+      if (node.parent?.type === 'field_access' || node.parent?.type === 'method_invocation') {
+        if (isDottedName(node) && looksLikeType(text(node.namedChild(1)!, sourceCode))) continue;
+      }
+      record(node.childForFieldName('object'), node.childForFieldName('field'));
+    }
+    for (const node of rootNode.descendantsOfType('method_reference')) {
+      const last = node.namedChild(node.namedChildCount - 1);
+      if (node.namedChildCount === 2) record(node.namedChild(0), last);
+    }
+  } else {
+    for (const node of rootNode.descendantsOfType('navigation_expression')) {
+      if (node.namedChildCount !== 2) continue;
+      const [receiver, nameNode] = node.namedChildren;
+      // Skip the inner parts of a qualified type name
+      if (isDottedName(node) && looksLikeType(text(nameNode, sourceCode)) && node.parent?.type === 'navigation_expression') continue;
+      record(receiver, nameNode);
+    }
+  }
+
+  // Class references: identifiers naming a project class, resolved in this file's scope
+  for (const idType of identifierTypes) {
+    for (const node of rootNode.descendantsOfType(idType)) {
+      if (definitionPositions.has(node.startIndex)) continue;
+      const name = text(node, sourceCode);
+      if (!table.bySimpleName.has(name)) continue;
+      const fqns = resolveTypeName(name, context, table).filter(key => table.classes.has(key));
+      for (const fqn of fqns) referencedClasses.add(fqn);
+      if (fqns.length > 0) classReferences.set(node.startIndex, fqns);
+    }
+  }
+
+  return { memberKeys, typedPositions, referencedClasses, memberReferences, classReferences };
+}
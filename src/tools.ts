@@ -0,0 +1,206 @@
+/**
+ * MCP tool definitions. Arguments shared by several tools are defined once and spread into
+ * each input schema, so that every tool describes them the same way.
+ */
+
+// --- Types ---
+
+interface PropertySchema {
+  type: "string" | "boolean" | "array";
+  items?: { type: "string" };
+  enum?: string[];
+  description: string;
+}
+
+type Properties = Record<string, PropertySchema>;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: "object";
+    properties: Properties;
+    required?: string[];
+  };
+}
+
+type ToolLanguage = "java" | "kotlin" | "mixed";
+
+// --- Shared arguments ---
+
+const LANGUAGE_NAMES: Record<ToolLanguage, string> = { java: "Java", kotlin: "Kotlin", mixed: "Java and Kotlin" };
+const LANGUAGE_EXTENSIONS: Record<ToolLanguage, string> = { java: ".java", kotlin: ".kt", mixed: ".java and .kt" };
+
+function stringArray(description: string): PropertySchema {
+  return { type: "array", items: { type: "string" }, description };
+}
+
+/** File filters of every tool that scans directories */
+const FILE_FILTER_PROPERTIES: Properties = {
+  include: stringArray("Glob patterns that files must match to be processed, relative to each scanned directory (e.g. \"src/main/**\"). All files are processed when omitted."),
+  exclude: stringArray("Glob patterns for files and directories to skip, relative to each scanned directory (e.g. \"**/generated/**\"). Added to the config's exclude list; excluded directories are not traversed."),
+  respectGitignore: {
+    type: "boolean",
+    description: "Skip files and directories ignored by .gitignore, .git/info/exclude and nested .gitignore files. Overrides the config's respectGitignore. Default: true.",
+  },
+  changedSince: {
+    type: "string",
+    description: "Git ref (branch, tag or commit). Only files added, modified or renamed since that ref (including uncommitted and untracked files) are processed.",
+  },
+};
+
+/** Reporting arguments of the detection tools */
+const DETECTION_PROPERTIES: Properties = {
+  changedLinesOnly: {
+    type: "boolean",
+    description: "With changedSince, reports only findings on lines changed since the ref instead of all findings in changed files.",
+  },
+  baselinePath: {
+    type: "string",
+    description: "Path to a baseline file. Findings recorded in the baseline are not reported, and baseline entries that no longer match anything are listed as fixed.",
+  },
+  writeBaseline: {
+    type: "boolean",
+    description: "When true, writes all current findings to baselinePath instead of filtering against it. Entries of an existing baseline for other languages or tools are kept, so that several tools can share one baseline file.",
+  },
+  outputFormat: {
+    type: "string",
+    enum: ["json", "sarif"],
+    description: "Response format: \"json\" (default) or \"sarif\" for a SARIF 2.1.0 log that code-scanning tools can ingest.",
+  },
+};
+
+/** Arguments of the public dead code tools besides paths and activeProfiles */
+const PUBLIC_DEAD_CODE_PROPERTIES: Properties = {
+  projectRoot: {
+    type: "string",
+    description: "Gradle or Maven project directory. Modules and source sets are discovered from settings.gradle(.kts), build.gradle(.kts) and pom.xml; main source sets are analyzed, test source sets only count as references, and main resource directories are searched for META-INF/services.",
+  },
+  referencePaths: stringArray("Directories or files (e.g. test sources) parsed only for references: usages there keep declarations in paths alive, but their own declarations are never reported."),
+  reportUsedOnlyInTests: {
+    type: "boolean",
+    description: "When true, declarations that are used only from referencePaths (or discovered test source sets) are reported with the used_only_in_tests category instead of counting as used.",
+  },
+  reachability: {
+    type: "boolean",
+    description: "When true, reports declarations that are not reachable from entrypoints, main methods and test methods (walking the reference graph), instead of declarations that are not referenced anywhere. Dead declarations connected by references are grouped into clusters that can be deleted together.",
+  },
+  metaAnnotations: {
+    type: "boolean",
+    description: "When true, annotatedBy rules also match declarations carrying an annotation declared in the analyzed or reference sources that is itself (transitively) annotated with the rule's annotation, e.g. a custom stereotype annotated with @RestController.",
+  },
+};
+
+function pathsProperty(language: ToolLanguage, purpose: string): PropertySchema {
+  const name = LANGUAGE_NAMES[language];
+  const extension = LANGUAGE_EXTENSIONS[language];
+  return stringArray(`Array of ${name} file paths or directories to ${purpose}. Directories are scanned recursively for ${extension} files.`);
+}
+
+function dryRunProperty(removed: string): PropertySchema {
+  return {
+    type: "boolean",
+    description: `When true, files are not modified. Instead, returns a unified diff alongside the removed ${removed} for each file that would change.`,
+  };
+}
+
+// --- Tools ---
+
+function cleanupImportsTool(language: "java" | "kotlin"): ToolDefinition {
+  const name = LANGUAGE_NAMES[language];
+  return {
+    name: `cleanup_unused_imports_${language}`,
+    description: `Clean up unused imports in ${name} files. Removes specific unused imports while keeping wildcard imports. When the config sets sortImports, the remaining imports are sorted with its importLayout; the intellij preset is IntelliJ IDEA's default layout${language === "java" ? " (others, javax.*, java.*, static imports last)" : ""}, and other orders need a custom layout.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        paths: pathsProperty(language, "clean up"),
+        ...FILE_FILTER_PROPERTIES,
+        dryRun: dryRunProperty("imports"),
+      },
+      required: ["paths"],
+    },
+  };
+}
+
+function detectDeadCodeTool(language: "java" | "kotlin"): ToolDefinition {
+  const name = LANGUAGE_NAMES[language];
+  return {
+    name: `detect_dead_code_${language}`,
+    description: `Detect dead code in ${name} files. Finds unused parameters, local variables, private fields, and private methods. Detection only — does not modify files.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        paths: pathsProperty(language, "analyze"),
+        ...FILE_FILTER_PROPERTIES,
+        ...DETECTION_PROPERTIES,
+      },
+      required: ["paths"],
+    },
+  };
+}
+
+function fixDeadCodeTool(language: "java" | "kotlin", description: string): ToolDefinition {
+  return {
+    name: `fix_dead_code_${language}`,
+    description,
+    inputSchema: {
+      type: "object",
+      properties: {
+        paths: pathsProperty(language, "fix"),
+        ...FILE_FILTER_PROPERTIES,
+        dryRun: dryRunProperty("declarations"),
+      },
+      required: ["paths"],
+    },
+  };
+}
+
+const PUBLIC_DEAD_CODE_RESOLUTION = "Class and member references are resolved through imports and statically known receiver types; references whose receiver type is unknown fall back to name matching.";
+
+function detectPublicDeadCodeTool(language: ToolLanguage, description: string, profileExamples: string): ToolDefinition {
+  return {
+    name: language === "mixed" ? "detect_public_dead_code" : `detect_public_dead_code_${language}`,
+    description: `${description} Supports profile rules (spring, junit5, android) to protect framework entrypoints. Detection only — does not modify files. ${PUBLIC_DEAD_CODE_RESOLUTION}`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        paths: stringArray(`Source root directories to scan recursively for ${LANGUAGE_EXTENSIONS[language]} files. Also used as resource roots for META-INF/services lookup when the serviceDiscovery entrypoint condition is active. Optional when projectRoot is given; then added to the discovered source roots.`),
+        ...FILE_FILTER_PROPERTIES,
+        activeProfiles: stringArray(`Active profile names (e.g. ${profileExamples}). Replaces config file activeProfiles when provided.`),
+        ...PUBLIC_DEAD_CODE_PROPERTIES,
+        ...DETECTION_PROPERTIES,
+      },
+    },
+  };
+}
+
+export const TOOLS: ToolDefinition[] = [
+  cleanupImportsTool("java"),
+  cleanupImportsTool("kotlin"),
+  detectDeadCodeTool("java"),
+  detectDeadCodeTool("kotlin"),
+  fixDeadCodeTool(
+    "java",
+    "Remove dead code from Java files: deletes unused private methods, unused private fields and unused local variables, including attached doc comments and annotations. Declarations whose initializer may have side effects are reported as unsafe instead of deleted. Unused parameters are not changed."
+  ),
+  fixDeadCodeTool(
+    "kotlin",
+    "Remove dead code from Kotlin files: deletes unused private functions, unused private properties and unused local variables, including attached doc comments and annotations. Declarations whose initializer may have side effects are reported as unsafe instead of deleted. Unused parameters are not changed."
+  ),
+  detectPublicDeadCodeTool(
+    "java",
+    "Detect unused public/protected members across Java source roots using cross-file analysis.",
+    "'spring', 'junit5'"
+  ),
+  detectPublicDeadCodeTool(
+    "kotlin",
+    "Detect unused public/protected/internal members across Kotlin source roots using cross-file analysis.",
+    "'spring', 'android'"
+  ),
+  detectPublicDeadCodeTool(
+    "mixed",
+    "Detect unused public/protected/internal members across mixed Java and Kotlin source roots, parsing .java and .kt files in one pass so that code used only from the other language is not reported. Kotlin declarations are matched under the names Java sees (getFoo/isFoo/setFoo accessors, @JvmName, Companion, FileNameKt facade classes), and Java accessors under their Kotlin property names.",
+    "'spring', 'junit5', 'android'"
+  ),
+];
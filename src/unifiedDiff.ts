@@ -0,0 +1,157 @@
+/**
+ * Minimal line-based unified diff generator (no external dependencies).
+ * Uses Myers' O(ND) algorithm, which is fast for the small, localized edits
+ * produced by the cleanup tools.
+ */
+
+type EditOp = { kind: 'equal' | 'delete' | 'insert'; line: string };
+
+/**
+ * Split text into lines without their terminators.
+ * A trailing line terminator does not produce an empty final line.
+ */
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Compute the shortest edit script between two line arrays (Myers, 1986).
+ */
+function diffLines(a: string[], b: string[]): EditOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Backtrack through the saved V arrays to recover the edit script
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ kind: 'insert', line: b[y - 1] });
+      } else {
+        ops.push({ kind: 'delete', line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function formatRange(start: number, count: number): string {
+  // Unified diff convention: an empty range points at the line before it
+  const displayStart = count === 0 ? start - 1 : start;
+  return count === 1 ? `${displayStart}` : `${displayStart},${count}`;
+}
+
+/**
+ * Create a unified diff (as produced by `diff -u` / `git diff`) between two texts.
+ * Returns an empty string when the texts are identical.
+ *
+ * @param fileName  Path shown in the `---`/`+++` header lines (prefixed with a/ and b/)
+ * @param context   Number of unchanged context lines around each hunk (default 3)
+ */
+export function createUnifiedDiff(
+  fileName: string,
+  oldText: string,
+  newText: string,
+  context = 3,
+): string {
+  if (oldText === newText) return '';
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Annotate each op with its 1-based line numbers in old and new text
+  const annotated: Array<EditOp & { oldLine: number; newLine: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    annotated.push({ ...op, oldLine, newLine });
+    if (op.kind !== 'insert') oldLine++;
+    if (op.kind !== 'delete') newLine++;
+  }
+
+  const changeIndices = annotated
+    .map((op, i) => (op.kind === 'equal' ? -1 : i))
+    .filter(i => i !== -1);
+  if (changeIndices.length === 0) {
+    // Texts differ only in line terminators, which splitLines() normalizes away
+    return `--- a/${fileName}\n+++ b/${fileName}\n`;
+  }
+
+  // Group changes into hunks, merging those whose context windows overlap
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const idx of changeIndices) {
+    const start = Math.max(0, idx - context);
+    const end = Math.min(annotated.length - 1, idx + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  const out: string[] = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  for (const hunk of hunks) {
+    const slice = annotated.slice(hunk.start, hunk.end + 1);
+    const oldCount = slice.filter(op => op.kind !== 'insert').length;
+    const newCount = slice.filter(op => op.kind !== 'delete').length;
+    out.push(
+      `@@ -${formatRange(slice[0].oldLine, oldCount)} +${formatRange(slice[0].newLine, newCount)} @@`
+    );
+    for (const op of slice) {
+      const prefix = op.kind === 'equal' ? ' ' : op.kind === 'delete' ? '-' : '+';
+      out.push(prefix + op.line);
+    }
+  }
+
+  return out.join('\n') + '\n';
+}